@@ -0,0 +1,102 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { parseArgs } from 'util';
+import { twoline2satrec } from 'satellite.js';
+import { loadLatest } from './lib/snapshot';
+import { formatCsv } from './lib/parse';
+import { EO_KINDS, EoKind, eoKind } from '../src/shared/missions';
+import { findCrossings, geometryFromGeoJson } from '../src/shared/overflight';
+import { AoiOverflight, AoiReport, SCHEMA_VERSION } from '../src/shared/schema';
+
+// Which imaging / weather / SAR satellites cross a crisis area, from the latest snapshot.
+//   npm run aoi -- <area.geojson> [--start ISO] [--hours 24] [--name slug] [--step sec] [--all]
+// Writes aoi/<name>.json and .csv into the snapshot's hour directory and latest/.
+
+const USAGE = 'usage: npm run aoi -- <area.geojson> [--start ISO] [--hours 24] [--name slug] [--step sec] [--all]';
+
+function options() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      start: { type: 'string' },
+      hours: { type: 'string', default: '24' },
+      name: { type: 'string' },
+      // sampling step in seconds; defaults to a fraction of the area's size
+      step: { type: 'string' },
+      // every object, not only Earth-observation missions
+      all: { type: 'boolean', default: false },
+    },
+  });
+  const file = positionals[0];
+  if (!file) throw new Error(USAGE);
+  const start = values.start ? Date.parse(values.start) : Date.now();
+  const hours = Number(values.hours);
+  const stepSec = values.step === undefined ? undefined : Number(values.step);
+  if (!Number.isFinite(start) || !(hours > 0) || (stepSec !== undefined && !(stepSec > 0))) throw new Error(USAGE);
+  const name = (values.name ?? path.basename(file).replace(/\.(geo)?json$/i, '')).replace(/[^A-Za-z0-9_-]+/g, '_');
+  return { file, start, end: start + hours * 3600000, stepSec, name, all: values.all };
+}
+
+const CSV_HEADER = ['noradId', 'name', 'kind', 'entry', 'exit', 'durationSec', 'sunElevationDeg', 'sunlit'];
+
+async function run() {
+  const opts = options();
+  const geometry = geometryFromGeoJson(JSON.parse(await fs.readFile(opts.file, 'utf-8')));
+  const { index, latestDir, hourDir, catalog } = await loadLatest();
+
+  const records: AoiOverflight[] = [];
+  let screened = 0;
+  for (const entry of catalog) {
+    const kind: EoKind | null = eoKind(entry.name);
+    if (!kind && !opts.all) continue;
+    screened++;
+    let rec;
+    try {
+      rec = twoline2satrec(entry.l1, entry.l2);
+    } catch {
+      continue;
+    }
+    for (const c of findCrossings(rec, geometry, opts)) {
+      records.push({
+        noradId: entry.noradId,
+        name: entry.name,
+        kind,
+        entry: new Date(c.entry).toISOString(),
+        exit: new Date(c.exit).toISOString(),
+        durationSec: Math.round((c.exit - c.entry) / 1000),
+        sunElevationDeg: Math.round(c.sunElevationDeg * 10) / 10,
+        sunlit: c.sunlit,
+        track: c.track.map(([lon, lat]) => [Math.round(lon * 1e4) / 1e4, Math.round(lat * 1e4) / 1e4]),
+      });
+    }
+  }
+  records.sort((a, b) => a.entry.localeCompare(b.entry) || a.noradId - b.noradId);
+
+  const report: AoiReport = {
+    schema: 'aoi_overflights',
+    version: SCHEMA_VERSION,
+    generatedAt: new Date().toISOString(),
+    records,
+    area: { name: opts.name, geometry },
+    window: { start: new Date(opts.start).toISOString(), end: new Date(opts.end).toISOString() },
+    snapshot: index.hourPath,
+  };
+  const csv = formatCsv(
+    CSV_HEADER,
+    records.map((r) => [r.noradId, r.name, r.kind, r.entry, r.exit, r.durationSec, r.sunElevationDeg, r.sunlit])
+  );
+  for (const dir of [hourDir, latestDir]) {
+    const out = path.join(dir, 'aoi');
+    await fs.mkdir(out, { recursive: true });
+    await fs.writeFile(path.join(out, `${opts.name}.json`), JSON.stringify(report));
+    await fs.writeFile(path.join(out, `${opts.name}.csv`), csv);
+  }
+  const kinds = opts.all ? 'all objects' : EO_KINDS.join('/');
+  console.log(`screened ${screened} ${kinds} satellites: ${records.length} overflights, ${new Set(records.map((r) => r.noradId)).size} satellites`);
+  console.log(`wrote ${path.join(index.hourPath, 'aoi', `${opts.name}.json`)} (+ .csv, latest/aoi/)`);
+}
+
+run().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,54 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { parseArgs } from 'util';
+import { feature, mesh } from 'topojson-client';
+import type { GeometryCollection, Topology } from 'topojson-specification';
+
+// Offline basemap for the viewer: Natural Earth land (its outline doubles as the coastline) and
+// country borders as GeoJSON under public/basemap/, generated from the world-atlas package
+// (Natural Earth in TopoJSON).
+//   npm run basemap -- [--scale 50m]
+// The output is committed; rerun only to change the scale or after a world-atlas update.
+
+const OUT_DIR = path.join(process.cwd(), 'public', 'basemap');
+const SCALES = ['110m', '50m', '10m'];
+// ~100 m at the equator, far below what a 1:50m source resolves
+const COORD_DIGITS = 3;
+
+type Countries = Topology<{ countries: GeometryCollection; land: GeometryCollection }>;
+
+const roundCoords = (key: string, value: unknown) =>
+  typeof value === 'number' && key !== 'id' ? Math.round(value * 10 ** COORD_DIGITS) / 10 ** COORD_DIGITS : value;
+
+async function writeGeoJson(name: string, data: unknown) {
+  const file = path.join(OUT_DIR, name);
+  const body = JSON.stringify(data, roundCoords);
+  await fs.writeFile(file, body, 'utf-8');
+  console.log(`${file}: ${(Buffer.byteLength(body) / 1024).toFixed(0)} KB`);
+}
+
+async function run() {
+  const { values } = parseArgs({ options: { scale: { type: 'string', default: '50m' } } });
+  const scale = values.scale!;
+  if (!SCALES.includes(scale)) throw new Error(`usage: npm run basemap -- [--scale ${SCALES.join('|')}]`);
+  const topo = JSON.parse(
+    await fs.readFile(require.resolve(`world-atlas/countries-${scale}.json`), 'utf-8')
+  ) as Countries;
+
+  await fs.mkdir(OUT_DIR, { recursive: true });
+  await writeGeoJson('land.geojson', feature(topo, topo.objects.land));
+  // arcs shared by two countries; those used by one are coastline
+  await writeGeoJson('borders.geojson', mesh(topo, topo.objects.countries, (a, b) => a !== b));
+  await fs.writeFile(
+    path.join(OUT_DIR, 'SOURCE.txt'),
+    `Natural Earth 1:${scale} (public domain, https://www.naturalearthdata.com/) via world-atlas ${
+      JSON.parse(await fs.readFile(require.resolve('world-atlas/package.json'), 'utf-8')).version
+    }\n`,
+    'utf-8'
+  );
+}
+
+run().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,37 @@
+import { parseArgs } from 'util';
+import { compact } from './lib/compact';
+import { DATA_ROOT } from './lib/snapshot';
+
+// Retention and compaction of the committed hour tree (scripts/lib/compact.ts).
+//   npm run compact -- [--keep-raw 4] [--hourly-days 14]
+// Hours older than --hourly-days are rolled up to the day's first hour plus YYYY/MM/DD/rollup.json;
+// all but the newest --keep-raw hours move into data/store/.
+
+const USAGE = 'usage: npm run compact -- [--keep-raw 4] [--hourly-days 14]';
+
+function options() {
+  const { values } = parseArgs({
+    options: {
+      'keep-raw': { type: 'string', default: '4' },
+      'hourly-days': { type: 'string', default: '14' },
+    },
+  });
+  const keepRaw = Number(values['keep-raw']);
+  const hourlyDays = Number(values['hourly-days']);
+  if (!Number.isInteger(keepRaw) || keepRaw < 0 || !(hourlyDays >= 0)) throw new Error(USAGE);
+  return { keepRaw, hourlyDays };
+}
+
+async function run() {
+  const opts = options();
+  const r = await compact(DATA_ROOT, opts);
+  if (r.rolledUp) console.log(`rolled up ${r.rolledUp} hours older than ${opts.hourlyDays} days to daily (rollup.json)`);
+  const mb = (n: number) => (n / 1048576).toFixed(1);
+  console.log(`compacted ${r.compacted} hours: ${mb(r.rawBytes)} MB of files stored as ${mb(r.storedBytes)} MB before blob sharing`);
+  if (r.removedBlobs) console.log(`removed ${r.removedBlobs} unreferenced blobs`);
+}
+
+run().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,63 @@
+import fs from 'fs/promises';
+import { parseArgs } from 'util';
+import { twoline2satrec } from 'satellite.js';
+import { loadLatest } from './lib/snapshot';
+import { ExportTarget, exportEphemeris, isExportFormat } from '../src/shared/export';
+import { tleCosparId } from '../src/shared/tle';
+
+// Ephemeris of selected objects from the latest snapshot in CZML, KML, GeoJSON or CCSDS OEM.
+//   npm run export -- --format czml|kml|geojson|oem --ids 25544,48274 [--start ISO] [--hours 24] [--step 60] [--out file]
+// Without --out the file goes to stdout.
+
+const USAGE =
+  'usage: npm run export -- --format czml|kml|geojson|oem --ids 25544,48274 [--start ISO] [--hours 24] [--step 60] [--out file]';
+
+function options() {
+  const { values } = parseArgs({
+    options: {
+      format: { type: 'string' },
+      ids: { type: 'string' },
+      start: { type: 'string' },
+      hours: { type: 'string', default: '24' },
+      step: { type: 'string', default: '60' },
+      out: { type: 'string' },
+    },
+  });
+  const ids = (values.ids ?? '').split(',').filter(Boolean).map(Number);
+  const start = values.start ? Date.parse(values.start) : Date.now();
+  const hours = Number(values.hours);
+  const stepSec = Number(values.step);
+  if (!isExportFormat(values.format) || !ids.length || ids.some((id) => !Number.isInteger(id))) throw new Error(USAGE);
+  if (!Number.isFinite(start) || !(hours > 0) || !(stepSec > 0)) throw new Error(USAGE);
+  return { format: values.format, ids, start, end: start + hours * 3600000, stepSec, out: values.out };
+}
+
+async function run() {
+  const opts = options();
+  const { index, catalog } = await loadLatest();
+  const byId = new Map(catalog.map((e) => [e.noradId, e]));
+  const targets: ExportTarget[] = [];
+  for (const id of opts.ids) {
+    const entry = byId.get(id);
+    if (!entry) {
+      console.warn(`${id}: not in snapshot ${index.hourPath}`);
+      continue;
+    }
+    const cosparId = entry.object?.cosparId ?? tleCosparId(entry.l1);
+    targets.push({ noradId: id, name: entry.name, cosparId, rec: twoline2satrec(entry.l1, entry.l2) });
+  }
+  if (!targets.length) throw new Error('no requested object is in the latest snapshot');
+
+  const body = exportEphemeris(opts.format, targets, opts);
+  if (opts.out) {
+    await fs.writeFile(opts.out, body, 'utf-8');
+    console.log(`wrote ${opts.format} for ${targets.length} objects to ${opts.out}`);
+  } else {
+    process.stdout.write(body);
+  }
+}
+
+run().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,39 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { parseArgs } from 'util';
+import { HISTORY_DIR, appendHistory, readHistoryIndex, writeHistoryIndex } from './lib/history';
+import { buildManifest } from './lib/manifest';
+import { DATA_ROOT, loadNormalized } from './lib/snapshot';
+
+// Builds history/ from the committed snapshot tree, oldest hour first. The collector keeps it
+// up to date afterwards; this is for the first build and for rebuilding after a format change.
+//   npm run history -- [--rebuild]
+
+async function run() {
+  const { values } = parseArgs({ options: { rebuild: { type: 'boolean', default: false } } });
+  const historyDir = path.join(DATA_ROOT, HISTORY_DIR);
+  if (values.rebuild) await fs.rm(historyDir, { recursive: true, force: true });
+
+  const index = await readHistoryIndex(historyDir);
+  const { hours } = await buildManifest(DATA_ROOT, new Date().toISOString());
+  let total = 0;
+  for (const h of hours) {
+    let snapshot;
+    try {
+      snapshot = await loadNormalized(path.join(DATA_ROOT, h.hourPath));
+    } catch {
+      // hours holding only SATCAT have no element sets
+      continue;
+    }
+    const appended = await appendHistory(historyDir, index, snapshot.elements);
+    total += appended;
+    console.log(`${h.hourPath}: +${appended}`);
+  }
+  await writeHistoryIndex(historyDir, index, new Date().toISOString());
+  console.log(`history: ${total} element sets appended, ${index.size} objects in ${historyDir}`);
+}
+
+run().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
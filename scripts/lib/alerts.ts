@@ -0,0 +1,340 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { twoline2satrec } from 'satellite.js';
+import { postJsonWithRetry } from './fetch';
+import { stringifyRecordsFile } from './parse';
+import { loadNormalized, readJsonIfExists, readSnapshotJson } from './snapshot';
+import { CONSTELLATIONS, classifyConstellation } from '../../src/shared/constellations';
+import { eoKind } from '../../src/shared/missions';
+import { AoiGeometry, findCrossings, geometryFromGeoJson } from '../../src/shared/overflight';
+import {
+  Alert,
+  AlertKind,
+  AlertsFile,
+  ChangesReport,
+  GpElement,
+  SCHEMA_VERSION,
+  SatObject,
+  SnapshotChange,
+  SnapshotIndex,
+} from '../../src/shared/schema';
+import { formatTle } from '../../src/shared/tle';
+
+// Alerts on watched satellites and areas, evaluated on the latest snapshot after each collection.
+// The rules file (alert-rules.json at the repository root, see alert-rules.example.json) lists
+// rules and notifiers. The JSON notifier keeps every alert raised in a file (<data root>/alerts.json
+// unless configured), which also keeps a condition that still holds from being raised again, so
+// one is added when the rules file lists none; the other notifiers only hear of new alerts
+// (webhook) or render that list (Atom feed, alerts.xml).
+
+export type AlertWatch = {
+  noradIds?: number[];
+  // constellation id from src/shared/constellations.json
+  constellation?: string;
+  // SATCAT owner codes
+  owner?: string[];
+  // pass only: GeoJSON Polygon/MultiPolygon (Feature/FeatureCollection), inline or a file
+  // path relative to the rules file
+  area?: string | object;
+};
+
+export type AlertRule = {
+  id: string;
+  // objects matching every criterion given; none watches every object, or for passes the
+  // Earth-observation missions (as npm run aoi)
+  watch: AlertWatch;
+  when: AlertKind;
+  // stale: epoch older than this many days (default 3)
+  days?: number;
+  // pass: entries into the area within this many hours of the collection (default 12)
+  hours?: number;
+};
+
+export type NotifierConfig =
+  // path relative to the data root, default alerts.json
+  | { type: 'json'; path?: string }
+  | { type: 'feed'; title?: string }
+  | { type: 'webhook'; url?: string; urlEnv?: string };
+
+export type AlertRules = {
+  rules: Array<AlertRule & { geometry: AoiGeometry | null }>;
+  notifiers: NotifierConfig[];
+};
+
+// Receives the alerts raised by this run and the updated alerts.json
+export type Notifier = (raised: Alert[], alerts: AlertsFile) => Promise<void>;
+
+const KINDS: AlertKind[] = ['maneuver', 'stale', 'pass', 'new_object'];
+const DAY_MS = 86400000;
+const EARTH_RADIUS_KM = 6378.137;
+// Alerts older than this drop out of alerts.json; a condition still holding after that is raised again
+const RETENTION_DAYS = 30;
+const FEED_ENTRIES = 100;
+// Alerts listed in a webhook's text; the alerts array carries all of them
+const WEBHOOK_TEXT_LINES = 20;
+
+// null when the file does not exist; malformed rules are errors
+export async function loadAlertRules(file: string): Promise<AlertRules | null> {
+  const config = await readJsonIfExists<{ rules?: AlertRule[]; notifiers?: NotifierConfig[] }>(file);
+  if (!config) return null;
+  const fail = (msg: string): never => {
+    throw new Error(`${file}: ${msg}`);
+  };
+  if (!Array.isArray(config.rules)) fail('no rules array');
+  const ids = new Set<string>();
+  const rules = [];
+  for (const rule of config.rules!) {
+    const { id, watch = {}, when } = rule;
+    if (typeof id !== 'string' || !id) fail('rule without an id');
+    if (ids.has(id)) fail(`duplicate rule ${id}`);
+    ids.add(id);
+    if (!KINDS.includes(when)) fail(`rule ${id}: when must be one of ${KINDS.join(', ')}`);
+    if (watch.constellation && !CONSTELLATIONS.some((c) => c.id === watch.constellation)) {
+      fail(`rule ${id}: unknown constellation ${watch.constellation}`);
+    }
+    if (when === 'pass' && watch.area === undefined) fail(`rule ${id}: pass needs an area`);
+    if (when !== 'pass' && watch.area !== undefined) fail(`rule ${id}: an area only applies to pass`);
+    let geometry: AoiGeometry | null = null;
+    if (watch.area !== undefined) {
+      const json =
+        typeof watch.area === 'string'
+          ? JSON.parse(await fs.readFile(path.resolve(path.dirname(file), watch.area), 'utf-8'))
+          : watch.area;
+      geometry = geometryFromGeoJson(json);
+    }
+    rules.push({ ...rule, watch, geometry });
+  }
+  const notifiers = config.notifiers ?? [{ type: 'feed' }];
+  for (const n of notifiers) {
+    if (!['json', 'feed', 'webhook'].includes(n.type)) fail(`unknown notifier ${n.type}`);
+    if (n.type === 'json' && n.path !== undefined && (typeof n.path !== 'string' || !n.path || path.isAbsolute(n.path) || n.path.split(/[\\/]/).includes('..'))) {
+      fail('json notifier path must be a file under the data root');
+    }
+  }
+  return { rules, notifiers };
+}
+
+export type AlertSnapshot = {
+  elements: GpElement[];
+  objects: SatObject[];
+  // changes.json of this collection; null for the first one
+  changes: SnapshotChange[] | null;
+};
+
+const minute = (t: number | string) => new Date(t).toISOString().slice(0, 16) + 'Z';
+
+// Alerts of every rule that holds in the snapshot, stamped with the collection time
+export function evaluateAlerts(rules: AlertRules['rules'], snapshot: AlertSnapshot, generatedAt: string): Alert[] {
+  const now = Date.parse(generatedAt);
+  const objects = new Map(snapshot.objects.map((o) => [o.noradId, o]));
+  const elements = new Map(snapshot.elements.map((el) => [el.noradId, el]));
+  const nameOf = (noradId: number) => objects.get(noradId)?.name || `NORAD ${noradId}`;
+  const constellationOf = (noradId: number) => {
+    const object = objects.get(noradId);
+    const el = elements.get(noradId);
+    return classifyConstellation({
+      name: object?.name ?? '',
+      cosparId: object?.cosparId,
+      owner: object?.owner,
+      objectType: object?.objectType,
+      altKm: el && el.semiMajorAxisKm - EARTH_RADIUS_KM,
+      inclinationDeg: el?.inclinationDeg,
+    })?.id;
+  };
+
+  const out: Alert[] = [];
+  for (const rule of rules) {
+    const { watch } = rule;
+    const watched = (noradId: number) =>
+      (!watch.noradIds || watch.noradIds.includes(noradId)) &&
+      (!watch.owner || watch.owner.includes(objects.get(noradId)?.owner ?? '')) &&
+      (!watch.constellation || constellationOf(noradId) === watch.constellation);
+    const alert = (noradId: number, key: string, time: string, title: string, detail: string, until?: string) =>
+      out.push({
+        id: `${rule.id}:${noradId}:${key}`,
+        rule: rule.id,
+        kind: rule.when,
+        noradId,
+        name: nameOf(noradId),
+        time,
+        ...(until && { until }),
+        raisedAt: generatedAt,
+        title: `${nameOf(noradId)} (${noradId}): ${title}`,
+        detail,
+      });
+
+    if (rule.when === 'maneuver' || rule.when === 'new_object') {
+      const kind = rule.when === 'maneuver' ? 'maneuver' : 'appeared';
+      for (const c of snapshot.changes ?? []) {
+        if (c.kind !== kind || !watched(c.noradId)) continue;
+        if (kind === 'maneuver') {
+          const deltas = [
+            c.deltaSemiMajorAxisKm !== null && `semi-major axis ${c.deltaSemiMajorAxisKm.toFixed(2)} km`,
+            c.deltaInclinationDeg !== null && `inclination ${c.deltaInclinationDeg.toFixed(3)}°`,
+            c.deltaEccentricity !== null && `eccentricity ${c.deltaEccentricity.toFixed(5)}`,
+          ].filter(Boolean);
+          const epoch = c.epoch ?? generatedAt;
+          const detail = `${c.reasons.join(', ')} jumped between epochs ${c.previousEpoch} and ${c.epoch}: ${deltas.join(', ')}`;
+          alert(c.noradId, epoch, epoch, 'maneuver detected', detail);
+        } else {
+          const owner = objects.get(c.noradId)?.owner;
+          const detail = `${c.cosparId ?? 'no COSPAR ID'}, ${c.objectType ?? 'type unknown'}, owner ${owner ?? 'unknown'}, launched ${c.launchDate ?? 'unknown'}`;
+          alert(c.noradId, 'new', generatedAt, 'new object', detail);
+        }
+      }
+    } else if (rule.when === 'stale') {
+      const days = rule.days ?? 3;
+      for (const el of snapshot.elements) {
+        const age = (now - Date.parse(el.epoch)) / DAY_MS;
+        if (age <= days || !watched(el.noradId)) continue;
+        // keyed by the epoch: raised once per element set, again if a newer one also goes stale
+        alert(el.noradId, el.epoch, el.epoch, `element set ${age.toFixed(1)} days old`, `epoch ${el.epoch} is older than ${days} days`);
+      }
+    } else {
+      const hours = rule.hours ?? 12;
+      const unfiltered = !watch.noradIds && !watch.owner && !watch.constellation;
+      for (const el of snapshot.elements) {
+        if (unfiltered ? !eoKind(nameOf(el.noradId)) : !watched(el.noradId)) continue;
+        let rec;
+        try {
+          const { l1, l2 } = formatTle({ ...el, epochMs: Date.parse(el.epoch), cosparId: objects.get(el.noradId)?.cosparId });
+          rec = twoline2satrec(l1, l2);
+        } catch {
+          continue;
+        }
+        for (const c of findCrossings(rec, rule.geometry!, { start: now, end: now + hours * 3600000 })) {
+          // keyed by the entry minute; newer elements shift a predicted pass by seconds, possibly
+          // across a minute, so mergeAlerts also knows a pass by its time in the area
+          const detail =
+            `in the area ${minute(c.entry)} to ${minute(c.exit)} (${Math.round((c.exit - c.entry) / 1000)} s), ` +
+            `${c.sunlit ? 'sunlit' : 'in shadow'}, sun elevation ${c.sunElevationDeg.toFixed(1)}°`;
+          const entry = new Date(c.entry).toISOString();
+          const exit = new Date(c.exit).toISOString();
+          alert(el.noradId, minute(c.entry), entry, `passes over ${rule.id} at ${minute(c.entry)}`, detail, exit);
+        }
+      }
+    }
+  }
+  return out;
+}
+
+// The same pass of an object over a rule's area, predicted from other element sets: the times
+// in the area overlap
+const samePass = (a: Alert, b: Alert) =>
+  a.kind === 'pass' &&
+  b.kind === 'pass' &&
+  a.rule === b.rule &&
+  a.noradId === b.noradId &&
+  a.time <= (b.until ?? b.time) &&
+  b.time <= (a.until ?? a.time);
+
+// Previous alerts.json plus the alerts not raised before, newest first, within RETENTION_DAYS
+export function mergeAlerts(previous: AlertsFile | null, alerts: Alert[], generatedAt: string): { raised: Alert[]; file: AlertsFile } {
+  const records = previous?.records ?? [];
+  const known = new Set(records.map((a) => a.id));
+  const raised = alerts.filter((a) => !known.has(a.id) && !records.some((r) => samePass(a, r)));
+  const cutoff = Date.parse(generatedAt) - RETENTION_DAYS * DAY_MS;
+  const merged = [...raised, ...records]
+    .filter((a) => Date.parse(a.raisedAt) >= cutoff)
+    .sort((a, b) => b.raisedAt.localeCompare(a.raisedAt) || a.time.localeCompare(b.time));
+  return { raised, file: { schema: 'alerts', version: SCHEMA_VERSION, generatedAt, records: merged } };
+}
+
+const escapeXml = (s: string) =>
+  s.replace(/[<>&'"]/g, (c) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' })[c]!);
+
+export function atomFeed(file: AlertsFile, title = 'crisis-watcher-satellite alerts'): string {
+  const entries = file.records.slice(0, FEED_ENTRIES).map((a) =>
+    [
+      '  <entry>',
+      `    <id>urn:crisis-watcher-satellite:alert:${escapeXml(a.id)}</id>`,
+      `    <title>${escapeXml(a.title)}</title>`,
+      `    <updated>${a.raisedAt}</updated>`,
+      `    <category term="${a.kind}"/>`,
+      `    <summary>${escapeXml(a.detail)}</summary>`,
+      '  </entry>',
+    ].join('\n')
+  );
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    '  <id>urn:crisis-watcher-satellite:alerts</id>',
+    `  <title>${escapeXml(title)}</title>`,
+    `  <updated>${file.generatedAt}</updated>`,
+    '  <author><name>crisis-watcher-satellite</name></author>',
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+export const jsonNotifier =
+  (file: string): Notifier =>
+  async (_raised, alerts) => {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, stringifyRecordsFile(alerts), 'utf-8');
+  };
+
+export const feedNotifier =
+  (dataRoot: string, title?: string): Notifier =>
+  (_raised, alerts) =>
+    fs.writeFile(path.join(dataRoot, 'alerts.xml'), atomFeed(alerts, title), 'utf-8');
+
+// Body of a webhook POST
+export type WebhookPayload = { text: string; generatedAt: string; alerts: Alert[] };
+
+// POSTs a WebhookPayload when anything was raised; the text line makes it usable as a
+// Slack incoming webhook. A receiver that stays down loses those alerts (they are in alerts.json).
+export function webhookNotifier(url: string, retries = 2, backoffMs = 1000): Notifier {
+  return async (raised, alerts) => {
+    if (!raised.length) return;
+    const lines = raised.slice(0, WEBHOOK_TEXT_LINES).map((a) => `• ${a.title}`);
+    if (raised.length > WEBHOOK_TEXT_LINES) lines.push(`… and ${raised.length - WEBHOOK_TEXT_LINES} more`);
+    const payload: WebhookPayload = { text: lines.join('\n'), generatedAt: alerts.generatedAt, alerts: raised };
+    await postJsonWithRetry(url, payload, retries, backoffMs);
+  };
+}
+
+// The file of the first JSON notifier, alerts.json without one: the next run reads it to tell new
+// alerts from known ones
+export function alertsFile(configs: NotifierConfig[], dataRoot: string) {
+  const json = configs.find((c): c is Extract<NotifierConfig, { type: 'json' }> => c.type === 'json');
+  return path.resolve(dataRoot, json?.path ?? 'alerts.json');
+}
+
+export function notifiers(configs: NotifierConfig[], dataRoot: string, env: NodeJS.ProcessEnv = process.env): Notifier[] {
+  const out: Notifier[] = [];
+  if (!configs.some((c) => c.type === 'json')) out.push(jsonNotifier(alertsFile(configs, dataRoot)));
+  for (const config of configs) {
+    if (config.type === 'json') out.push(jsonNotifier(path.resolve(dataRoot, config.path ?? 'alerts.json')));
+    if (config.type === 'feed') out.push(feedNotifier(dataRoot, config.title));
+    if (config.type === 'webhook') {
+      const url = config.url ?? (config.urlEnv ? env[config.urlEnv] : undefined);
+      if (url) out.push(webhookNotifier(url));
+      else console.warn(`alerts: webhook skipped, no url${config.urlEnv ? ` (${config.urlEnv} not set)` : ''}`);
+    }
+  }
+  return out;
+}
+
+// Evaluate the rules on latest/ under dataRoot and hand the result to the notifiers; null when
+// there is no snapshot yet (first run, or every source failed so far)
+export async function runAlerts(rules: AlertRules, dataRoot: string, env: NodeJS.ProcessEnv = process.env) {
+  const latestDir = path.join(dataRoot, 'latest');
+  const index = await readJsonIfExists<SnapshotIndex>(path.join(latestDir, 'index.json'));
+  if (!index) {
+    console.warn(`alerts: skipped, no snapshot in ${latestDir}`);
+    return null;
+  }
+  const { elements, objects } = await loadNormalized(latestDir);
+  // a changes.json left from an earlier collection does not describe this one
+  const changes = await readSnapshotJson<ChangesReport>(latestDir, 'changes.json');
+  const current = changes?.generatedAt === index.generatedAt ? changes.records : null;
+
+  const alerts = evaluateAlerts(rules.rules, { elements, objects, changes: current }, index.generatedAt);
+  const previous = await readJsonIfExists<AlertsFile>(alertsFile(rules.notifiers, dataRoot));
+  const { raised, file } = mergeAlerts(previous, alerts, index.generatedAt);
+  for (const notify of notifiers(rules.notifiers, dataRoot, env)) await notify(raised, file);
+  console.log(`alerts: ${raised.length} new, ${alerts.length - raised.length} already raised`);
+  return { raised, file };
+}
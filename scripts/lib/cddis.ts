@@ -0,0 +1,93 @@
+import { fetchBufferWithRetry } from './fetch';
+import { decompressAuto } from './decompress';
+import { Sp3Ephemeris, normalizeSp3, parseSp3 } from './sp3';
+import type { CollectContext, SourceDef } from './sources';
+import { ValidationResult } from './validate';
+
+// IGS ultra-rapid orbits: issued every 6 h (00/06/12/18 UTC), 3 h latency,
+// 15-minute sampling over 48 h (half observed, half predicted). An issue published late
+// is covered by also trying the one before it.
+const ISSUE_HOURS = 6;
+const LATENCY_HOURS = 3;
+
+export type Sp3Config = {
+  baseUrl: string;
+  // Earthdata Login bearer token; CDDIS rejects anonymous downloads
+  token?: string;
+};
+
+export function sp3ConfigFromEnv(env: NodeJS.ProcessEnv = process.env): Sp3Config | null {
+  const token = env.EARTHDATA_TOKEN;
+  const baseUrl = env.SP3_BASE_URL;
+  // A mirror (or a local mock) needs no token; CDDIS itself does
+  if (!token && !baseUrl) return null;
+  return { baseUrl: (baseUrl || 'https://cddis.nasa.gov/archive/gnss/products').replace(/\/+$/, ''), token };
+}
+
+const GPS_EPOCH_MS = Date.UTC(1980, 0, 6);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function gpsWeek(date: Date) {
+  return Math.floor((date.getTime() - GPS_EPOCH_MS) / (7 * DAY_MS));
+}
+
+// e.g. 2385/IGS0OPSULT_20252700600_02D_15M_ORB.SP3.gz
+export function ultraRapidPath(issue: Date) {
+  const yyyy = issue.getUTCFullYear();
+  const doy = Math.floor((issue.getTime() - Date.UTC(yyyy, 0, 1)) / DAY_MS) + 1;
+  const hh = String(issue.getUTCHours()).padStart(2, '0');
+  const name = `IGS0OPSULT_${yyyy}${String(doy).padStart(3, '0')}${hh}00_02D_15M_ORB.SP3`;
+  return { product: name, path: `${gpsWeek(issue)}/${name}.gz` };
+}
+
+// Newest issues that should already be published, newest first
+export function candidateIssues(now: Date, count = 2) {
+  const stepMs = ISSUE_HOURS * 60 * 60 * 1000;
+  const latest = Math.floor((now.getTime() - LATENCY_HOURS * 60 * 60 * 1000) / stepMs) * stepMs;
+  return Array.from({ length: count }, (_, i) => new Date(latest - i * stepMs));
+}
+
+export function validateSp3Ephemeris(body: string): ValidationResult {
+  let eph: Sp3Ephemeris;
+  try {
+    eph = JSON.parse(body);
+  } catch {
+    return { ok: false, error: 'not JSON' };
+  }
+  if (eph?.version !== 1 || !Array.isArray(eph.epochs) || !eph.satellites) return { ok: false, error: 'not an sp3_ephemeris document' };
+  if (!eph.epochs.length) return { ok: false, error: 'no epochs' };
+  const sats = Object.entries(eph.satellites);
+  if (!sats.length) return { ok: false, error: 'no satellites' };
+  for (const [id, s] of sats) {
+    if (s.position_km.length !== eph.epochs.length) return { ok: false, error: `${id}: ${s.position_km.length} positions for ${eph.epochs.length} epochs` };
+  }
+  return { ok: true, count: sats.length };
+}
+
+export function sp3Sources(config: Sp3Config): SourceDef[] {
+  const headers: Record<string, string> = config.token ? { Authorization: `Bearer ${config.token}` } : {};
+  return [
+    {
+      key: 'sp3UltraRapid',
+      url: `${config.baseUrl}/{gpsweek}/IGS0OPSULT_{yyyydddhh}00_02D_15M_ORB.SP3.gz`,
+      format: 'json',
+      file: 'sp3_ephemeris.json',
+      required: false,
+      schema: 'sp3',
+      parse: (b) => [JSON.parse(b) as Sp3Ephemeris],
+      validate: validateSp3Ephemeris,
+      // Download, decompress and normalize here so the stored body is already the JSON product
+      fetchBody: async (ctx: CollectContext) => {
+        for (const issue of candidateIssues(ctx.now)) {
+          const { product, path } = ultraRapidPath(issue);
+          const url = `${config.baseUrl}/${path}`;
+          const buf = await fetchBufferWithRetry(url, 2, 1000, headers);
+          if (!buf) continue;
+          const eph = normalizeSp3(parseSp3(decompressAuto(buf).toString('utf-8')), { product, source: url });
+          return JSON.stringify(eph);
+        }
+        return null;
+      },
+    },
+  ];
+}
@@ -0,0 +1,302 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { ConjunctionConfig, conjunctionReport } from './conjunctions';
+import { ConstellationConfig, constellationReport } from './constellations';
+import { SnapshotElements, diffSnapshots } from './diff';
+import { fetchTextWithRetry } from './fetch';
+import { updateHistory } from './history';
+import { buildManifest } from './manifest';
+import { NormalizeInput, columnarSnapshot, normalizeSnapshot } from './normalize';
+import { stringifyRecordsFile } from './parse';
+import { ReentryConfig, reentryReport } from './reentry';
+import { loadNormalized, readSnapshotJson } from './snapshot';
+import { ACCEPT_BY_FORMAT, CollectContext, SourceDef } from './sources';
+import { ValidationResult } from './validate';
+import { ChangesReport, ReentryReport, SCHEMA_VERSION, SnapshotIndex, SourceStatus } from '../../src/shared/schema';
+
+// One collection run: fetch and validate the sources, normalize them and derive the products,
+// write the hour directory, mirror it to latest/ and update manifest.json and the history.
+// Driven by the collector CLI (scripts/satellite.ts) and the tests.
+
+export type SourceResult = {
+  def: SourceDef;
+  status: SourceStatus;
+  count: number;
+  body: string | null;
+  // rejected body, kept under quarantine/
+  rejected: string | null;
+};
+
+// Where source bodies come from
+export type Transport = (def: SourceDef, ctx: CollectContext) => Promise<string | null>;
+
+export const networkTransport: Transport = (def, ctx) =>
+  def.fetchBody
+    ? def.fetchBody(ctx).catch((e) => {
+        console.warn(`fetch error (${def.key}):`, (e as Error).message);
+        return null;
+      })
+    : fetchTextWithRetry(def.url, 2, 1000, ACCEPT_BY_FORMAT[def.format]);
+
+// Recorded bodies named like the files they are stored as; a missing file is an unavailable source
+export function fixtureTransport(dir: string): Transport {
+  return async (def) => {
+    try {
+      return await fs.readFile(path.join(dir, def.file), 'utf-8');
+    } catch (e) {
+      if (e instanceof Error && (e as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw e;
+    }
+  };
+}
+
+// The same requests against another origin, e.g. a mock HTTP server. Sources with their own
+// transport keep it (Space-Track and CDDIS take SPACETRACK_BASE_URL / SP3_BASE_URL).
+export function mirrorTransport(baseUrl: string, retries = 2, backoffMs = 1000): Transport {
+  const base = baseUrl.replace(/\/+$/, '');
+  return (def, ctx) => {
+    if (def.fetchBody) return networkTransport(def, ctx);
+    const u = new URL(def.url);
+    return fetchTextWithRetry(`${base}${u.pathname}${u.search}`, retries, backoffMs, ACCEPT_BY_FORMAT[def.format]);
+  };
+}
+
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+// Hour directory of a collection time, in JST: 2025-09-27T18:19Z -> "2025/09/28/03"
+export function jstHourPath(date: Date) {
+  const jst = new Date(date.getTime() + JST_OFFSET_MS);
+  const yyyy = String(jst.getUTCFullYear());
+  const mm = String(jst.getUTCMonth() + 1).padStart(2, '0');
+  const dd = String(jst.getUTCDate()).padStart(2, '0');
+  const hh = String(jst.getUTCHours()).padStart(2, '0');
+  return `${yyyy}/${mm}/${dd}/${hh}`;
+}
+
+// Start of a JST hour directory: "2025/09/28/03" -> 2025-09-27T18:00:00Z; null if malformed
+export function hourPathTime(hourPath: string): Date | null {
+  const m = /^(\d{4})\/(\d{2})\/(\d{2})\/(\d{2})$/.exec(hourPath);
+  if (!m) return null;
+  const [y, mo, d, h] = m.slice(1).map(Number);
+  const t = Date.UTC(y, mo - 1, d, h) - JST_OFFSET_MS;
+  // rejects 2025/02/30 and hour 24, which Date.UTC would roll over
+  return jstHourPath(new Date(t)) === hourPath ? new Date(t) : null;
+}
+
+async function writeJsonFile(filepath: string, data: unknown) {
+  await fs.mkdir(path.dirname(filepath), { recursive: true });
+  await fs.writeFile(filepath, JSON.stringify(data, null, 2), 'utf-8');
+}
+
+// Fetch and validate one source
+async function collectSource(def: SourceDef, ctx: CollectContext, transport: Transport): Promise<SourceResult> {
+  const body = await transport(def, ctx);
+  const result: ValidationResult = body === null ? { ok: false, error: 'fetch failed' } : def.validate(body);
+  if (result.ok) {
+    const cursor = def.nextCursor?.(body!);
+    if (cursor) ctx.cursors[def.key] = cursor;
+    return { def, status: { status: 'ok', required: def.required }, count: result.count, body, rejected: null };
+  }
+  const status: SourceStatus = { status: body === null ? 'unavailable' : 'invalid', required: def.required, error: result.error };
+  // Keep the rejected body for inspection, away from the served file names
+  if (body !== null) status.quarantine = `quarantine/${def.file}`;
+  console.warn(`${def.key}: ${status.status} (${result.error})`);
+  return { def, status, count: 0, body: null, rejected: body };
+}
+
+async function readPreviousIndex(latestDir: string): Promise<SnapshotIndex | null> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(latestDir, 'index.json'), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+type PreviousSnapshot = SnapshotElements & { reentries: ReentryReport | null; hourPath: string; generatedAt: string };
+
+// Elements of the previous collection, for changes.json, and its re-entry estimates to carry
+// forward; null when it has none to compare
+async function loadPrevious(latestDir: string, prev: SnapshotIndex | null): Promise<PreviousSnapshot | null> {
+  if (!prev?.hourPath) return null;
+  try {
+    const dir = path.join(path.dirname(latestDir), prev.hourPath);
+    const snapshot = await loadNormalized(dir);
+    const reentries = await readSnapshotJson<ReentryReport>(dir, 'reentries.json');
+    return { ...snapshot, reentries, hourPath: prev.hourPath, generatedAt: prev.generatedAt };
+  } catch (e) {
+    console.warn(`changes: previous snapshot ${prev.hourPath} not usable:`, (e as Error).message);
+    return null;
+  }
+}
+
+// Products computed from the accepted sources, written next to them
+type DerivedProduct = { key: string; file: string; count: number; body: string | Buffer };
+
+type Normalized = ReturnType<typeof normalizeSnapshot>;
+
+function normalizeResults(results: SourceResult[], generatedAt: string): Normalized | null {
+  const inputs = results
+    .filter((r) => r.body !== null && r.def.schema)
+    .map((r) => ({ source: r.def.key, schema: r.def.schema!, records: r.def.parse(r.body!) }) as NormalizeInput);
+  return inputs.length ? normalizeSnapshot(inputs, generatedAt) : null;
+}
+
+function deriveProducts(
+  { objects, gpElements }: Normalized,
+  generatedAt: string,
+  opts: {
+    conjunctions: ConjunctionConfig | null;
+    reentries: ReentryConfig | null;
+    constellations: ConstellationConfig;
+    previous: PreviousSnapshot | null;
+  }
+): DerivedProduct[] {
+  const products: DerivedProduct[] = [
+    { key: 'objects', file: 'objects.json', count: objects.records.length, body: stringifyRecordsFile(objects) },
+    { key: 'gpElements', file: 'gp_elements.json', count: gpElements.records.length, body: stringifyRecordsFile(gpElements) },
+    {
+      key: 'gpElementsBin',
+      file: 'gp_elements.bin',
+      count: gpElements.records.length,
+      body: columnarSnapshot(gpElements.records, objects.records),
+    },
+  ];
+  const { conjunctions, reentries, constellations, previous } = opts;
+  const groups = constellationReport(gpElements.records, objects.records, constellations, generatedAt);
+  const stale = groups.records.reduce((sum, c) => sum + c.staleCount, 0);
+  console.log(`constellations: ${groups.records.length} with members, ${stale} element sets older than ${constellations.staleDays} days`);
+  products.push({ key: 'constellations', file: 'constellations.json', count: groups.records.length, body: stringifyRecordsFile(groups) });
+  if (previous) {
+    const changes: ChangesReport = {
+      schema: 'changes',
+      version: SCHEMA_VERSION,
+      generatedAt,
+      records: diffSnapshots(previous, { elements: gpElements.records, objects: objects.records }, generatedAt),
+      previous: { hourPath: previous.hourPath, generatedAt: previous.generatedAt },
+    };
+    const n = (kind: string) => changes.records.filter((c) => c.kind === kind).length;
+    console.log(`changes since ${previous.hourPath}: ${n('appeared')} appeared, ${n('disappeared')} disappeared, ${n('maneuver')} maneuvers`);
+    products.push({ key: 'changes', file: 'changes.json', count: changes.records.length, body: stringifyRecordsFile(changes) });
+  }
+  if (reentries) {
+    const report = reentryReport(gpElements.records, objects.records, reentries, generatedAt, previous?.reentries ?? null);
+    console.log(`reentries: ${report.records.length} objects below ${reentries.perigeeKm} km perigee decaying within ${reentries.horizonDays} days`);
+    products.push({ key: 'reentries', file: 'reentries.json', count: report.records.length, body: stringifyRecordsFile(report) });
+  }
+  if (conjunctions) {
+    const started = Date.now();
+    const report = conjunctionReport(gpElements.records, objects.records, conjunctions, generatedAt);
+    const secs = Math.round((Date.now() - started) / 1000);
+    const hours = Math.round((Date.parse(report.window.end) - Date.parse(generatedAt)) / 360000) / 10;
+    console.log(`conjunctions: ${report.records.length} under ${conjunctions.thresholdKm} km in ${hours} h (${secs} s)`);
+    if (hours < conjunctions.hours) console.warn(`conjunctions: ${conjunctions.budgetSec} s budget used up before ${conjunctions.hours} h`);
+    products.push({ key: 'conjunctions', file: 'conjunctions.json', count: report.records.length, body: stringifyRecordsFile(report) });
+  }
+  return products;
+}
+
+export function buildIndex(
+  results: SourceResult[],
+  derived: Array<Pick<DerivedProduct, 'key' | 'file' | 'count'>>,
+  base: { generatedAt: string; hourPath: string; cursors: Record<string, string> }
+): SnapshotIndex {
+  const pick = <T>(f: (r: SourceResult) => T) => Object.fromEntries(results.map((r) => [r.def.key, f(r)]));
+  const pickWritten = <T>(f: (r: SourceResult) => T) =>
+    Object.fromEntries(results.filter((r) => r.body !== null).map((r) => [r.def.key, f(r)]));
+  const pickDerived = <T>(f: (d: Pick<DerivedProduct, 'key' | 'file' | 'count'>) => T) =>
+    Object.fromEntries(derived.map((d) => [d.key, f(d)]));
+  return {
+    generatedAt: base.generatedAt,
+    timeZone: 'Asia/Tokyo',
+    hourPath: base.hourPath,
+    schemaVersion: SCHEMA_VERSION,
+    sources: pick((r) => r.def.url),
+    status: pick((r) => r.status),
+    counts: { ...pick((r) => r.count), ...pickDerived((d) => d.count) },
+    // only what this collection wrote; a failed source is listed in status but has no file
+    files: { ...pickWritten((r) => r.def.file), ...pickDerived((d) => d.file) },
+    cursors: base.cursors,
+  };
+}
+
+export type CollectOptions = {
+  // public/data in the repository
+  dataRoot: string;
+  sources: SourceDef[];
+  // collection time (generatedAt) and the hour directory it is filed under
+  now: Date;
+  hourPath: string;
+  transport: Transport;
+  // fetch, validate and derive, but write nothing
+  dryRun: boolean;
+  conjunctions: ConjunctionConfig | null;
+  reentries: ReentryConfig | null;
+  constellations: ConstellationConfig;
+};
+
+export type CollectResult = {
+  dir: string;
+  latestDir: string;
+  index: SnapshotIndex;
+  // files of the hour directory, written or (dry run) that would have been
+  files: string[];
+  // keys of required sources that failed
+  failedRequired: string[];
+};
+
+export async function collect(opts: CollectOptions): Promise<CollectResult> {
+  const { dataRoot, sources, now, hourPath, transport, dryRun } = opts;
+  const generatedAt = now.toISOString();
+  const dir = path.join(dataRoot, hourPath);
+  const latestDir = path.join(dataRoot, 'latest');
+  const prevIndex = await readPreviousIndex(latestDir);
+  const ctx: CollectContext = { now, cursors: { ...(prevIndex?.cursors ?? {}) } };
+
+  console.log(`Fetching ${sources.length} datasets...`);
+  const results = await Promise.all(sources.map((def) => collectSource(def, ctx, transport)));
+  const accepted = results.filter((r) => r.body !== null).map((r) => ({ file: r.def.file, body: r.body as string | Buffer }));
+
+  // Normalize into objects / gp_elements before anything is written, diff them against the
+  // previous collection, group constellations, predict re-entries and screen close approaches
+  const normalized = normalizeResults(results, generatedAt);
+  const derived = normalized
+    ? deriveProducts(normalized, generatedAt, {
+        conjunctions: opts.conjunctions,
+        reentries: opts.reentries,
+        constellations: opts.constellations,
+        previous: await loadPrevious(latestDir, prevIndex),
+      })
+    : [];
+  const outputs = [...accepted, ...derived];
+  const index = buildIndex(results, derived, { generatedAt, hourPath, cursors: ctx.cursors });
+  const failedRequired = results.filter((r) => r.def.required && r.status.status !== 'ok').map((r) => r.def.key);
+  const files = [...outputs.map((o) => o.file), 'index.json'];
+  if (dryRun) return { dir, latestDir, index, files, failedRequired };
+
+  // Persist accepted raw datasets, rejected ones under quarantine/, and derived products
+  await fs.mkdir(dir, { recursive: true });
+  for (const o of outputs) await fs.writeFile(path.join(dir, o.file), o.body, 'utf-8');
+  for (const r of results) {
+    if (r.rejected === null || !r.status.quarantine) continue;
+    await fs.mkdir(path.join(dir, 'quarantine'), { recursive: true });
+    await fs.writeFile(path.join(dir, r.status.quarantine), r.rejected, 'utf-8');
+  }
+  await writeJsonFile(path.join(dir, 'index.json'), index);
+  console.log(`wrote snapshot: ${dir}`);
+
+  // Update latest mirror; rejected sources keep their previous latest file
+  await fs.mkdir(latestDir, { recursive: true });
+  await writeJsonFile(path.join(latestDir, 'index.json'), index);
+  for (const o of outputs) await fs.writeFile(path.join(latestDir, o.file), o.body, 'utf-8');
+  console.log(`updated latest: ${latestDir}`);
+
+  // Hour list for the viewer's snapshot picker
+  await writeJsonFile(path.join(dataRoot, 'manifest.json'), await buildManifest(dataRoot, generatedAt));
+
+  // Per-object element-set history; only epochs newer than the last stored one are appended
+  if (normalized) {
+    const { appended, objects } = await updateHistory(dataRoot, normalized.gpElements.records, generatedAt);
+    console.log(`history: ${appended} new element sets (${objects} objects)`);
+  }
+  return { dir, latestDir, index, files, failedRequired };
+}
@@ -0,0 +1,120 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { buildManifest } from './manifest';
+import { stringifyRecordsFile } from './parse';
+import { readJsonIfExists, readSnapshotJson } from './snapshot';
+import { DayChain, collectGarbage, compactHour, readStoreManifest } from './store';
+import { ChangesReport, DayRollup, SCHEMA_VERSION, SnapshotIndex, SnapshotManifest } from '../../src/shared/schema';
+import { StoreManifest } from '../../src/shared/store';
+
+// Retention and compaction of the committed hour tree (npm run compact, scripts/compact.ts).
+
+export type CompactOptions = {
+  // newest hours left as plain files
+  keepRaw: number;
+  // days before rolling up to one hour per day
+  hourlyDays: number;
+};
+
+export type CompactResult = {
+  rolledUp: number;
+  compacted: number;
+  rawBytes: number;
+  storedBytes: number;
+  removedBlobs: number;
+};
+
+export const ROLLUP_FILE = 'rollup.json';
+
+const dayOf = (hourPath: string) => hourPath.slice(0, 10);
+
+// Non-first hours of days older than the cutoff; the hour latest/ points at is always kept
+export function rollupVictims(hours: SnapshotManifest['hours'], cutoff: number, keep: string | undefined) {
+  const seenDays = new Set<string>();
+  const out: string[] = [];
+  for (const h of hours) {
+    const day = dayOf(h.hourPath);
+    const first = !seenDays.has(day);
+    seenDays.add(day);
+    if (!first && Date.parse(h.generatedAt) < cutoff && h.hourPath !== keep) out.push(h.hourPath);
+  }
+  return out;
+}
+
+// Adds the hours about to be removed from one day to YYYY/MM/DD/rollup.json, keeping what an
+// earlier run rolled up there
+async function writeDayRollup(dataRoot: string, day: string, hourPaths: string[], generatedAt: string) {
+  const file = path.join(dataRoot, day, ROLLUP_FILE);
+  const rollup: DayRollup = (await readJsonIfExists<DayRollup>(file)) ?? {
+    schema: 'day_rollup',
+    version: SCHEMA_VERSION,
+    generatedAt,
+    day,
+    hours: [],
+    records: [],
+  };
+  const done = new Set(rollup.hours.map((h) => h.hourPath));
+  for (const hourPath of hourPaths) {
+    if (done.has(hourPath)) continue;
+    const dir = path.join(dataRoot, hourPath);
+    const index = await readJsonIfExists<SnapshotIndex>(path.join(dir, 'index.json'));
+    const changes = await readSnapshotJson<ChangesReport>(dir, 'changes.json');
+    rollup.hours.push({ hourPath, generatedAt: index?.generatedAt ?? '', counts: index?.counts ?? {} });
+    for (const c of changes?.records ?? []) rollup.records.push({ ...c, hourPath });
+  }
+  rollup.hours.sort((a, b) => a.hourPath.localeCompare(b.hourPath));
+  rollup.records.sort((a, b) => a.hourPath.localeCompare(b.hourPath));
+  rollup.generatedAt = generatedAt;
+  await fs.writeFile(file, stringifyRecordsFile(rollup), 'utf-8');
+}
+
+// 1. Hours older than hourlyDays are rolled up to one per day (the day's first hour); the
+//    changes.json records and counts of the hours removed go to YYYY/MM/DD/rollup.json first.
+// 2. Every hour except the newest keepRaw moves its files into data/store/ (content-addressed
+//    blobs; text files as line deltas against the previous hour of the same day) behind HH/store.json.
+// 3. Blobs no longer referenced are deleted and manifest.json is rewritten.
+// index.json stays in every hour directory and latest/ is never touched.
+export async function compact(dataRoot: string, opts: CompactOptions, now = new Date()): Promise<CompactResult> {
+  const latest = await readJsonIfExists<SnapshotIndex>(path.join(dataRoot, 'latest', 'index.json'));
+  let { hours } = await buildManifest(dataRoot, now.toISOString());
+
+  const cutoff = now.getTime() - opts.hourlyDays * 86400000;
+  const victims = rollupVictims(hours, cutoff, latest?.hourPath);
+  for (const day of new Set(victims.map(dayOf))) {
+    await writeDayRollup(dataRoot, day, victims.filter((v) => dayOf(v) === day), now.toISOString());
+  }
+  for (const hourPath of victims) await fs.rm(path.join(dataRoot, hourPath), { recursive: true, force: true });
+  hours = hours.filter((h) => !victims.includes(h.hourPath));
+
+  // Delta chains restart every day, so each day decodes without the days before it
+  const chain: DayChain = new Map();
+  let day = '';
+  const result: CompactResult = { rolledUp: victims.length, compacted: 0, rawBytes: 0, storedBytes: 0, removedBlobs: 0 };
+  const manifests: StoreManifest[] = [];
+  for (const [i, h] of hours.entries()) {
+    const dir = path.join(dataRoot, h.hourPath);
+    if (dayOf(h.hourPath) !== day) {
+      day = dayOf(h.hourPath);
+      chain.clear();
+    }
+    // files compacted by an earlier run continue the chain as they are
+    const existing = await readStoreManifest(dir);
+    for (const [name, entry] of Object.entries(existing?.files ?? {})) chain.set(name, { entry });
+    if (i < hours.length - opts.keepRaw) {
+      const r = await compactHour(dataRoot, dir, chain);
+      if (r.files) {
+        result.compacted++;
+        result.rawBytes += r.rawBytes;
+        result.storedBytes += r.storedBytes;
+      }
+    }
+    const m = await readStoreManifest(dir);
+    if (m) manifests.push(m);
+  }
+
+  result.removedBlobs = await collectGarbage(dataRoot, manifests);
+
+  const manifest = await buildManifest(dataRoot, now.toISOString());
+  await fs.writeFile(path.join(dataRoot, 'manifest.json'), JSON.stringify(manifest, null, 2), 'utf-8');
+  return result;
+}
@@ -0,0 +1,240 @@
+import { SatRec, propagate, twoline2satrec } from 'satellite.js';
+import { Conjunction, ConjunctionReport, GpElement, SCHEMA_VERSION, SatObject } from '../../src/shared/schema';
+import { TleLines, formatTle } from '../../src/shared/tle';
+
+// Close-approach screening over the whole catalog.
+// Every step propagates all objects, bins them into a grid whose cells are as large as the
+// distance two objects can close in half a step, and only pairs in neighbouring cells are
+// examined. Candidates whose straight-line closest approach falls inside the step's window
+// and under the threshold are refined with SGP4 to the actual TCA.
+
+export type ConjunctionConfig = {
+  hours: number;
+  thresholdKm: number;
+  stepSec: number;
+  // wall-clock seconds the screening may run; the window is cut short at the step reached
+  budgetSec: number;
+};
+
+// Off unless CONJUNCTION_HOURS is set: the full catalog over 24 h at 60 s steps is ~17M SGP4 calls
+export function conjunctionConfigFromEnv(env: NodeJS.ProcessEnv = process.env): ConjunctionConfig | null {
+  const hours = Number(env.CONJUNCTION_HOURS ?? 0);
+  if (!(hours > 0)) return null;
+  return {
+    hours,
+    thresholdKm: Number(env.CONJUNCTION_THRESHOLD_KM ?? 1) || 1,
+    stepSec: Number(env.CONJUNCTION_STEP_SEC ?? 60) || 60,
+    budgetSec: Number(env.CONJUNCTION_BUDGET_SEC ?? 600) || 600,
+  };
+}
+
+// Head-on LEO encounters close at up to ~15.5 km/s
+const MAX_CLOSING_KM_S = 16;
+// Docked vehicles and fresh launch stacks drift apart slower than this; they are not conjunctions
+const MIN_RELATIVE_KM_S = 0.01;
+// Element sets older than this propagate too poorly to screen
+const MAX_EPOCH_AGE_DAYS = 30;
+
+export type ScreenTarget = TleLines & { noradId: number };
+
+type Sat = { noradId: number; name: string; rec: SatRec };
+
+function buildSats(targets: ScreenTarget[], start: number): Sat[] {
+  const out: Sat[] = [];
+  for (const t of targets) {
+    let rec: SatRec;
+    try {
+      rec = twoline2satrec(t.l1, t.l2);
+    } catch {
+      continue;
+    }
+    const epochMs = (rec.jdsatepoch - 2440587.5) * 86400000;
+    if (rec.error || start - epochMs > MAX_EPOCH_AGE_DAYS * 86400000) continue;
+    out.push({ noradId: t.noradId, name: t.name ?? '', rec });
+  }
+  return out;
+}
+
+function stateAt(rec: SatRec, time: number) {
+  const pv = propagate(rec, new Date(time));
+  const p = pv?.position;
+  const v = pv?.velocity;
+  if (!p || typeof p !== 'object' || !v || typeof v !== 'object') return null;
+  return { p: [p.x, p.y, p.z], v: [v.x, v.y, v.z] };
+}
+
+const distanceAt = (a: SatRec, b: SatRec, t: number) => {
+  const sa = stateAt(a, t);
+  const sb = stateAt(b, t);
+  if (!sa || !sb) return Infinity;
+  return Math.hypot(sa.p[0] - sb.p[0], sa.p[1] - sb.p[1], sa.p[2] - sb.p[2]);
+};
+
+// Golden-section minimum of the SGP4 separation in [lo, hi], to 10 ms
+function refineTca(a: SatRec, b: SatRec, lo: number, hi: number) {
+  const g = (Math.sqrt(5) - 1) / 2;
+  let c = hi - g * (hi - lo);
+  let d = lo + g * (hi - lo);
+  let fc = distanceAt(a, b, c);
+  let fd = distanceAt(a, b, d);
+  while (hi - lo > 10) {
+    if (fc < fd) {
+      hi = d;
+      d = c;
+      fd = fc;
+      c = hi - g * (hi - lo);
+      fc = distanceAt(a, b, c);
+    } else {
+      lo = c;
+      c = d;
+      fc = fd;
+      d = lo + g * (hi - lo);
+      fd = distanceAt(a, b, d);
+    }
+  }
+  return (lo + hi) / 2;
+}
+
+// Grid cell key; +-1024 cells covers beyond GEO for any sensible cell size
+const cellKey = (ix: number, iy: number, iz: number) => (ix + 1024) * 4194304 + (iy + 1024) * 2048 + (iz + 1024);
+
+// 13 neighbours "after" a cell, so each unordered cell pair is visited once
+const HALF_NEIGHBOURS: Array<[number, number, number]> = [];
+for (let dx = -1; dx <= 1; dx++) {
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dz = -1; dz <= 1; dz++) {
+      if (dx > 0 || (dx === 0 && dy > 0) || (dx === 0 && dy === 0 && dz > 0)) HALF_NEIGHBOURS.push([dx, dy, dz]);
+    }
+  }
+}
+
+// Close approaches under config.thresholdKm in [start, start + config.hours), ordered by TCA.
+// `end` is where screening stopped: the window's end, or earlier once config.budgetSec ran out.
+export function screenConjunctions(
+  targets: ScreenTarget[],
+  config: ConjunctionConfig,
+  start: number,
+  clock: () => number = Date.now
+): { records: Conjunction[]; end: number } {
+  const deadline = clock() + config.budgetSec * 1000;
+  const sats = buildSats(targets, start);
+  const n = sats.length;
+  const end = start + config.hours * 3600000;
+  const stepMs = config.stepSec * 1000;
+  const half = stepMs / 2;
+  const cell = config.thresholdKm + MAX_CLOSING_KM_S * (config.stepSec / 2);
+  const pos = new Float64Array(n * 3);
+  const vel = new Float64Array(n * 3);
+  const hits: Conjunction[] = [];
+
+  const examine = (i: number, j: number, t: number) => {
+    const dr = [pos[j * 3] - pos[i * 3], pos[j * 3 + 1] - pos[i * 3 + 1], pos[j * 3 + 2] - pos[i * 3 + 2]];
+    const d2 = dr[0] * dr[0] + dr[1] * dr[1] + dr[2] * dr[2];
+    if (d2 > cell * cell) return;
+    const dv = [vel[j * 3] - vel[i * 3], vel[j * 3 + 1] - vel[i * 3 + 1], vel[j * 3 + 2] - vel[i * 3 + 2]];
+    const v2 = dv[0] * dv[0] + dv[1] * dv[1] + dv[2] * dv[2];
+    if (v2 < MIN_RELATIVE_KM_S * MIN_RELATIVE_KM_S) return;
+    // straight-line closest approach, seconds from t; each step owns [t - half, t + half)
+    const tau = -(dr[0] * dv[0] + dr[1] * dv[1] + dr[2] * dv[2]) / v2;
+    const tauMs = tau * 1000;
+    if (tauMs < -half || tauMs >= half || t + tauMs < start || t + tauMs > end) return;
+    const linMiss = Math.hypot(dr[0] + dv[0] * tau, dr[1] + dv[1] * tau, dr[2] + dv[2] * tau);
+    // the straight line is accurate to metres over a step; keep a margin anyway
+    if (linMiss > config.thresholdKm * 2 + 1) return;
+    const a = sats[i];
+    const b = sats[j];
+    const tca = refineTca(a.rec, b.rec, t + tauMs - half / 2, t + tauMs + half / 2);
+    const sa = stateAt(a.rec, tca);
+    const sb = stateAt(b.rec, tca);
+    if (!sa || !sb) return;
+    const miss = Math.hypot(sa.p[0] - sb.p[0], sa.p[1] - sb.p[1], sa.p[2] - sb.p[2]);
+    if (miss > config.thresholdKm) return;
+    const [id1, id2] = a.noradId < b.noradId ? [a, b] : [b, a];
+    hits.push({
+      noradId1: id1.noradId,
+      noradId2: id2.noradId,
+      name1: id1.name,
+      name2: id2.name,
+      tca: new Date(tca).toISOString(),
+      missKm: Math.round(miss * 1000) / 1000,
+      relativeVelocityKmS: Math.round(Math.hypot(sa.v[0] - sb.v[0], sa.v[1] - sb.v[1], sa.v[2] - sb.v[2]) * 1000) / 1000,
+    });
+  };
+
+  let screened = end;
+  for (let t = start; t <= end; t += stepMs) {
+    if (t > start && clock() > deadline) {
+      // each step owns [t - half, t + half)
+      screened = t - half;
+      break;
+    }
+    const cells = new Map<number, number[]>();
+    for (let i = 0; i < n; i++) {
+      const s = stateAt(sats[i].rec, t);
+      if (!s) continue;
+      pos.set(s.p, i * 3);
+      vel.set(s.v, i * 3);
+      const key = cellKey(Math.floor(s.p[0] / cell), Math.floor(s.p[1] / cell), Math.floor(s.p[2] / cell));
+      const list = cells.get(key);
+      if (list) list.push(i);
+      else cells.set(key, [i]);
+    }
+    for (const [key, list] of cells) {
+      for (let a = 0; a < list.length; a++) {
+        for (let b = a + 1; b < list.length; b++) examine(list[a], list[b], t);
+      }
+      const ix = Math.floor(key / 4194304);
+      const iy = Math.floor((key % 4194304) / 2048);
+      const iz = key % 2048;
+      for (const [dx, dy, dz] of HALF_NEIGHBOURS) {
+        const other = cells.get((ix + dx) * 4194304 + (iy + dy) * 2048 + (iz + dz));
+        if (!other) continue;
+        for (const i of list) for (const j of other) examine(i, j, t);
+      }
+    }
+  }
+
+  const records = mergeEncounters(hits, stepMs * 2).sort((a, b) => a.tca.localeCompare(b.tca) || a.noradId1 - b.noradId1);
+  return { records, end: screened };
+}
+
+// Neighbouring steps can both claim one encounter; keep the closest detection of each
+function mergeEncounters(hits: Conjunction[], gapMs: number): Conjunction[] {
+  hits.sort((a, b) => a.noradId1 - b.noradId1 || a.noradId2 - b.noradId2 || a.tca.localeCompare(b.tca));
+  const out: Conjunction[] = [];
+  for (const h of hits) {
+    const last = out[out.length - 1];
+    const same =
+      last &&
+      last.noradId1 === h.noradId1 &&
+      last.noradId2 === h.noradId2 &&
+      Date.parse(h.tca) - Date.parse(last.tca) < gapMs;
+    if (!same) out.push(h);
+    else if (h.missKm < last.missKm) out[out.length - 1] = h;
+  }
+  return out;
+}
+
+// conjunctions.json for one snapshot, screened from its normalized element sets
+export function conjunctionReport(
+  elements: GpElement[],
+  objects: SatObject[],
+  config: ConjunctionConfig,
+  generatedAt: string
+): ConjunctionReport {
+  const names = new Map(objects.map((o) => [o.noradId, o.name]));
+  const targets = elements.map((el) => ({
+    noradId: el.noradId,
+    name: names.get(el.noradId) ?? '',
+    ...formatTle({ ...el, epochMs: Date.parse(el.epoch) }),
+  }));
+  const { records, end } = screenConjunctions(targets, config, Date.parse(generatedAt));
+  return {
+    schema: 'conjunctions',
+    version: SCHEMA_VERSION,
+    generatedAt,
+    records,
+    window: { start: generatedAt, end: new Date(end).toISOString() },
+    thresholdKm: config.thresholdKm,
+  };
+}
@@ -0,0 +1,178 @@
+import {
+  ConstellationPlane,
+  ConstellationReport,
+  ConstellationShell,
+  ConstellationStats,
+  GpElement,
+  SCHEMA_VERSION,
+  SatObject,
+} from '../../src/shared/schema';
+import { Constellation, classifyConstellation } from '../../src/shared/constellations';
+
+// Per-constellation statistics for each snapshot: members by the shared rules, altitude and
+// inclination shells, orbital planes found by clustering RAAN within each shell, and element
+// sets that have not been refreshed for CONSTELLATION_STALE_DAYS.
+
+export type ConstellationConfig = {
+  // element sets with an epoch older than this count as stale
+  staleDays: number;
+};
+
+export function constellationConfigFromEnv(env: NodeJS.ProcessEnv = process.env): ConstellationConfig {
+  const staleDays = Number(env.CONSTELLATION_STALE_DAYS ?? 3);
+  return { staleDays: staleDays > 0 ? staleDays : 3 };
+}
+
+const EARTH_RADIUS_KM = 6378.137;
+const DAY_MS = 86400000;
+// Altitude bins: narrow enough to separate Starlink's 10 km spaced shells, wide enough to keep a
+// GNSS constellation in one
+const LEO_SHELL_BIN_KM = 10;
+const HIGH_SHELL_BIN_KM = 100;
+// RAAN gaps wider than this separate planes; members of one plane spread by a degree or two
+const PLANE_GAP_DEG = 3;
+const PLANE_MIN_SIZE = 2;
+const INCLINATION_GAP_DEG = 2;
+// RAAN is meaningless for (near-)equatorial orbits
+const MIN_PLANE_INCLINATION_DEG = 1;
+
+const shellBin = (altKm: number) => {
+  const width = altKm < 2000 ? LEO_SHELL_BIN_KM : HIGH_SHELL_BIN_KM;
+  return Math.round(altKm / width) * width;
+};
+
+function circularMeanDeg(values: number[]) {
+  let x = 0;
+  let y = 0;
+  for (const v of values) {
+    x += Math.cos((v * Math.PI) / 180);
+    y += Math.sin((v * Math.PI) / 180);
+  }
+  const mean = (Math.atan2(y, x) * 180) / Math.PI;
+  return mean < 0 ? mean + 360 : mean;
+}
+
+// Runs of RAAN separated by gaps wider than PLANE_GAP_DEG, walking the circle from its widest
+// gap. Members spread evenly around the circle (no gap wide enough) form no planes.
+export function raanPlanes(raans: number[]): ConstellationPlane[] {
+  const n = raans.length;
+  if (n < PLANE_MIN_SIZE) return [];
+  const sorted = [...raans].sort((a, b) => a - b);
+  const gapAfter = (i: number) => (i === n - 1 ? sorted[0] + 360 - sorted[n - 1] : sorted[i + 1] - sorted[i]);
+  let widest = 0;
+  for (let i = 1; i < n; i++) if (gapAfter(i) > gapAfter(widest)) widest = i;
+  if (gapAfter(widest) <= PLANE_GAP_DEG) return [];
+
+  const planes: ConstellationPlane[] = [];
+  let run: number[] = [];
+  const flush = () => {
+    if (run.length >= PLANE_MIN_SIZE) planes.push({ raanDeg: Math.round(circularMeanDeg(run) * 10) / 10, count: run.length });
+    run = [];
+  };
+  for (let k = 1; k <= n; k++) {
+    const i = (widest + k) % n;
+    run.push(sorted[i]);
+    if (gapAfter(i) > PLANE_GAP_DEG) flush();
+  }
+  return planes.sort((a, b) => a.raanDeg - b.raanDeg);
+}
+
+type Member = { el: GpElement; altKm: number };
+
+// Members of one altitude bin split where their inclinations are more than INCLINATION_GAP_DEG
+// apart, so a GNSS plane set spread over a few degrees stays one shell
+function inclinationGroups(members: Member[]): Member[][] {
+  const sorted = [...members].sort((a, b) => a.el.inclinationDeg - b.el.inclinationDeg);
+  const groups: Member[][] = [[sorted[0]]];
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].el.inclinationDeg - sorted[i - 1].el.inclinationDeg > INCLINATION_GAP_DEG) groups.push([]);
+    groups[groups.length - 1].push(sorted[i]);
+  }
+  return groups;
+}
+
+function shells(members: Member[]): ConstellationShell[] {
+  const bins = new Map<number, Member[]>();
+  for (const m of members) {
+    const altitudeKm = shellBin(m.altKm);
+    const bin = bins.get(altitudeKm) ?? [];
+    bin.push(m);
+    bins.set(altitudeKm, bin);
+  }
+  const out: ConstellationShell[] = [];
+  for (const [altitudeKm, bin] of bins) {
+    for (const group of inclinationGroups(bin)) {
+      const inclinationDeg = Math.round(group[Math.floor(group.length / 2)].el.inclinationDeg);
+      out.push({
+        altitudeKm,
+        inclinationDeg,
+        count: group.length,
+        planes: inclinationDeg >= MIN_PLANE_INCLINATION_DEG ? raanPlanes(group.map((m) => m.el.raanDeg)) : [],
+      });
+    }
+  }
+  return out.sort((a, b) => b.count - a.count || a.altitudeKm - b.altitudeKm);
+}
+
+function stats(constellation: Constellation, members: Member[], config: ConstellationConfig, now: number): ConstellationStats {
+  const ages = members
+    .map(({ el }) => ({ noradId: el.noradId, epoch: el.epoch, days: (now - Date.parse(el.epoch)) / DAY_MS }))
+    .sort((a, b) => b.days - a.days);
+  const stale = ages.filter((a) => a.days > config.staleDays);
+  const byShell = shells(members);
+  return {
+    id: constellation.id,
+    name: constellation.name,
+    operator: constellation.operator,
+    kind: constellation.kind,
+    count: members.length,
+    planeCount: byShell.reduce((sum, s) => sum + s.planes.length, 0),
+    shells: byShell,
+    staleCount: stale.length,
+    staleIds: stale.map((a) => a.noradId),
+    medianEpochAgeDays: Math.round(ages[Math.floor(ages.length / 2)].days * 100) / 100,
+    oldestEpoch: ages[0].epoch,
+  };
+}
+
+export function constellationReport(
+  elements: GpElement[],
+  objects: SatObject[],
+  config: ConstellationConfig,
+  generatedAt: string
+): ConstellationReport {
+  const byId = new Map(objects.map((o) => [o.noradId, o]));
+  const members = new Map<Constellation, Member[]>();
+  let unclassified = 0;
+  for (const el of elements) {
+    const object = byId.get(el.noradId);
+    const altKm = el.semiMajorAxisKm - EARTH_RADIUS_KM;
+    const constellation = classifyConstellation({
+      name: object?.name ?? '',
+      cosparId: object?.cosparId,
+      owner: object?.owner,
+      objectType: object?.objectType,
+      altKm,
+      inclinationDeg: el.inclinationDeg,
+    });
+    if (!constellation) {
+      unclassified++;
+      continue;
+    }
+    const list = members.get(constellation) ?? [];
+    list.push({ el, altKm });
+    members.set(constellation, list);
+  }
+  const now = Date.parse(generatedAt);
+  const records = [...members.entries()]
+    .map(([constellation, list]) => stats(constellation, list, config, now))
+    .sort((a, b) => b.count - a.count);
+  return {
+    schema: 'constellations',
+    version: SCHEMA_VERSION,
+    generatedAt,
+    records,
+    staleDays: config.staleDays,
+    unclassified,
+  };
+}
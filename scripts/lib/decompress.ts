@@ -0,0 +1,107 @@
+import zlib from 'zlib';
+
+// IGS archives ship products as gzip (.gz) or, for older files, Unix compress (.Z).
+// Both are detected by magic bytes; anything else is returned as-is.
+export function decompressAuto(buf: Buffer): Buffer {
+  if (buf[0] === 0x1f && buf[1] === 0x8b) return zlib.gunzipSync(buf);
+  if (buf[0] === 0x1f && buf[1] === 0x9d) return uncompressLzw(buf);
+  return buf;
+}
+
+// Decoder for the LZW stream written by compress(1), following ncompress:
+// codes are LSB-first, 9..maxbits wide, and every width change or CLEAR
+// skips to the end of the current group of `nBits` bytes.
+export function uncompressLzw(buf: Buffer): Buffer {
+  if (buf.length < 3 || buf[0] !== 0x1f || buf[1] !== 0x9d) throw new Error('not a compress(1) stream');
+  const maxbits = buf[2] & 0x1f;
+  const blockMode = (buf[2] & 0x80) !== 0;
+  if (maxbits < 9 || maxbits > 16) throw new Error(`unsupported compress maxbits ${maxbits}`);
+  const CLEAR = 256;
+  const maxmaxcode = 1 << maxbits;
+  const prefix = new Uint32Array(maxmaxcode);
+  const suffix = new Uint8Array(maxmaxcode);
+  for (let i = 0; i < 256; i++) suffix[i] = i;
+  const stack = new Uint8Array(maxmaxcode + 1);
+
+  const data = buf.subarray(3);
+  const totalBits = data.length * 8;
+  const out: Buffer[] = [];
+  let chunk = Buffer.alloc(1 << 16);
+  let outPos = 0;
+  const emit = (b: number) => {
+    if (outPos === chunk.length) {
+      out.push(chunk);
+      chunk = Buffer.alloc(chunk.length);
+      outPos = 0;
+    }
+    chunk[outPos++] = b;
+  };
+
+  let nBits = 9;
+  let maxcode = (1 << nBits) - 1;
+  let freeEnt = blockMode ? CLEAR + 1 : 256;
+  let bitPos = 0;
+  let groupStart = 0;
+  let oldcode = -1;
+  let finchar = 0;
+  const align = () => {
+    const g = nBits * 8;
+    bitPos = groupStart + Math.ceil((bitPos - groupStart) / g) * g;
+    groupStart = bitPos;
+  };
+  const read = () => {
+    let code = 0;
+    for (let i = 0; i < nBits; i++) {
+      const p = bitPos + i;
+      if (data[p >> 3] & (1 << (p & 7))) code |= 1 << i;
+    }
+    bitPos += nBits;
+    return code;
+  };
+
+  for (;;) {
+    if (freeEnt > maxcode) {
+      align();
+      nBits++;
+      maxcode = nBits === maxbits ? maxmaxcode : (1 << nBits) - 1;
+    }
+    if (bitPos + nBits > totalBits) break;
+    let code = read();
+    if (oldcode === -1) {
+      if (code >= 256) throw new Error('corrupt compress(1) stream');
+      finchar = oldcode = code;
+      emit(code);
+      continue;
+    }
+    if (code === CLEAR && blockMode) {
+      freeEnt = CLEAR;
+      align();
+      nBits = 9;
+      maxcode = (1 << nBits) - 1;
+      continue;
+    }
+    const incode = code;
+    let sp = 0;
+    if (code >= freeEnt) {
+      // KwKwK: the code being defined right now
+      if (code > freeEnt) throw new Error('corrupt compress(1) stream');
+      stack[sp++] = finchar;
+      code = oldcode;
+    }
+    while (code >= 256) {
+      stack[sp++] = suffix[code];
+      code = prefix[code];
+    }
+    finchar = suffix[code];
+    stack[sp++] = finchar;
+    while (sp > 0) emit(stack[--sp]);
+    if (freeEnt < maxmaxcode) {
+      prefix[freeEnt] = oldcode;
+      suffix[freeEnt] = finchar;
+      freeEnt++;
+    }
+    oldcode = incode;
+  }
+  out.push(chunk.subarray(0, outPos));
+  return Buffer.concat(out);
+}
@@ -0,0 +1,100 @@
+import { GpElement, SatObject, SnapshotChange } from '../../src/shared/schema';
+
+// Differences between two consecutive snapshots: objects that appeared, objects that
+// disappeared, and element sets whose change does not fit atmospheric drag.
+
+export type SnapshotElements = { elements: GpElement[]; objects: SatObject[] };
+
+// Jumps between two element sets beyond these are reported as maneuvers. Mean-element noise
+// of successive fits stays well below them; drag is accounted for separately.
+export const MANEUVER_THRESHOLDS = {
+  semiMajorAxisKm: 2,
+  // high orbits fit a with proportionally larger scatter
+  semiMajorAxisRelative: 1e-4,
+  inclinationDeg: 0.02,
+  eccentricity: 0.0005,
+};
+
+// New objects launched this recently are flagged as launches rather than catalog additions
+const RECENT_LAUNCH_DAYS = 30;
+
+// Semi-major axis change explained by drag: a ~ n^(-2/3), the TLE carries n-dot / 2 in rev/day^2
+function dragDeltaKm(prev: GpElement, dtDays: number) {
+  const dn = 2 * prev.meanMotionDot * dtDays;
+  return -(2 / 3) * prev.semiMajorAxisKm * (dn / prev.meanMotionRevPerDay);
+}
+
+function maneuverReasons(prev: GpElement, cur: GpElement) {
+  const dtDays = (Date.parse(cur.epoch) - Date.parse(prev.epoch)) / 86400000;
+  const drag = dragDeltaKm(prev, dtDays);
+  const da = cur.semiMajorAxisKm - prev.semiMajorAxisKm;
+  const reasons: SnapshotChange['reasons'] = [];
+  // decaying objects have a poorly known n-dot; allow half of the predicted drag as slack
+  const aThreshold = Math.max(MANEUVER_THRESHOLDS.semiMajorAxisKm, MANEUVER_THRESHOLDS.semiMajorAxisRelative * prev.semiMajorAxisKm);
+  if (Math.abs(da - drag) > aThreshold + Math.abs(drag) / 2) reasons.push('semi_major_axis');
+  if (Math.abs(cur.inclinationDeg - prev.inclinationDeg) > MANEUVER_THRESHOLDS.inclinationDeg) reasons.push('inclination');
+  if (Math.abs(cur.eccentricity - prev.eccentricity) > MANEUVER_THRESHOLDS.eccentricity) reasons.push('eccentricity');
+  return reasons;
+}
+
+const round = (v: number, digits: number) => Math.round(v * 10 ** digits) / 10 ** digits;
+
+export function diffSnapshots(prev: SnapshotElements, cur: SnapshotElements, generatedAt: string): SnapshotChange[] {
+  const prevObjects = new Map(prev.objects.map((o) => [o.noradId, o]));
+  const curObjects = new Map(cur.objects.map((o) => [o.noradId, o]));
+  const prevElements = new Map(prev.elements.map((e) => [e.noradId, e]));
+  const curElements = new Map(cur.elements.map((e) => [e.noradId, e]));
+  const now = Date.parse(generatedAt);
+
+  const change = (kind: SnapshotChange['kind'], noradId: number, object: SatObject | undefined): SnapshotChange => ({
+    kind,
+    noradId,
+    name: object?.name ?? '',
+    cosparId: object?.cosparId ?? null,
+    objectType: object?.objectType ?? null,
+    launchDate: object?.launchDate ?? null,
+    decayDate: object?.decayDate ?? null,
+    previousEpoch: null,
+    epoch: null,
+    deltaSemiMajorAxisKm: null,
+    deltaInclinationDeg: null,
+    deltaEccentricity: null,
+    reasons: [],
+  });
+
+  const out: SnapshotChange[] = [];
+  for (const [noradId, el] of curElements) {
+    const before = prevElements.get(noradId);
+    const object = curObjects.get(noradId) ?? prevObjects.get(noradId);
+    if (!before) {
+      const c = change('appeared', noradId, object);
+      const launched = c.launchDate ? Date.parse(c.launchDate) : NaN;
+      if (now - launched <= RECENT_LAUNCH_DAYS * 86400000) c.reasons.push('recent_launch');
+      out.push({ ...c, epoch: el.epoch });
+      continue;
+    }
+    // only a newer element set can show a maneuver
+    if (el.epoch <= before.epoch) continue;
+    const reasons = maneuverReasons(before, el);
+    if (!reasons.length) continue;
+    out.push({
+      ...change('maneuver', noradId, object),
+      previousEpoch: before.epoch,
+      epoch: el.epoch,
+      deltaSemiMajorAxisKm: round(el.semiMajorAxisKm - before.semiMajorAxisKm, 3),
+      deltaInclinationDeg: round(el.inclinationDeg - before.inclinationDeg, 4),
+      deltaEccentricity: round(el.eccentricity - before.eccentricity, 7),
+      reasons,
+    });
+  }
+  for (const [noradId, el] of prevElements) {
+    if (curElements.has(noradId)) continue;
+    // SATCAT's decay date, when either snapshot has one, tells decay from reclassification
+    const object = curObjects.get(noradId) ?? prevObjects.get(noradId);
+    const c = change('disappeared', noradId, object);
+    if (c.decayDate) c.reasons.push('decayed');
+    out.push({ ...c, previousEpoch: el.epoch });
+  }
+  const order = { appeared: 0, maneuver: 1, disappeared: 2 };
+  return out.sort((a, b) => order[a.kind] - order[b.kind] || a.noradId - b.noradId);
+}
@@ -0,0 +1,70 @@
+export const USER_AGENT = 'crisis-watcher-satellite/0.1 (+https://github.com/yuiseki/crisis-watcher-satellite)';
+
+export const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+export async function fetchTextWithRetry(url: string, retries = 2, backoffMs = 1000, accept = '*/*'): Promise<string | null> {
+  for (let i = 0; i <= retries; i++) {
+    try {
+      const res = await fetch(url, {
+        headers: {
+          'User-Agent': USER_AGENT,
+          'Accept': accept
+        }
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      return await res.text();
+    } catch (e) {
+      if (i === retries) {
+        console.warn(`fetch error (${url}):`, (e as Error).message);
+        return null;
+      }
+      await sleep(backoffMs * Math.pow(2, i));
+    }
+  }
+  return null;
+}
+
+export async function fetchBufferWithRetry(
+  url: string,
+  retries = 2,
+  backoffMs = 1000,
+  headers: Record<string, string> = {}
+): Promise<Buffer | null> {
+  for (let i = 0; i <= retries; i++) {
+    try {
+      const res = await fetch(url, { headers: { 'User-Agent': USER_AGENT, ...headers } });
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      return Buffer.from(await res.arrayBuffer());
+    } catch (e) {
+      if (i === retries) {
+        console.warn(`fetch error (${url}):`, (e as Error).message);
+        return null;
+      }
+      await sleep(backoffMs * Math.pow(2, i));
+    }
+  }
+  return null;
+}
+
+// POST a JSON body (webhooks); true once the receiver accepts it
+export async function postJsonWithRetry(url: string, body: unknown, retries = 2, backoffMs = 1000): Promise<boolean> {
+  for (let i = 0; i <= retries; i++) {
+    try {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'User-Agent': USER_AGENT, 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      return true;
+    } catch (e) {
+      if (i === retries) {
+        console.warn(`post error (${url}):`, (e as Error).message);
+        return false;
+      }
+      await sleep(backoffMs * Math.pow(2, i));
+    }
+  }
+  return false;
+}
@@ -0,0 +1,59 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { GpElement, HistoryElement, HistoryEntry, NormalizedFile, SCHEMA_VERSION } from '../../src/shared/schema';
+import { readJsonIfExists } from './snapshot';
+import { stringifyRecordsFile } from './parse';
+
+// Per-object element-set history under public/data/history/:
+//   <noradId>.jsonl  one element set per line, append-only, strictly increasing epochs
+//   index.json       count and epoch range per object, so an update never reads the series
+
+export const HISTORY_DIR = 'history';
+
+export async function readHistoryIndex(historyDir: string): Promise<Map<number, HistoryEntry>> {
+  const file = await readJsonIfExists<NormalizedFile<HistoryEntry>>(path.join(historyDir, 'index.json'));
+  return new Map((file?.records ?? []).map((e) => [e.noradId, e]));
+}
+
+// Appends the element sets newer than each object's last stored epoch; returns how many
+export async function appendHistory(
+  historyDir: string,
+  index: Map<number, HistoryEntry>,
+  elements: GpElement[]
+): Promise<number> {
+  await fs.mkdir(historyDir, { recursive: true });
+  let appended = 0;
+  for (const { noradId, ...el } of elements) {
+    const entry = index.get(noradId);
+    // equal epochs are the same element set re-published; older ones would break the order
+    if (entry && el.epoch <= entry.lastEpoch) continue;
+    const line: HistoryElement = el;
+    await fs.appendFile(path.join(historyDir, `${noradId}.jsonl`), `${JSON.stringify(line)}\n`, 'utf-8');
+    index.set(noradId, {
+      noradId,
+      count: (entry?.count ?? 0) + 1,
+      firstEpoch: entry?.firstEpoch ?? el.epoch,
+      lastEpoch: el.epoch,
+    });
+    appended++;
+  }
+  return appended;
+}
+
+export async function writeHistoryIndex(historyDir: string, index: Map<number, HistoryEntry>, generatedAt: string) {
+  const file: NormalizedFile<HistoryEntry> = {
+    schema: 'history_index',
+    version: SCHEMA_VERSION,
+    generatedAt,
+    records: [...index.values()].sort((a, b) => a.noradId - b.noradId),
+  };
+  await fs.writeFile(path.join(historyDir, 'index.json'), stringifyRecordsFile(file), 'utf-8');
+}
+
+export async function updateHistory(dataRoot: string, elements: GpElement[], generatedAt: string) {
+  const historyDir = path.join(dataRoot, HISTORY_DIR);
+  const index = await readHistoryIndex(historyDir);
+  const appended = await appendHistory(historyDir, index, elements);
+  await writeHistoryIndex(historyDir, index, generatedAt);
+  return { appended, objects: index.size };
+}
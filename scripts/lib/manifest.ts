@@ -0,0 +1,38 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { SnapshotManifest } from '../../src/shared/schema';
+import { listSnapshotFiles } from './store';
+
+const isDigits = (n: number) => (name: string) => name.length === n && /^\d+$/.test(name);
+
+async function listDirs(dir: string, accept: (name: string) => boolean) {
+  try {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    return entries.filter((e) => e.isDirectory() && accept(e.name)).map((e) => e.name).sort();
+  } catch {
+    return [];
+  }
+}
+
+// Walk YYYY/MM/DD/HH under the data root; every hour with an index.json is listed
+export async function buildManifest(dataRoot: string, generatedAt: string): Promise<SnapshotManifest> {
+  const hours: SnapshotManifest['hours'] = [];
+  for (const y of await listDirs(dataRoot, isDigits(4))) {
+    for (const m of await listDirs(path.join(dataRoot, y), isDigits(2))) {
+      for (const d of await listDirs(path.join(dataRoot, y, m), isDigits(2))) {
+        for (const h of await listDirs(path.join(dataRoot, y, m, d), isDigits(2))) {
+          const hourPath = `${y}/${m}/${d}/${h}`;
+          try {
+            const index = JSON.parse(await fs.readFile(path.join(dataRoot, hourPath, 'index.json'), 'utf-8'));
+            // index.json names failed sources too; list what is actually on disk or in the store
+            const files = await listSnapshotFiles(path.join(dataRoot, hourPath));
+            hours.push({ hourPath, generatedAt: index.generatedAt, files });
+          } catch {
+            // hour directory without a readable index.json: not a snapshot
+          }
+        }
+      }
+    }
+  }
+  return { generatedAt, timeZone: 'Asia/Tokyo', hours };
+}
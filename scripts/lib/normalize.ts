@@ -0,0 +1,285 @@
+import { pickCategory, categoryCode } from '../../src/shared/categories';
+import { classifyConstellation } from '../../src/shared/constellations';
+import { ColumnarRow, encodeColumnar } from '../../src/shared/columnar';
+import { GpElement, NormalizedFile, ObjectType, SCHEMA_VERSION, SatObject, Sp3Ephemeris } from '../../src/shared/schema';
+import { tleCosparId, tleNoradId } from '../../src/shared/tle';
+import { OmmRecord, TleRecord } from './parse';
+
+// Turns the raw per-source records of one snapshot into objects / gp_elements.
+
+const MU_KM3_S2 = 398600.4418;
+const EARTH_RADIUS_KM = 6378.137;
+
+type CatalogInput =
+  | { source: string; schema: 'omm'; records: OmmRecord[] }
+  | { source: string; schema: 'tle'; records: TleRecord[] }
+  | { source: string; schema: 'satcat'; records: Array<Record<string, string>> };
+
+// Precise orbits add no catalog records; the viewer links them to objects by position
+export type NormalizeInput = CatalogInput | { source: string; schema: 'sp3'; records: Sp3Ephemeris[] };
+
+const str = (v: unknown) => {
+  const s = v === undefined || v === null ? '' : String(v).trim();
+  return s === '' ? null : s;
+};
+
+const numOr = (v: unknown, fallback = 0) => {
+  const n = Number(v);
+  return v !== '' && v !== null && v !== undefined && Number.isFinite(n) ? n : fallback;
+};
+
+const numOrNull = (v: unknown) => {
+  const n = numOr(v, NaN);
+  return Number.isNaN(n) ? null : n;
+};
+
+// SATCAT abbreviations and Space-Track long names -> one vocabulary
+export function normalizeObjectType(raw: unknown): ObjectType {
+  const t = (str(raw) ?? '').toUpperCase();
+  if (t === 'PAY' || t.startsWith('PAYLOAD')) return 'PAYLOAD';
+  if (t === 'R/B' || t.startsWith('ROCKET')) return 'ROCKET BODY';
+  if (t === 'DEB' || t.startsWith('DEBRIS')) return 'DEBRIS';
+  return 'UNKNOWN';
+}
+
+// Derived values are rounded to metres / milliminutes; more digits only bloat the files
+const round = (v: number, digits: number) => Math.round(v * 10 ** digits) / 10 ** digits;
+
+export function derivedOrbit(meanMotionRevPerDay: number, eccentricity: number) {
+  const n = (meanMotionRevPerDay * 2 * Math.PI) / 86400;
+  const a = Math.cbrt(MU_KM3_S2 / (n * n));
+  return {
+    semiMajorAxisKm: round(a, 3),
+    periodMin: round(1440 / meanMotionRevPerDay, 3),
+    apogeeKm: round(a * (1 + eccentricity) - EARTH_RADIUS_KM, 3),
+    perigeeKm: round(a * (1 - eccentricity) - EARTH_RADIUS_KM, 3),
+  };
+}
+
+// OMM epochs carry no zone designator and are UTC
+const ommEpochIso = (epoch: unknown) => {
+  const s = String(epoch);
+  return new Date(/[zZ]|[+-]\d\d:?\d\d$/.test(s) ? s : `${s}Z`).toISOString();
+};
+
+export function gpFromOmm(rec: OmmRecord, source: string): GpElement {
+  const mm = numOr(rec.MEAN_MOTION);
+  const ecc = numOr(rec.ECCENTRICITY);
+  return {
+    noradId: numOr(rec.NORAD_CAT_ID),
+    epoch: ommEpochIso(rec.EPOCH),
+    classification: str(rec.CLASSIFICATION_TYPE) ?? 'U',
+    meanMotionRevPerDay: mm,
+    eccentricity: ecc,
+    inclinationDeg: numOr(rec.INCLINATION),
+    raanDeg: numOr(rec.RA_OF_ASC_NODE),
+    argPerigeeDeg: numOr(rec.ARG_OF_PERICENTER),
+    meanAnomalyDeg: numOr(rec.MEAN_ANOMALY),
+    bstar: numOr(rec.BSTAR),
+    meanMotionDot: numOr(rec.MEAN_MOTION_DOT),
+    meanMotionDdot: numOr(rec.MEAN_MOTION_DDOT),
+    elementSetNo: numOr(rec.ELEMENT_SET_NO),
+    revAtEpoch: numOr(rec.REV_AT_EPOCH),
+    ...derivedOrbit(mm, ecc),
+    from: 'omm',
+    source,
+  };
+}
+
+// TLE "assumed decimal point" exponent fields, e.g. " 10970-2" -> 0.10970e-2
+function tleExp(field: string) {
+  const s = field.trim();
+  if (!s) return 0;
+  const m = /^([+-]?)(\d+)([+-]\d)$/.exec(s.replace(/\s+/g, ''));
+  if (!m) return numOr(s);
+  return Number(`${m[1]}0.${m[2]}e${m[3]}`);
+}
+
+export function tleEpochIso(field: string) {
+  const yy = Number(field.slice(0, 2));
+  const doy = Number(field.slice(2));
+  const year = yy < 57 ? 2000 + yy : 1900 + yy;
+  return new Date(Date.UTC(year, 0, 1) + (doy - 1) * 86400000).toISOString();
+}
+
+export function gpFromTle(tle: TleRecord, source: string): GpElement {
+  const { l1, l2 } = tle;
+  const mm = numOr(l2.slice(52, 63));
+  const ecc = numOr(`0.${l2.slice(26, 33).trim()}`);
+  return {
+    noradId: tleNoradId(l1),
+    epoch: tleEpochIso(l1.slice(18, 32)),
+    classification: l1[7]?.trim() || 'U',
+    meanMotionRevPerDay: mm,
+    eccentricity: ecc,
+    inclinationDeg: numOr(l2.slice(8, 16)),
+    raanDeg: numOr(l2.slice(17, 25)),
+    argPerigeeDeg: numOr(l2.slice(34, 42)),
+    meanAnomalyDeg: numOr(l2.slice(43, 51)),
+    bstar: tleExp(l1.slice(53, 61)),
+    meanMotionDot: numOr(l1.slice(33, 43)),
+    meanMotionDdot: tleExp(l1.slice(44, 52)),
+    elementSetNo: numOr(l1.slice(64, 68)),
+    revAtEpoch: numOr(l2.slice(63, 68)),
+    ...derivedOrbit(mm, ecc),
+    from: 'tle',
+    source,
+  };
+}
+
+const emptyObject = (noradId: number): SatObject => ({
+  noradId,
+  cosparId: null,
+  name: '',
+  objectType: 'UNKNOWN',
+  owner: null,
+  launchDate: null,
+  launchSite: null,
+  decayDate: null,
+  rcsM2: null,
+  rcsSize: null,
+  opsStatus: null,
+  sources: [],
+});
+
+// Copy one field if it is still empty; keyed so the value keeps the field's type
+function fillField<K extends keyof SatObject>(into: SatObject, from: Partial<SatObject>, k: K) {
+  const v = from[k];
+  if (v === null || v === undefined || v === '') return;
+  const cur = into[k];
+  if (cur === null || cur === '' || (k === 'objectType' && cur === 'UNKNOWN')) into[k] = v;
+}
+
+// Fill only the fields that are still empty, so earlier (higher-priority) inputs win
+function mergeObject(into: SatObject, from: Partial<SatObject>, source: string) {
+  for (const k of Object.keys(from) as Array<keyof SatObject>) fillField(into, from, k);
+  if (!into.sources.includes(source)) into.sources.push(source);
+}
+
+type ObjectFields = Partial<SatObject> & { noradId: number };
+
+function objectFromSatcat(rec: Record<string, string>): ObjectFields {
+  return {
+    noradId: numOr(rec.NORAD_CAT_ID),
+    cosparId: str(rec.OBJECT_ID),
+    name: str(rec.OBJECT_NAME) ?? '',
+    objectType: normalizeObjectType(rec.OBJECT_TYPE),
+    owner: str(rec.OWNER),
+    launchDate: str(rec.LAUNCH_DATE),
+    launchSite: str(rec.LAUNCH_SITE),
+    decayDate: str(rec.DECAY_DATE),
+    rcsM2: numOrNull(rec.RCS),
+    opsStatus: str(rec.OPS_STATUS_CODE),
+  };
+}
+
+// Space-Track gp adds catalog fields; CelesTrak OMM only has name and designator
+function objectFromOmm(rec: OmmRecord): ObjectFields {
+  const size = str(rec.RCS_SIZE)?.toUpperCase();
+  return {
+    noradId: numOr(rec.NORAD_CAT_ID),
+    cosparId: str(rec.OBJECT_ID),
+    name: str(rec.OBJECT_NAME) ?? '',
+    objectType: normalizeObjectType(rec.OBJECT_TYPE),
+    owner: str(rec.COUNTRY_CODE),
+    launchDate: str(rec.LAUNCH_DATE),
+    launchSite: str(rec.SITE),
+    decayDate: str(rec.DECAY_DATE),
+    rcsSize: size === 'SMALL' || size === 'MEDIUM' || size === 'LARGE' ? size : null,
+  };
+}
+
+function objectFromTle(rec: TleRecord): ObjectFields {
+  return {
+    noradId: tleNoradId(rec.l1),
+    cosparId: tleCosparId(rec.l1),
+    name: (rec.name ?? '').replace(/^0 /, ''),
+  };
+}
+
+function objectFieldsFromInput(input: CatalogInput): ObjectFields[] {
+  switch (input.schema) {
+    case 'satcat':
+      return input.records.map(objectFromSatcat);
+    case 'omm':
+      return input.records.map(objectFromOmm);
+    case 'tle':
+      return input.records.map(objectFromTle);
+  }
+}
+
+// Catalog metadata priority: SATCAT, then OMM, then TLE
+const OBJECT_PRIORITY = { satcat: 0, omm: 1, tle: 2 } as const;
+
+export function normalizeSnapshot(all: NormalizeInput[], generatedAt: string) {
+  const inputs = all.filter((i): i is CatalogInput => i.schema !== 'sp3');
+  const objects = new Map<number, SatObject>();
+  const ordered = [...inputs].sort((a, b) => OBJECT_PRIORITY[a.schema] - OBJECT_PRIORITY[b.schema]);
+  for (const input of ordered) {
+    for (const { noradId, ...fields } of objectFieldsFromInput(input)) {
+      if (!noradId) continue;
+      let obj = objects.get(noradId);
+      if (!obj) objects.set(noradId, (obj = emptyObject(noradId)));
+      mergeObject(obj, fields, input.source);
+    }
+  }
+
+  // Newest epoch wins; on equal epochs OMM beats TLE (more digits)
+  const elements = new Map<number, GpElement>();
+  for (const input of inputs) {
+    if (input.schema === 'satcat') continue;
+    const parsed =
+      input.schema === 'omm'
+        ? input.records.map((rec) => gpFromOmm(rec, input.source))
+        : input.records.map((rec) => gpFromTle(rec, input.source));
+    for (const el of parsed) {
+      if (!el.noradId || !(el.meanMotionRevPerDay > 0)) continue;
+      const cur = elements.get(el.noradId);
+      if (!cur || el.epoch > cur.epoch || (el.epoch === cur.epoch && cur.from === 'tle' && el.from === 'omm')) {
+        elements.set(el.noradId, el);
+      }
+    }
+  }
+
+  const byId = <T extends { noradId: number }>(m: Map<number, T>) => [...m.values()].sort((a, b) => a.noradId - b.noradId);
+  const objectsFile: NormalizedFile<SatObject> = { schema: 'objects', version: SCHEMA_VERSION, generatedAt, records: byId(objects) };
+  const elementsFile: NormalizedFile<GpElement> = { schema: 'gp_elements', version: SCHEMA_VERSION, generatedAt, records: byId(elements) };
+  return { objects: objectsFile, gpElements: elementsFile };
+}
+
+// gp_elements joined with objects, as the viewer's columnar snapshot
+export function columnarSnapshot(elements: GpElement[], objects: SatObject[]) {
+  const byId = new Map(objects.map((o) => [o.noradId, o]));
+  const rows: ColumnarRow[] = elements.map((el) => {
+    const obj = byId.get(el.noradId);
+    const name = obj?.name ?? '';
+    const altKm = el.semiMajorAxisKm - EARTH_RADIUS_KM;
+    const constellation = classifyConstellation({
+      name,
+      cosparId: obj?.cosparId,
+      owner: obj?.owner,
+      objectType: obj?.objectType,
+      altKm,
+      inclinationDeg: el.inclinationDeg,
+    });
+    return {
+      noradId: el.noradId,
+      category: categoryCode(pickCategory(obj?.objectType ?? '', name, altKm, constellation)),
+      epochMs: Date.parse(el.epoch),
+      meanMotionRevPerDay: el.meanMotionRevPerDay,
+      eccentricity: el.eccentricity,
+      inclinationDeg: el.inclinationDeg,
+      raanDeg: el.raanDeg,
+      argPerigeeDeg: el.argPerigeeDeg,
+      meanAnomalyDeg: el.meanAnomalyDeg,
+      bstar: el.bstar,
+      meanMotionDot: el.meanMotionDot,
+      meanMotionDdot: el.meanMotionDdot,
+      revAtEpoch: el.revAtEpoch,
+      elementSetNo: el.elementSetNo,
+      name,
+      cosparId: obj?.cosparId ?? '',
+    };
+  });
+  return Buffer.from(encodeColumnar(rows));
+}
@@ -0,0 +1,95 @@
+// Parsers for the raw body formats the collector stores.
+// They assume the body already passed its validator.
+
+import { TleLines, parseTleText } from '../../src/shared/tle';
+
+export type OmmRecord = Record<string, unknown>;
+export type TleRecord = TleLines;
+
+export const parseTle = parseTleText;
+
+export function parseOmmJson(body: string): OmmRecord[] {
+  return JSON.parse(body) as OmmRecord[];
+}
+
+// Minimal RFC 4180 reader: quoted fields, escaped quotes, CRLF
+export function parseCsv(body: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (quoted) {
+      if (ch === '"') {
+        if (body[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else quoted = false;
+      } else field += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && body[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else field += ch;
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.length > 1 || r[0] !== '');
+}
+
+// One record per line: compact, yet diffs line-by-line in git
+export function stringifyRecordsFile(file: { records: unknown[] }) {
+  const { records, ...head } = file;
+  const lines = records.map((r) => `    ${JSON.stringify(r)}`).join(',\n');
+  const headJson = JSON.stringify(head, null, 2).replace(/\n}$/, '');
+  return `${headJson},\n  "records": [\n${lines}\n  ]\n}\n`;
+}
+
+// Writer counterpart: quotes fields containing separators, quotes or line breaks
+export function formatCsv(header: string[], rows: unknown[][]): string {
+  const field = (v: unknown) => {
+    const s = v === null || v === undefined ? '' : String(v);
+    return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+  };
+  return [header, ...rows].map((r) => r.map(field).join(',')).join('\n') + '\n';
+}
+
+export function parseCsvRecords(body: string): Array<Record<string, string>> {
+  const [header, ...rows] = parseCsv(body);
+  if (!header) return [];
+  const keys = header.map((h) => h.trim());
+  return rows.map((r) => Object.fromEntries(keys.map((k, i) => [k, r[i] ?? ''])));
+}
+
+// CelesTrak FORMAT=xml is CCSDS NDM/XML: one <omm> per object with flat leaf elements.
+// Leaf values are collected by tag name, which is all OMM needs.
+export function parseOmmXml(body: string): OmmRecord[] {
+  const out: OmmRecord[] = [];
+  for (const m of body.matchAll(/<omm\b[^>]*>([\s\S]*?)<\/omm>/g)) {
+    const rec: OmmRecord = {};
+    for (const leaf of m[1].matchAll(/<([A-Z_0-9]+)>([^<]*)<\/\1>/g)) {
+      const v = decodeXmlText(leaf[2].trim());
+      rec[leaf[1]] = v !== '' && Number.isFinite(Number(v)) && !/^(OBJECT_NAME|OBJECT_ID|EPOCH|CLASSIFICATION_TYPE)$/.test(leaf[1]) ? Number(v) : v;
+    }
+    out.push(rec);
+  }
+  return out;
+}
+
+function decodeXmlText(s: string) {
+  return s
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
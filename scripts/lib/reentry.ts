@@ -0,0 +1,197 @@
+import { GpElement, ReentryCandidate, ReentryEstimate, ReentryReport, SCHEMA_VERSION, SatObject } from '../../src/shared/schema';
+
+// Re-entry prediction for low-perigee objects.
+// The orbit is treated as circular at an effective altitude and decayed through a static
+// exponential atmosphere (Vallado, Table 8-4) until it reaches REENTRY_ALTITUDE_KM. The drag
+// strength comes from the observed mean-motion derivative where the element set has one, which
+// folds in the current solar activity, and from B* otherwise.
+
+export type ReentryConfig = {
+  // objects whose perigee is below this are screened
+  perigeeKm: number;
+  // estimates further out than this are dropped
+  horizonDays: number;
+};
+
+export function reentryConfigFromEnv(env: NodeJS.ProcessEnv = process.env): ReentryConfig | null {
+  const perigeeKm = Number(env.REENTRY_PERIGEE_KM ?? 250);
+  if (!(perigeeKm > 0)) return null;
+  return { perigeeKm, horizonDays: Number(env.REENTRY_HORIZON_DAYS ?? 365) || 365 };
+}
+
+const MU_M3_S2 = 3.986004418e14;
+const EARTH_RADIUS_KM = 6378.137;
+// Below this the object is gone within minutes
+const REENTRY_ALTITUDE_KM = 120;
+// Cd * A / m in m^2/kg = B* (1/ER) * 2 / rho0 with rho0 = 0.15696615 kg/m^2/ER
+const BSTAR_TO_BALLISTIC = 12.741621;
+// Lifetime predictions from mean elements are good to about this fraction of the time left
+const RELATIVE_UNCERTAINTY = 0.25;
+// Estimates kept per object in `previous`
+const MAX_PREVIOUS = 24;
+
+// [base altitude km, density kg/m^3, scale height km]
+const ATMOSPHERE: Array<[number, number, number]> = [
+  [0, 1.225, 7.249],
+  [25, 3.899e-2, 6.349],
+  [30, 1.774e-2, 6.682],
+  [40, 3.972e-3, 7.554],
+  [50, 1.057e-3, 8.382],
+  [60, 3.206e-4, 7.714],
+  [70, 8.77e-5, 6.549],
+  [80, 1.905e-5, 5.799],
+  [90, 3.396e-6, 5.382],
+  [100, 5.297e-7, 5.877],
+  [110, 9.661e-8, 7.263],
+  [120, 2.438e-8, 9.473],
+  [130, 8.484e-9, 12.636],
+  [140, 3.845e-9, 16.149],
+  [150, 2.07e-9, 22.523],
+  [180, 5.464e-10, 29.74],
+  [200, 2.789e-10, 37.105],
+  [250, 7.248e-11, 45.546],
+  [300, 2.418e-11, 53.628],
+  [350, 9.518e-12, 53.298],
+  [400, 3.725e-12, 58.515],
+  [450, 1.585e-12, 60.828],
+  [500, 6.967e-13, 63.822],
+  [600, 1.454e-13, 71.835],
+  [700, 3.614e-14, 88.667],
+  [800, 1.17e-14, 124.64],
+  [900, 5.245e-15, 181.05],
+  [1000, 3.019e-15, 268],
+];
+
+function layerAt(altKm: number) {
+  let i = ATMOSPHERE.length - 1;
+  while (i > 0 && ATMOSPHERE[i][0] > altKm) i--;
+  return ATMOSPHERE[i];
+}
+
+export function densityAt(altKm: number) {
+  const [h0, rho0, scale] = layerAt(altKm);
+  return rho0 * Math.exp(-(altKm - h0) / scale);
+}
+
+// Drag acts near perigee: near-circular orbits use their mean altitude, eccentric ones the
+// perigee raised by half a scale height
+function effectiveAltitudeKm(el: GpElement) {
+  const mean = el.semiMajorAxisKm - EARTH_RADIUS_KM;
+  return Math.min(mean, el.perigeeKm + layerAt(el.perigeeKm)[2] / 2);
+}
+
+// Circular-orbit decay rate in km/day for a ballistic coefficient Cd * A / m (m^2/kg)
+function decayRateKmPerDay(altKm: number, ballistic: number) {
+  const r = (EARTH_RADIUS_KM + altKm) * 1000;
+  return (densityAt(altKm) * ballistic * Math.sqrt(MU_M3_S2 * r) * 86400) / 1000;
+}
+
+// Days to fall from altKm to the re-entry altitude, or null past the horizon
+export function lifetimeDays(altKm: number, ballistic: number, horizonDays: number): number | null {
+  const step = 0.5;
+  let days = 0;
+  for (let h = altKm; h > REENTRY_ALTITUDE_KM; h -= step) {
+    const dh = Math.min(step, h - REENTRY_ALTITUDE_KM);
+    days += dh / decayRateKmPerDay(h - dh / 2, ballistic);
+    if (days > horizonDays) return null;
+  }
+  return days;
+}
+
+// Ballistic coefficient that reproduces the observed decay: a ~ n^(-2/3), the element set
+// carries n-dot / 2 in rev/day^2
+function ballisticFromMeanMotionDot(el: GpElement, altKm: number) {
+  if (!(el.meanMotionDot > 0)) return null;
+  const dadt = (2 / 3) * el.semiMajorAxisKm * ((2 * el.meanMotionDot) / el.meanMotionRevPerDay);
+  return dadt / decayRateKmPerDay(altKm, 1);
+}
+
+function ballisticFromBstar(el: GpElement) {
+  return el.bstar > 0 ? el.bstar * BSTAR_TO_BALLISTIC : null;
+}
+
+const iso = (ms: number) => new Date(Math.round(ms / 60000) * 60000).toISOString();
+const round = (v: number, digits: number) => Math.round(v * 10 ** digits) / 10 ** digits;
+
+// Nominal time and window of one element set; null without a usable drag term
+export function estimateReentry(el: GpElement, horizonDays: number) {
+  const alt = effectiveAltitudeKm(el);
+  const fromNdot = ballisticFromMeanMotionDot(el, alt);
+  const fromBstar = ballisticFromBstar(el);
+  const ndotDays = fromNdot === null ? null : lifetimeDays(alt, fromNdot, horizonDays);
+  const bstarDays = fromBstar === null ? null : lifetimeDays(alt, fromBstar, horizonDays);
+  const nominal = ndotDays ?? bstarDays;
+  if (nominal === null) return null;
+  // the window also covers the other estimate, so disagreeing drag terms widen it
+  const spread = [nominal, ...(ndotDays !== null && bstarDays !== null ? [ndotDays, bstarDays] : [])];
+  const periodDays = el.periodMin / 1440;
+  // and is never narrower than one revolution either side
+  const lo = Math.max(0, Math.min(Math.min(...spread) * (1 - RELATIVE_UNCERTAINTY), nominal - periodDays));
+  const hi = Math.max(Math.max(...spread) * (1 + RELATIVE_UNCERTAINTY), nominal + periodDays);
+  const epoch = Date.parse(el.epoch);
+  return {
+    method: ndotDays !== null ? ('mean_motion_dot' as const) : ('bstar' as const),
+    nominal: iso(epoch + nominal * 86400000),
+    windowStart: iso(epoch + lo * 86400000),
+    windowEnd: iso(epoch + hi * 86400000),
+    ballisticM2Kg: round(fromNdot ?? fromBstar!, 5),
+  };
+}
+
+// Earlier estimates of each object, oldest first, carried forward from the previous report.
+// Hours that repeat an element set repeat its estimate, so only new epochs are appended.
+function previousEstimates(prev: ReentryReport | null) {
+  const out = new Map<number, ReentryEstimate[]>();
+  for (const r of prev?.records ?? []) {
+    const estimate: ReentryEstimate = {
+      generatedAt: prev!.generatedAt,
+      epoch: r.epoch,
+      nominal: r.nominal,
+      windowStart: r.windowStart,
+      windowEnd: r.windowEnd,
+    };
+    out.set(r.noradId, [...r.previous, estimate]);
+  }
+  return out;
+}
+
+export function reentryReport(
+  elements: GpElement[],
+  objects: SatObject[],
+  config: ReentryConfig,
+  generatedAt: string,
+  previous: ReentryReport | null
+): ReentryReport {
+  const byId = new Map(objects.map((o) => [o.noradId, o]));
+  const history = previousEstimates(previous);
+  const records: ReentryCandidate[] = [];
+  for (const el of elements) {
+    if (el.perigeeKm >= config.perigeeKm) continue;
+    const estimate = estimateReentry(el, config.horizonDays);
+    if (!estimate) continue;
+    const object = byId.get(el.noradId);
+    const earlier = (history.get(el.noradId) ?? []).filter((e) => e.epoch !== el.epoch).slice(-MAX_PREVIOUS);
+    records.push({
+      noradId: el.noradId,
+      name: object?.name ?? '',
+      cosparId: object?.cosparId ?? null,
+      objectType: object?.objectType ?? null,
+      epoch: el.epoch,
+      perigeeKm: el.perigeeKm,
+      apogeeKm: el.apogeeKm,
+      bstar: el.bstar,
+      meanMotionDot: el.meanMotionDot,
+      ...estimate,
+      previous: earlier,
+    });
+  }
+  records.sort((a, b) => a.nominal.localeCompare(b.nominal));
+  return {
+    schema: 'reentries',
+    version: SCHEMA_VERSION,
+    generatedAt,
+    records,
+    perigeeThresholdKm: config.perigeeKm,
+    horizonDays: config.horizonDays,
+  };
+}
@@ -0,0 +1,81 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { GpElement, NormalizedFile, SatObject, SnapshotIndex } from '../../src/shared/schema';
+import { formatTle, tleNoradId } from '../../src/shared/tle';
+import { normalizeSnapshot } from './normalize';
+import { parseTle } from './parse';
+import { readSnapshotFile } from './store';
+
+// Read side of the collector output, for the analysis commands (aoi, ...).
+
+export const DATA_ROOT = path.join(process.cwd(), 'public', 'data');
+
+export type CatalogEntry = {
+  noradId: number;
+  name: string;
+  l1: string;
+  l2: string;
+  object: SatObject | null;
+};
+
+export async function readJsonIfExists<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf-8')) as T;
+  } catch (e) {
+    if (e instanceof Error && (e as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw e;
+  }
+}
+
+// Snapshot files resolve through store.json once an hour has been compacted
+export async function readSnapshotJson<T>(dir: string, name: string): Promise<T | null> {
+  const data = await readSnapshotFile(dir, name);
+  return data ? (JSON.parse(data.toString('utf-8')) as T) : null;
+}
+
+async function readSnapshotText(dir: string, name: string): Promise<string | null> {
+  return (await readSnapshotFile(dir, name))?.toString('utf-8') ?? null;
+}
+
+// Element sets of one snapshot directory: gp_elements.json joined with objects.json,
+// or the raw 3LE for snapshots collected before normalization
+export async function loadCatalog(dir: string): Promise<CatalogEntry[]> {
+  const elements = await readSnapshotJson<NormalizedFile<GpElement>>(dir, 'gp_elements.json');
+  const objects = await readSnapshotJson<NormalizedFile<SatObject>>(dir, 'objects.json');
+  const byId = new Map((objects?.records ?? []).map((o) => [o.noradId, o]));
+  if (elements) {
+    return elements.records.map((el) => {
+      const object = byId.get(el.noradId) ?? null;
+      const { l1, l2 } = formatTle({ ...el, epochMs: Date.parse(el.epoch), cosparId: object?.cosparId });
+      return { noradId: el.noradId, name: object?.name ?? '', l1, l2, object };
+    });
+  }
+  const tle = await readSnapshotText(dir, 'gp_active.tle');
+  if (tle === null) throw new Error(`no gp_elements.json or gp_active.tle in ${dir}`);
+  return parseTle(tle).map(({ name, l1, l2 }) => {
+    const noradId = tleNoradId(l1);
+    const object = byId.get(noradId) ?? null;
+    return { noradId, name: object?.name || (name ?? '').replace(/^0 /, ''), l1, l2, object };
+  });
+}
+
+// Normalized elements and objects of one snapshot directory; snapshots collected before
+// normalization are normalized from their 3LE on the fly
+export async function loadNormalized(dir: string): Promise<{ elements: GpElement[]; objects: SatObject[] }> {
+  const elements = await readSnapshotJson<NormalizedFile<GpElement>>(dir, 'gp_elements.json');
+  if (elements) {
+    const objects = await readSnapshotJson<NormalizedFile<SatObject>>(dir, 'objects.json');
+    return { elements: elements.records, objects: objects?.records ?? [] };
+  }
+  const tle = await readSnapshotText(dir, 'gp_active.tle');
+  if (tle === null) throw new Error(`no gp_elements.json or gp_active.tle in ${dir}`);
+  const n = normalizeSnapshot([{ source: 'gpActiveTle', schema: 'tle', records: parseTle(tle) }], '');
+  return { elements: n.gpElements.records, objects: n.objects.records };
+}
+
+export async function loadLatest(dataRoot = DATA_ROOT) {
+  const latestDir = path.join(dataRoot, 'latest');
+  const index = await readJsonIfExists<SnapshotIndex>(path.join(latestDir, 'index.json'));
+  if (!index) throw new Error(`no snapshot in ${latestDir}; run npm run satellite first`);
+  return { index, latestDir, hourDir: path.join(dataRoot, index.hourPath), catalog: await loadCatalog(latestDir) };
+}
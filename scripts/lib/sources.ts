@@ -0,0 +1,121 @@
+import { OmmRecord, TleRecord, parseCsvRecords, parseOmmJson, parseOmmXml, parseTle } from './parse';
+import { SATCAT_REQUIRED_COLUMNS, ValidationResult, validateCsv, validateOmmJson, validateOmmXml, validateTle } from './validate';
+
+export const CEL_BASE = 'https://celestrak.org';
+
+export type SourceFormat = 'json' | 'tle' | 'csv' | 'xml';
+
+// Per-run state handed to custom fetchers
+export type CollectContext = {
+  now: Date;
+  // incremental query positions by source key, carried over from the previous index.json
+  cursors: Record<string, string>;
+};
+
+export type SourceDef<T = unknown> = {
+  // index.json key for sources/files/counts/status
+  key: string;
+  url: string;
+  format: SourceFormat;
+  // file name inside the hour directory and latest/
+  file: string;
+  // a failed required source makes the run exit non-zero
+  required: boolean;
+  enabled?: boolean;
+  // what parse() yields, for the normalization step
+  schema?: 'omm' | 'tle' | 'satcat' | 'sp3';
+  parse: (body: string) => T[];
+  validate: (body: string) => ValidationResult;
+  // custom transport (sessions, incremental queries); defaults to a GET of `url`
+  fetchBody?: (ctx: CollectContext) => Promise<string | null>;
+  // cursor to store for the next run, derived from an accepted body
+  nextCursor?: (body: string) => string | undefined;
+};
+
+export const ACCEPT_BY_FORMAT: Record<SourceFormat, string> = {
+  json: 'application/json',
+  tle: 'text/plain',
+  csv: 'text/csv',
+  xml: 'application/xml',
+};
+
+const EXT_BY_FORMAT: Record<SourceFormat, string> = { json: 'json', tle: 'tle', csv: 'csv', xml: 'xml' };
+
+// OMM in any of the GP formats CelesTrak serves
+function ommFormat(format: Exclude<SourceFormat, 'csv'>, allowEmpty = false): Pick<SourceDef<OmmRecord | TleRecord>, 'schema' | 'parse' | 'validate'> {
+  switch (format) {
+    case 'json':
+      return { schema: 'omm', parse: parseOmmJson, validate: (b) => validateOmmJson(b, { allowEmpty }) };
+    case 'xml':
+      return { schema: 'omm', parse: parseOmmXml, validate: (b) => validateOmmXml(b, { allowEmpty }) };
+    case 'tle':
+      return { schema: 'tle', parse: parseTle, validate: validateTle };
+  }
+}
+
+const camel = (s: string) => s.replace(/[-_ ]+(\w)/g, (_, c: string) => c.toUpperCase());
+const pascal = (s: string) => camel(s).replace(/^\w/, (c) => c.toUpperCase());
+
+// CelesTrak GP by GROUP, e.g. celestrakGroup('active', 'tle') -> gpActiveTle / gp_active.tle
+export function celestrakGroup(
+  group: string,
+  format: Exclude<SourceFormat, 'csv'>,
+  opts: { required?: boolean; enabled?: boolean } = {}
+): SourceDef {
+  const slug = group.toLowerCase().replace(/-/g, '_');
+  return {
+    key: `gp${pascal(slug)}${format === 'json' ? '' : pascal(format)}`,
+    url: `${CEL_BASE}/NORAD/elements/gp.php?GROUP=${encodeURIComponent(group)}&FORMAT=${format}`,
+    format,
+    file: `gp_${slug}.${EXT_BY_FORMAT[format]}`,
+    required: opts.required ?? false,
+    enabled: opts.enabled,
+    ...ommFormat(format),
+  };
+}
+
+// CelesTrak supplemental GP by SOURCE; `name` gives the key/file suffix
+export function supgpSource(
+  source: string,
+  name: string,
+  format: Exclude<SourceFormat, 'csv'> = 'json',
+  opts: { required?: boolean; enabled?: boolean } = {}
+): SourceDef {
+  return {
+    key: `supgp${pascal(name)}${format === 'json' ? '' : pascal(format)}`,
+    url: `${CEL_BASE}/NORAD/supplemental/sup-gp.php?SOURCE=${encodeURIComponent(source)}&FORMAT=${format}`,
+    format,
+    file: `supgp_${name}.${EXT_BY_FORMAT[format]}`,
+    required: opts.required ?? false,
+    enabled: opts.enabled,
+    // SupGP sources go quiet between uploads; an empty list is not a failure
+    ...ommFormat(format, true),
+  };
+}
+
+export const SOURCES: SourceDef[] = [
+  celestrakGroup('active', 'json', { required: true }),
+  celestrakGroup('active', 'tle', { required: true }),
+  {
+    key: 'satcatOnOrbitPayloads',
+    // SATCAT JSON can be finicky; CSV endpoint is reliable
+    url: `${CEL_BASE}/satcat/records.php?ONORBIT=1&PAYLOADS=1&FORMAT=CSV`,
+    format: 'csv',
+    file: 'satcat_onorbit_payloads.csv',
+    required: false,
+    schema: 'satcat',
+    parse: parseCsvRecords,
+    validate: (b) => validateCsv(b, SATCAT_REQUIRED_COLUMNS),
+  },
+  supgpSource('SpaceX-E', 'spacex'),
+  celestrakGroup('stations', 'tle'),
+  celestrakGroup('gnss', 'tle'),
+  celestrakGroup('weather', 'tle'),
+  celestrakGroup('last-30-days', 'tle'),
+  // Subset of active; enable when a separate Starlink file is useful
+  celestrakGroup('starlink', 'tle', { enabled: false }),
+];
+
+export function enabledSources(sources: SourceDef[] = SOURCES) {
+  return sources.filter((s) => s.enabled !== false);
+}
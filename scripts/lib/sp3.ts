@@ -0,0 +1,199 @@
+import type { Sp3Ephemeris, Vec3 } from '../../src/shared/schema';
+
+export type { Sp3Ephemeris, Vec3 };
+// Interpolation lives with the viewer's propagation, in src/shared/sp3.ts
+export { ecefToEci, interpolateSp3 } from '../../src/shared/sp3';
+export type { StateVector } from '../../src/shared/sp3';
+
+// SP3-c / SP3-d precise orbit files (IGS, CDDIS).
+// Positions are km in an Earth-fixed frame, clocks microseconds, velocities dm/s.
+// Format reference: https://files.igs.org/pub/data/format/sp3d.pdf
+
+export type Sp3Header = {
+  version: 'c' | 'd';
+  // 'P' = positions only, 'V' = positions and velocities
+  mode: 'P' | 'V';
+  start: string;
+  numEpochs: number;
+  dataUsed: string;
+  coordinateSystem: string;
+  orbitType: string;
+  agency: string;
+  gpsWeek: number;
+  secondsOfWeek: number;
+  intervalSec: number;
+  satellites: string[];
+  accuracyExp: Record<string, number>;
+  fileType: string;
+  timeSystem: string;
+  comments: string[];
+};
+
+export type Sp3Record = {
+  position: Vec3 | null;
+  clock: number | null;
+  velocity?: Vec3 | null;
+  clockRate?: number | null;
+};
+
+export type Sp3Epoch = {
+  // SP3 time tag in the header's time system, formatted as ISO without zone
+  time: string;
+  records: Record<string, Sp3Record>;
+};
+
+export type Sp3File = { header: Sp3Header; epochs: Sp3Epoch[] };
+
+const BAD_POS = 0;
+const BAD_CLOCK = 999999;
+
+const num = (s: string) => {
+  const v = Number(s.trim());
+  return Number.isFinite(v) ? v : NaN;
+};
+
+function parseEpochFields(s: string) {
+  const [y, mo, d, h, mi, sec] = s.trim().split(/\s+/).map(Number);
+  const whole = Math.floor(sec);
+  const frac = Math.round((sec - whole) * 1e6);
+  const pad = (n: number, w = 2) => String(n).padStart(w, '0');
+  return `${pad(y, 4)}-${pad(mo)}-${pad(d)}T${pad(h)}:${pad(mi)}:${pad(whole)}${frac ? `.${pad(frac, 6)}` : ''}`;
+}
+
+export function parseSp3(text: string): Sp3File {
+  const lines = text.split(/\r?\n/);
+  const first = lines[0] ?? '';
+  if (!/^#[cd][PV]/.test(first)) throw new Error(`not an SP3-c/d file: ${JSON.stringify(first.slice(0, 20))}`);
+  const header: Sp3Header = {
+    version: first[1] as 'c' | 'd',
+    mode: first[2] as 'P' | 'V',
+    start: parseEpochFields(first.slice(3, 31)),
+    numEpochs: num(first.slice(32, 39)),
+    dataUsed: first.slice(40, 45).trim(),
+    coordinateSystem: first.slice(46, 51).trim(),
+    orbitType: first.slice(52, 55).trim(),
+    agency: first.slice(56, 60).trim(),
+    gpsWeek: 0,
+    secondsOfWeek: 0,
+    intervalSec: 0,
+    satellites: [],
+    accuracyExp: {},
+    fileType: '',
+    timeSystem: 'GPS',
+    comments: [],
+  };
+  let satCount = 0;
+  let accIndex = 0;
+  let seenPercentC = false;
+  const epochs: Sp3Epoch[] = [];
+  let current: Sp3Epoch | null = null;
+
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line) continue;
+    if (line.startsWith('EOF')) break;
+    const tag = line.slice(0, 2);
+    if (tag === '##') {
+      header.gpsWeek = num(line.slice(3, 7));
+      header.secondsOfWeek = num(line.slice(8, 23));
+      header.intervalSec = num(line.slice(24, 38));
+    } else if (tag === '+ ') {
+      if (!satCount) satCount = num(line.slice(3, 6));
+      for (let c = 9; c + 3 <= 60 && header.satellites.length < satCount; c += 3) {
+        const id = line.slice(c, c + 3).trim();
+        if (id && id !== '0' && id !== '00') header.satellites.push(normalizeSatId(id));
+      }
+    } else if (tag === '++') {
+      for (let c = 9; c + 3 <= 60 && accIndex < satCount; c += 3, accIndex++) {
+        const sat = header.satellites[accIndex];
+        if (sat) header.accuracyExp[sat] = num(line.slice(c, c + 3));
+      }
+    } else if (tag === '%c') {
+      if (!seenPercentC) {
+        header.fileType = line.slice(3, 5).trim();
+        header.timeSystem = line.slice(9, 12).trim() || 'GPS';
+        seenPercentC = true;
+      }
+    } else if (tag === '/*') {
+      header.comments.push(line.slice(3).trimEnd());
+    } else if (tag === '* ') {
+      current = { time: parseEpochFields(line.slice(3, 31)), records: {} };
+      epochs.push(current);
+    } else if (line[0] === 'P' && current) {
+      const sat = normalizeSatId(line.slice(1, 4));
+      const pos: Vec3 = [num(line.slice(4, 18)), num(line.slice(18, 32)), num(line.slice(32, 46))];
+      const clk = num(line.slice(46, 60));
+      current.records[sat] = {
+        ...current.records[sat],
+        position: pos.every(Number.isFinite) && !pos.every((v) => v === BAD_POS) ? pos : null,
+        clock: Number.isFinite(clk) && Math.abs(clk) < BAD_CLOCK ? clk : null,
+      };
+    } else if (line[0] === 'V' && current) {
+      const sat = normalizeSatId(line.slice(1, 4));
+      const vel: Vec3 = [num(line.slice(4, 18)), num(line.slice(18, 32)), num(line.slice(32, 46))];
+      const rate = num(line.slice(46, 60));
+      const rec = (current.records[sat] ??= { position: null, clock: null });
+      rec.velocity = vel.every((v) => Number.isFinite(v)) && vel.some((v) => v !== 0) ? vel : null;
+      rec.clockRate = Number.isFinite(rate) && Math.abs(rate) < BAD_CLOCK ? rate : null;
+    }
+    // %f, %i, EP/EV correlation records are not needed downstream
+  }
+  if (!epochs.length) throw new Error('SP3 file has no epochs');
+  return { header, epochs };
+}
+
+// SP3-a allowed a blank system letter for GPS ("  1" -> "G01")
+function normalizeSatId(id: string) {
+  const t = id.trim();
+  if (/^\d+$/.test(t)) return `G${t.padStart(2, '0')}`;
+  return `${t[0]}${t.slice(1).trim().padStart(2, '0')}`;
+}
+
+// GPS - UTC, seconds (IERS Bulletin C). GPS time has no leap seconds.
+const GPS_LEAP_SECONDS: Array<[string, number]> = [
+  ['2017-01-01', 18],
+  ['2015-07-01', 17],
+  ['2012-07-01', 16],
+  ['2009-01-01', 15],
+  ['2006-01-01', 14],
+];
+
+export function timeSystemToUtcMs(time: string, timeSystem: string) {
+  const ms = Date.parse(`${time}Z`);
+  if (timeSystem === 'UTC') return ms;
+  // GST (Galileo) and QZSST are aligned to GPS; BDT lags GPS by 14 s; TAI leads GPS by 19 s
+  const offsetToGps = timeSystem === 'BDT' ? 14 : timeSystem === 'TAI' ? -19 : 0;
+  const gps = ms + offsetToGps * 1000;
+  const leap = GPS_LEAP_SECONDS.find(([since]) => gps >= Date.parse(`${since}T00:00:00Z`))?.[1] ?? 13;
+  return gps - leap * 1000;
+}
+
+export function normalizeSp3(file: Sp3File, meta: { product: string; source: string }): Sp3Ephemeris {
+  const { header, epochs } = file;
+  const sats = header.satellites.length ? header.satellites : Object.keys(epochs[0].records);
+  const satellites: Sp3Ephemeris['satellites'] = {};
+  for (const sat of sats) {
+    const hasVel = epochs.some((e) => e.records[sat]?.velocity);
+    satellites[sat] = {
+      position_km: epochs.map((e) => e.records[sat]?.position ?? null),
+      clock_us: epochs.map((e) => e.records[sat]?.clock ?? null),
+      // dm/s -> km/s
+      ...(hasVel
+        ? { velocity_km_s: epochs.map((e) => {
+            const v = e.records[sat]?.velocity;
+            return v ? (v.map((x) => x * 1e-4) as Vec3) : null;
+          }) }
+        : {}),
+    };
+  }
+  return {
+    version: 1,
+    product: meta.product,
+    source: meta.source,
+    coordinateSystem: header.coordinateSystem,
+    frame: 'ECEF',
+    epochs: epochs.map((e) => new Date(timeSystemToUtcMs(e.time, header.timeSystem)).toISOString()),
+    intervalSec: header.intervalSec,
+    satellites,
+  };
+}
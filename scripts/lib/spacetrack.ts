@@ -0,0 +1,171 @@
+import { USER_AGENT, sleep } from './fetch';
+import type { SourceDef } from './sources';
+import { validateOmmJson } from './validate';
+import { parseOmmJson } from './parse';
+
+// Space-Track.org publishes these as hard limits; exceeding them suspends the account
+export const SPACETRACK_LIMITS = [
+  { max: 30, windowMs: 60 * 1000 },
+  { max: 300, windowMs: 60 * 60 * 1000 },
+];
+
+export type SpaceTrackConfig = {
+  baseUrl: string;
+  username: string;
+  password: string;
+  limits?: Array<{ max: number; windowMs: number }>;
+};
+
+export function spaceTrackConfigFromEnv(env: NodeJS.ProcessEnv = process.env): SpaceTrackConfig | null {
+  const username = env.SPACETRACK_USERNAME;
+  const password = env.SPACETRACK_PASSWORD;
+  if (!username || !password) return null;
+  return {
+    baseUrl: (env.SPACETRACK_BASE_URL || 'https://www.space-track.org').replace(/\/+$/, ''),
+    username,
+    password,
+  };
+}
+
+// Sliding-window limiter; callers are served in order
+export function createRateLimiter(
+  limits: Array<{ max: number; windowMs: number }>,
+  now: () => number = Date.now,
+  wait: (ms: number) => Promise<unknown> = sleep
+) {
+  const stamps: number[] = [];
+  const longest = Math.max(0, ...limits.map((l) => l.windowMs));
+  let chain: Promise<void> = Promise.resolve();
+  const acquire = () => {
+    chain = chain.then(async () => {
+      for (;;) {
+        const t = now();
+        while (stamps.length && stamps[0] <= t - longest) stamps.shift();
+        let delay = 0;
+        for (const l of limits) {
+          const inWindow = stamps.filter((s) => s > t - l.windowMs);
+          if (inWindow.length >= l.max) delay = Math.max(delay, inWindow[0] + l.windowMs - t);
+        }
+        if (delay <= 0) {
+          stamps.push(t);
+          return;
+        }
+        await wait(delay);
+      }
+    });
+    return chain;
+  };
+  return { acquire };
+}
+
+export function createSpaceTrackClient(config: SpaceTrackConfig) {
+  const limiter = createRateLimiter(config.limits ?? SPACETRACK_LIMITS);
+  let cookie: string | null = null;
+  let loggingIn: Promise<void> | null = null;
+
+  const login = async () => {
+    await limiter.acquire();
+    const res = await fetch(`${config.baseUrl}/ajaxauth/login`, {
+      method: 'POST',
+      headers: { 'User-Agent': USER_AGENT, 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ identity: config.username, password: config.password }).toString(),
+    });
+    const text = await res.text();
+    if (!res.ok || /"Login"\s*:\s*"Failed"/i.test(text)) throw new Error(`Space-Track login failed (HTTP ${res.status})`);
+    const cookies = res.headers.getSetCookie().map((c) => c.split(';')[0]);
+    if (!cookies.length) throw new Error('Space-Track login returned no session cookie');
+    cookie = cookies.join('; ');
+  };
+
+  const ensureLogin = () => {
+    if (cookie) return Promise.resolve();
+    loggingIn ??= login().finally(() => {
+      loggingIn = null;
+    });
+    return loggingIn;
+  };
+
+  // GET a path under the base URL with the session cookie; re-logs in once on 401
+  const query = async (pathAndQuery: string, retries = 2, backoffMs = 1000): Promise<string | null> => {
+    let relogged = false;
+    for (let i = 0; i <= retries; i++) {
+      try {
+        await ensureLogin();
+        await limiter.acquire();
+        const res = await fetch(`${config.baseUrl}${pathAndQuery}`, {
+          headers: { 'User-Agent': USER_AGENT, 'Accept': 'application/json', 'Cookie': cookie ?? '' },
+        });
+        if (res.status === 401 && !relogged) {
+          relogged = true;
+          cookie = null;
+          i--;
+          continue;
+        }
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return await res.text();
+      } catch (e) {
+        if (i === retries) {
+          console.warn(`Space-Track error (${pathAndQuery}):`, (e as Error).message);
+          return null;
+        }
+        await sleep(backoffMs * Math.pow(2, i));
+      }
+    }
+    return null;
+  };
+
+  const logout = async () => {
+    if (!cookie) return;
+    await limiter.acquire();
+    await fetch(`${config.baseUrl}/ajaxauth/logout`, { headers: { 'User-Agent': USER_AGENT, 'Cookie': cookie } }).catch(() => {});
+    cookie = null;
+  };
+
+  return { baseUrl: config.baseUrl, query, logout };
+}
+
+export type SpaceTrackClient = ReturnType<typeof createSpaceTrackClient>;
+
+const seg = (s: string) => encodeURIComponent(s);
+
+// Current element sets for every object still on orbit, as Space-Track recommends polling them
+export const GP_QUERY = '/basicspacedata/query/class/gp/decay_date/null-val/epoch/%3Enow-30/orderby/norad_cat_id/format/json';
+
+export function gpHistoryQuery(since: string) {
+  return `/basicspacedata/query/class/gp_history/CREATION_DATE/${seg(`>${since}`)}/orderby/${seg('CREATION_DATE asc')}/format/json`;
+}
+
+// First run without a cursor only pulls the last day of history
+const defaultSince = (now: Date) => new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString().slice(0, 19);
+
+export function spaceTrackSources(client: SpaceTrackClient): SourceDef[] {
+  return [
+    {
+      key: 'spaceTrackGp',
+      url: `${client.baseUrl}${GP_QUERY}`,
+      format: 'json',
+      file: 'spacetrack_gp.json',
+      required: false,
+      schema: 'omm',
+      parse: parseOmmJson,
+      validate: (b) => validateOmmJson(b),
+      fetchBody: () => client.query(GP_QUERY),
+    },
+    {
+      key: 'spaceTrackGpHistory',
+      url: `${client.baseUrl}${gpHistoryQuery('{cursor}')}`,
+      format: 'json',
+      file: 'spacetrack_gp_history.json',
+      required: false,
+      schema: 'omm',
+      parse: parseOmmJson,
+      validate: (b) => validateOmmJson(b, { allowEmpty: true }),
+      fetchBody: (ctx) => client.query(gpHistoryQuery(ctx.cursors.spaceTrackGpHistory ?? defaultSince(ctx.now))),
+      // Advance to the newest CREATION_DATE seen; an empty page keeps the old cursor
+      nextCursor: (body) => {
+        const dates = parseOmmJson(body).map((r) => String(r.CREATION_DATE ?? '')).filter(Boolean).sort();
+        return dates[dates.length - 1];
+      },
+    },
+  ];
+}
@@ -0,0 +1,147 @@
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  LineDelta,
+  STORE_MANIFEST,
+  StoreEntry,
+  StoreManifest,
+  applyLineDelta,
+  blobPath,
+  encodeLineDelta,
+} from '../../src/shared/store';
+
+// Node side of the content-addressed store (src/shared/store.ts): blob I/O, compaction of
+// one hour directory, and reading files back whether an hour is compacted or not.
+
+// Files diffed line by line against the previous hour; anything else is stored whole
+const TEXT_EXTENSIONS = new Set(['.tle', '.csv', '.json', '.jsonl', '.xml', '.txt']);
+
+// A delta that saves less than this fraction of the file is not worth the extra fetch
+const MIN_DELTA_SAVING = 0.2;
+
+export const sha256 = (data: string | Buffer) => createHash('sha256').update(data).digest('hex');
+
+// YYYY/MM/DD/HH -> data root
+const dataRootOf = (hourDir: string) => path.resolve(hourDir, '..', '..', '..', '..');
+
+export async function writeBlob(dataRoot: string, data: string | Buffer): Promise<string> {
+  const hash = sha256(data);
+  const file = path.join(dataRoot, blobPath(hash));
+  try {
+    await fs.access(file);
+  } catch {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, data);
+  }
+  return hash;
+}
+
+export const readBlob = (dataRoot: string, hash: string) => fs.readFile(path.join(dataRoot, blobPath(hash)));
+
+export async function readStoreManifest(hourDir: string): Promise<StoreManifest | null> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(hourDir, STORE_MANIFEST), 'utf-8')) as StoreManifest;
+  } catch (e) {
+    if (e instanceof Error && (e as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw e;
+  }
+}
+
+export async function resolveEntry(dataRoot: string, entry: StoreEntry): Promise<Buffer> {
+  const blob = await readBlob(dataRoot, entry.blob);
+  if (!entry.deltas?.length) return blob;
+  let text = blob.toString('utf-8');
+  for (const d of entry.deltas) {
+    text = applyLineDelta(text, JSON.parse((await readBlob(dataRoot, d)).toString('utf-8')) as LineDelta);
+  }
+  return Buffer.from(text, 'utf-8');
+}
+
+// A snapshot file from a raw or compacted hour directory (or latest/); null when absent
+export async function readSnapshotFile(hourDir: string, name: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(path.join(hourDir, name));
+  } catch (e) {
+    if (!(e instanceof Error && (e as NodeJS.ErrnoException).code === 'ENOENT')) throw e;
+  }
+  const entry = (await readStoreManifest(hourDir))?.files[name];
+  return entry ? resolveEntry(dataRootOf(hourDir), entry) : null;
+}
+
+// File names of an hour directory, raw or compacted
+export async function listSnapshotFiles(hourDir: string): Promise<string[]> {
+  const entries = await fs.readdir(hourDir, { withFileTypes: true });
+  const raw = entries.filter((e) => e.isFile() && e.name !== 'index.json' && e.name !== STORE_MANIFEST).map((e) => e.name);
+  const stored = Object.keys((await readStoreManifest(hourDir))?.files ?? {});
+  return [...new Set([...raw, ...stored])].sort();
+}
+
+const isText = (name: string, data: Buffer) =>
+  TEXT_EXTENSIONS.has(path.extname(name)) && Buffer.from(data.toString('utf-8'), 'utf-8').equals(data);
+
+// Last stored version of each file name within the current day: its entry, and its text
+// once needed as the base of the next delta
+export type DayChain = Map<string, { entry: StoreEntry; text?: string }>;
+
+// Moves the raw files of one hour directory into the store, extending `chain` (reset it at
+// the start of each day). Returns byte counts before and after.
+export async function compactHour(
+  dataRoot: string,
+  hourDir: string,
+  chain: DayChain
+): Promise<{ files: number; rawBytes: number; storedBytes: number }> {
+  const manifest: StoreManifest = (await readStoreManifest(hourDir)) ?? { version: 1, files: {} };
+  const entries = await fs.readdir(hourDir, { withFileTypes: true });
+  const raw = entries.filter((e) => e.isFile() && e.name !== 'index.json' && e.name !== STORE_MANIFEST);
+  let rawBytes = 0;
+  let storedBytes = 0;
+  for (const { name } of raw) {
+    const data = await fs.readFile(path.join(hourDir, name));
+    const text = isText(name, data) ? data.toString('utf-8') : undefined;
+    const prev = chain.get(name);
+    let entry: StoreEntry | null = null;
+    if (prev && text !== undefined) {
+      const base = prev.text ?? (await resolveEntry(dataRoot, prev.entry)).toString('utf-8');
+      const delta = JSON.stringify(encodeLineDelta(base, text));
+      if (Buffer.byteLength(delta) < data.length * (1 - MIN_DELTA_SAVING)) {
+        const deltas = [...(prev.entry.deltas ?? []), await writeBlob(dataRoot, delta)];
+        entry = { sha256: sha256(data), size: data.length, blob: prev.entry.blob, deltas };
+        storedBytes += Buffer.byteLength(delta);
+      }
+    }
+    if (!entry) {
+      // first copy of the day, binary, or changed too much: a new keyframe
+      entry = { sha256: sha256(data), size: data.length, blob: await writeBlob(dataRoot, data) };
+      storedBytes += data.length;
+    }
+    chain.set(name, { entry, text });
+    manifest.files[name] = entry;
+    rawBytes += data.length;
+  }
+  // Manifest first, so an interrupted run never leaves a file unreachable
+  await fs.writeFile(path.join(hourDir, STORE_MANIFEST), JSON.stringify(manifest, null, 2), 'utf-8');
+  for (const { name } of raw) await fs.rm(path.join(hourDir, name));
+  return { files: raw.length, rawBytes, storedBytes };
+}
+
+// Removes blobs no manifest refers to; returns how many
+export async function collectGarbage(dataRoot: string, manifests: StoreManifest[]): Promise<number> {
+  const live = new Set<string>();
+  for (const m of manifests) {
+    for (const e of Object.values(m.files)) {
+      live.add(e.blob);
+      e.deltas?.forEach((d) => live.add(d));
+    }
+  }
+  const blobsDir = path.dirname(path.dirname(path.join(dataRoot, blobPath('00'))));
+  let removed = 0;
+  for (const fan of await fs.readdir(blobsDir).catch(() => [] as string[])) {
+    for (const hash of await fs.readdir(path.join(blobsDir, fan))) {
+      if (live.has(hash)) continue;
+      await fs.rm(path.join(blobsDir, fan, hash));
+      removed++;
+    }
+  }
+  return removed;
+}
@@ -0,0 +1,113 @@
+// Sanity checks for raw dataset bodies before they are persisted.
+// Each validator takes the raw response text and never throws.
+import { parseCsv, parseOmmXml } from './parse';
+import { tleChecksum } from '../../src/shared/tle';
+
+export type ValidationResult =
+  | { ok: true; count: number }
+  | { ok: false; error: string };
+
+const fail = (error: string): ValidationResult => ({ ok: false, error });
+
+// Fields every OMM record from CelesTrak's FORMAT=json endpoints carries
+export const OMM_REQUIRED_FIELDS = [
+  'OBJECT_NAME',
+  'NORAD_CAT_ID',
+  'EPOCH',
+  'MEAN_MOTION',
+  'ECCENTRICITY',
+  'INCLINATION',
+  'RA_OF_ASC_NODE',
+  'ARG_OF_PERICENTER',
+  'MEAN_ANOMALY',
+] as const;
+
+export const SATCAT_REQUIRED_COLUMNS = [
+  'OBJECT_NAME',
+  'OBJECT_ID',
+  'NORAD_CAT_ID',
+  'OBJECT_TYPE',
+  'OWNER',
+  'LAUNCH_DATE',
+] as const;
+
+export function validateOmmJson(body: string, opts: { allowEmpty?: boolean } = {}): ValidationResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    return fail(`not JSON: ${snippet(body)}`);
+  }
+  if (!Array.isArray(data)) return fail('expected a JSON array of OMM records');
+  return checkOmmRecords(data, opts);
+}
+
+export function validateOmmXml(body: string, opts: { allowEmpty?: boolean } = {}): ValidationResult {
+  if (!/<ndm\b/.test(body)) return fail(`not an NDM/XML document: ${snippet(body)}`);
+  return checkOmmRecords(parseOmmXml(body), opts);
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+
+function checkOmmRecords(data: unknown[], opts: { allowEmpty?: boolean }): ValidationResult {
+  if (data.length === 0 && !opts.allowEmpty) return fail('empty OMM array');
+  for (let i = 0; i < data.length; i++) {
+    const rec = data[i];
+    if (!isRecord(rec)) return fail(`record ${i}: not an object`);
+    for (const f of OMM_REQUIRED_FIELDS) {
+      if (!(f in rec)) return fail(`record ${i}: missing ${f}`);
+    }
+    if (!Number.isFinite(Number(rec.NORAD_CAT_ID))) return fail(`record ${i}: bad NORAD_CAT_ID`);
+    if (!Number.isFinite(Number(rec.MEAN_MOTION))) return fail(`record ${i}: bad MEAN_MOTION`);
+    if (Number.isNaN(Date.parse(`${rec.EPOCH}Z`)) && Number.isNaN(Date.parse(String(rec.EPOCH)))) {
+      return fail(`record ${i}: bad EPOCH ${JSON.stringify(rec.EPOCH)}`);
+    }
+  }
+  return { ok: true, count: data.length };
+}
+
+// Accepts 2LE or 3LE text; every line 1 must be followed by its line 2
+export function validateTle(body: string): ValidationResult {
+  const lines = body.split(/\r?\n/).map((l) => l.trimEnd()).filter(Boolean);
+  if (lines.length === 0) return fail('empty TLE body');
+  let sets = 0;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.startsWith('2 ')) return fail(`line ${i + 1}: line 2 without preceding line 1`);
+    if (!line.startsWith('1 ')) {
+      // name line (3LE); must be followed by line 1
+      if (!lines[i + 1]?.startsWith('1 ')) return fail(`line ${i + 1}: unexpected text ${snippet(line)}`);
+      continue;
+    }
+    const l2 = lines[i + 1];
+    if (!l2?.startsWith('2 ')) return fail(`line ${i + 1}: line 1 without line 2`);
+    for (const [n, l] of [[i + 1, line], [i + 2, l2]] as const) {
+      if (l.length !== 69) return fail(`line ${n}: expected 69 columns, got ${l.length}`);
+      if (tleChecksum(l) !== Number(l[68])) return fail(`line ${n}: checksum mismatch`);
+    }
+    if (line.slice(2, 7) !== l2.slice(2, 7)) return fail(`line ${i + 1}: catalog number differs between lines`);
+    sets++;
+    i++;
+  }
+  return { ok: true, count: sets };
+}
+
+export function validateCsv(body: string, requiredColumns: readonly string[]): ValidationResult {
+  const rows = parseCsv(body);
+  if (rows.length === 0) return fail('empty CSV body');
+  const header = rows[0].map((h) => h.trim());
+  const missing = requiredColumns.filter((c) => !header.includes(c));
+  if (missing.length) return fail(`header missing ${missing.join(', ')}: ${snippet(body)}`);
+  if (rows.length < 2) return fail('CSV has a header but no rows');
+  for (let i = 1; i < rows.length; i++) {
+    if (rows[i].length !== header.length) {
+      return fail(`row ${i + 1}: expected ${header.length} columns, got ${rows[i].length}`);
+    }
+  }
+  return { ok: true, count: rows.length - 1 };
+}
+
+function snippet(s: string, max = 80) {
+  const one = s.replace(/\s+/g, ' ').trim();
+  return JSON.stringify(one.length > max ? `${one.slice(0, max)}…` : one);
+}
@@ -1,145 +1,113 @@
-import fs from 'fs/promises';
 import path from 'path';
+import { parseArgs } from 'util';
+import { loadAlertRules, runAlerts } from './lib/alerts';
+import { sp3ConfigFromEnv, sp3Sources } from './lib/cddis';
+import { collect, fixtureTransport, hourPathTime, jstHourPath, mirrorTransport, networkTransport } from './lib/collect';
+import { conjunctionConfigFromEnv } from './lib/conjunctions';
+import { constellationConfigFromEnv } from './lib/constellations';
+import { reentryConfigFromEnv } from './lib/reentry';
+import { SOURCES, SourceDef, enabledSources } from './lib/sources';
+import { createSpaceTrackClient, spaceTrackConfigFromEnv, spaceTrackSources } from './lib/spacetrack';
 
-type Json = any;
+// Collector: fetch every enabled source into public/data/YYYY/MM/DD/HH (JST) and latest/.
+//   npm run satellite -- [--out public/data] [--at ISO | --hour-path YYYY/MM/DD/HH]
+//                        [--sources gpActive,gpActiveTle] [--dry-run] [--offline DIR|URL] [--alerts FILE]
+// --at sets the collection time (default now) and --hour-path the directory (default the JST
+// hour of --at; alone it sets the time to the start of that hour). --sources picks sources by
+// index.json key, including ones disabled by default. --offline reads bodies from files named
+// like the stored ones in DIR, or sends the CelesTrak requests to URL instead (e.g. a mock server).
+// --dry-run fetches, validates and derives but writes nothing. --alerts names the alert rules
+// (default alert-rules.json, skipped when that does not exist).
 
-const CEL_BASE = 'https://celestrak.org';
+const USAGE =
+  'usage: npm run satellite -- [--out public/data] [--at ISO | --hour-path YYYY/MM/DD/HH] [--sources key,...] [--dry-run] [--offline DIR|URL] [--alerts FILE]';
 
-const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+const DEFAULT_ALERT_RULES = 'alert-rules.json';
 
-async function fetchJsonWithRetry(url: string, retries = 2, backoffMs = 1000): Promise<Json | null> {
-  for (let i = 0; i <= retries; i++) {
-    try {
-      const res = await fetch(url, {
-        headers: {
-          'User-Agent': 'crisis-watcher-satellite/0.1 (+https://github.com/yuiseki/crisis-watcher-satellite)',
-          'Accept': 'application/json'
-        }
-      });
-      if (!res.ok) throw new Error(`HTTP ${res.status}`);
-      return await res.json();
-    } catch (e) {
-      if (i === retries) {
-        console.warn(`fetch error (${url}):`, (e as Error).message);
-        return null;
-      }
-      await sleep(backoffMs * Math.pow(2, i));
-    }
-  }
-  return null;
-}
-
-function buildHourlyDirPathJST() {
-  const nowUtc = new Date();
-  const jst = new Date(nowUtc.getTime() + 9 * 60 * 60 * 1000);
-  const yyyy = String(jst.getUTCFullYear());
-  const mm = String(jst.getUTCMonth() + 1).padStart(2, '0');
-  const dd = String(jst.getUTCDate()).padStart(2, '0');
-  const hh = String(jst.getUTCHours()).padStart(2, '0');
-  const hourPath = `${yyyy}/${mm}/${dd}/${hh}`;
-  const dir = path.join(process.cwd(), 'public', 'data', yyyy, mm, dd, hh);
-  const latestDir = path.join(process.cwd(), 'public', 'data', 'latest');
-  return { dir, latestDir, hourPath, generatedAt: nowUtc.toISOString() };
+function options() {
+  const { values } = parseArgs({
+    options: {
+      out: { type: 'string', default: path.join('public', 'data') },
+      at: { type: 'string' },
+      'hour-path': { type: 'string' },
+      sources: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      offline: { type: 'string' },
+      alerts: { type: 'string' },
+    },
+  });
+  const hourStart = values['hour-path'] !== undefined ? hourPathTime(values['hour-path']) : null;
+  if (values['hour-path'] !== undefined && !hourStart) throw new Error(`bad --hour-path ${values['hour-path']}\n${USAGE}`);
+  const now = values.at !== undefined ? new Date(values.at) : hourStart ?? new Date();
+  if (Number.isNaN(now.getTime())) throw new Error(`bad --at ${values.at}\n${USAGE}`);
+  return {
+    dataRoot: path.resolve(values.out!),
+    now,
+    hourPath: values['hour-path'] ?? jstHourPath(now),
+    sourceKeys: values.sources?.split(',').filter(Boolean) ?? null,
+    dryRun: values['dry-run']!,
+    offline: values.offline ?? null,
+    alerts: values.alerts ?? null,
+  };
 }
 
-async function writeJsonFile(filepath: string, data: any) {
-  await fs.mkdir(path.dirname(filepath), { recursive: true });
-  await fs.writeFile(filepath, JSON.stringify(data, null, 2), 'utf-8');
+// Every enabled source, or exactly the listed ones (disabled or not)
+function selectSources(all: SourceDef[], keys: string[] | null) {
+  if (!keys) return enabledSources(all);
+  const byKey = new Map(all.map((s) => [s.key, s]));
+  const unknown = keys.filter((k) => !byKey.has(k));
+  if (unknown.length) throw new Error(`unknown source ${unknown.join(', ')}; available: ${all.map((s) => s.key).join(', ')}`);
+  return keys.map((k) => byKey.get(k)!);
 }
 
 async function run() {
-  const { dir, latestDir, hourPath, generatedAt } = buildHourlyDirPathJST();
-
-  const urls = {
-    gpActive: `${CEL_BASE}/NORAD/elements/gp.php?GROUP=active&FORMAT=json`,
-    gpActiveTle: `${CEL_BASE}/NORAD/elements/gp.php?GROUP=active&FORMAT=tle`,
-    // SATCAT JSON can be finicky; CSV endpoint is reliable
-    satcatOnOrbitPayloadsCsv: `${CEL_BASE}/satcat/records.php?ONORBIT=1&PAYLOADS=1&FORMAT=CSV`,
-    supgpSpacex: `${CEL_BASE}/NORAD/supplemental/sup-gp.php?SOURCE=SpaceX-E&FORMAT=json`,
-  } as const;
-
-  console.log('Fetching CelesTrak datasets...');
-  const [gpActive, gpActiveTle, satcatCsv, supgp] = await Promise.all([
-    fetchJsonWithRetry(urls.gpActive, 2, 1000),
-    (async () => {
-      // fetch TLE as text
-      const url = urls.gpActiveTle;
-      for (let i = 0; i < 3; i++) {
-        try {
-          const res = await fetch(url, { headers: { 'User-Agent': 'crisis-watcher-satellite/0.1' }});
-          if (!res.ok) throw new Error(`HTTP ${res.status}`);
-          return await res.text();
-        } catch (e) {
-          if (i === 2) {
-            console.warn(`fetch error (${url}):`, (e as Error).message);
-            return null;
-          }
-          await sleep(1000 * (i + 1));
-        }
-      }
-      return null;
-    })(),
-    (async () => {
-      // fetch CSV as text with basic retry
-      const url = urls.satcatOnOrbitPayloadsCsv;
-      for (let i = 0; i < 3; i++) {
-        try {
-          const res = await fetch(url, { headers: { 'User-Agent': 'crisis-watcher-satellite/0.1' }});
-          if (!res.ok) throw new Error(`HTTP ${res.status}`);
-          return await res.text();
-        } catch (e) {
-          if (i === 2) {
-            console.warn(`fetch error (${url}):`, (e as Error).message);
-            return null;
-          }
-          await sleep(1000 * (i + 1));
-        }
-      }
-      return null;
-    })(),
-    fetchJsonWithRetry(urls.supgpSpacex, 2, 1000),
-  ]);
+  const opts = options();
+  // Space-Track needs an account; without SPACETRACK_USERNAME/PASSWORD only CelesTrak is polled
+  const spaceTrackConfig = spaceTrackConfigFromEnv();
+  const spaceTrack = spaceTrackConfig ? createSpaceTrackClient(spaceTrackConfig) : null;
+  // SP3 precise orbits need an Earthdata token for CDDIS, or SP3_BASE_URL for a mirror
+  const sp3Config = sp3ConfigFromEnv();
+  const sources = selectSources(
+    [...SOURCES, ...(spaceTrack ? spaceTrackSources(spaceTrack) : []), ...(sp3Config ? sp3Sources(sp3Config) : [])],
+    opts.sourceKeys
+  );
+  const transport = !opts.offline
+    ? networkTransport
+    : /^https?:\/\//.test(opts.offline)
+      ? mirrorTransport(opts.offline)
+      : fixtureTransport(path.resolve(opts.offline));
 
-  // Persist raw datasets under the hour directory
-  const gpPath = path.join(dir, 'gp_active.json');
-  const gpTlePath = path.join(dir, 'gp_active.tle');
-  const satcatPath = path.join(dir, 'satcat_onorbit_payloads.csv');
-  const supgpPath = path.join(dir, 'supgp_spacex.json');
-  if (gpActive) await writeJsonFile(gpPath, gpActive);
-  if (gpActiveTle) await fs.writeFile(gpTlePath, gpActiveTle, 'utf-8');
-  if (satcatCsv) await fs.writeFile(satcatPath, satcatCsv, 'utf-8');
-  if (supgp) await writeJsonFile(supgpPath, supgp);
+  // Group constellations (stale after CONSTELLATION_STALE_DAYS, default 3), predict re-entries
+  // below REENTRY_PERIGEE_KM (default 250, 0 to skip) and, when CONJUNCTION_HOURS is set, screen
+  // close approaches over that many hours within CONJUNCTION_BUDGET_SEC (default 600)
+  const result = await collect({
+    dataRoot: opts.dataRoot,
+    sources,
+    now: opts.now,
+    hourPath: opts.hourPath,
+    transport,
+    dryRun: opts.dryRun,
+    conjunctions: conjunctionConfigFromEnv(),
+    reentries: reentryConfigFromEnv(),
+    constellations: constellationConfigFromEnv(),
+  });
+  await spaceTrack?.logout();
 
-  // Write index.json with meta and file references
-  const meta = {
-    generatedAt,
-    timeZone: 'Asia/Tokyo',
-    hourPath,
-    sources: urls,
-    counts: {
-      gpActive: Array.isArray(gpActive) ? gpActive.length : 0,
-      gpActiveTleLines: typeof gpActiveTle === 'string' ? Math.max(0, gpActiveTle.split(/\r?\n/).filter(Boolean).length) : 0,
-      satcatOnOrbitPayloads: typeof satcatCsv === 'string' ? Math.max(0, satcatCsv.split(/\r?\n/).filter(Boolean).length - 1) : 0,
-      supgpSpacex: Array.isArray(supgp) ? supgp.length : 0,
-    },
-    files: {
-      gpActive: 'gp_active.json',
-      gpActiveTle: 'gp_active.tle',
-      satcatOnOrbitPayloads: 'satcat_onorbit_payloads.csv',
-      supgpSpacex: 'supgp_spacex.json',
-    },
-  };
-  await writeJsonFile(path.join(dir, 'index.json'), meta);
-  console.log(`wrote snapshot: ${dir}`);
-
-  // Update latest mirror
-  await fs.mkdir(latestDir, { recursive: true });
-  await writeJsonFile(path.join(latestDir, 'index.json'), meta);
-  if (gpActive) await writeJsonFile(path.join(latestDir, 'gp_active.json'), gpActive);
-  if (gpActiveTle) await fs.writeFile(path.join(latestDir, 'gp_active.tle'), gpActiveTle, 'utf-8');
-  if (satcatCsv) await fs.writeFile(path.join(latestDir, 'satcat_onorbit_payloads.csv'), satcatCsv, 'utf-8');
-  if (supgp) await writeJsonFile(path.join(latestDir, 'supgp_spacex.json'), supgp);
-  console.log(`updated latest: ${latestDir}`);
+  if (opts.dryRun) {
+    console.log(`dry run: would write ${result.files.join(', ')} to ${result.dir} and ${result.latestDir}`);
+    for (const [key, s] of Object.entries(result.index.status)) console.log(`  ${key}: ${s.status} (${result.index.counts[key]})`);
+  }
+  // Alerts look at latest/ as just written; no rules file, no alerts
+  if (!opts.dryRun) {
+    const rulesFile = path.resolve(opts.alerts ?? DEFAULT_ALERT_RULES);
+    const rules = await loadAlertRules(rulesFile);
+    if (!rules && opts.alerts) throw new Error(`no alert rules at ${rulesFile}`);
+    if (rules) await runAlerts(rules, opts.dataRoot);
+  }
+  if (result.failedRequired.length) {
+    console.error(`required sources failed: ${result.failedRequired.join(', ')}`);
+    process.exitCode = 1;
+  }
 }
 
 run().catch((e) => {
@@ -1 +0,0 @@
-console.log('hello from ts');
@@ -0,0 +1,265 @@
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import http from 'http';
+import path from 'path';
+import { after, before, describe, mock, test } from 'node:test';
+import { AlertRules, AlertSnapshot, WebhookPayload, evaluateAlerts, loadAlertRules, mergeAlerts, runAlerts, webhookNotifier } from '../lib/alerts';
+import { collect, fixtureTransport } from '../lib/collect';
+import { loadNormalized } from '../lib/snapshot';
+import { FIXTURES, FIXTURE_SOURCES, mockServer, quiet, tempDir } from './helpers';
+import type { Alert, AlertsFile, SnapshotChange } from '../../src/shared/schema';
+
+const GENERATED_AT = '2025-09-28T12:00:00.000Z';
+
+// Japan and its waters; STARLINK-1008 crosses it twice in the 12 hours after GENERATED_AT
+const JAPAN = { type: 'Polygon', coordinates: [[[128, 30], [146, 30], [146, 46], [128, 46], [128, 30]]] };
+
+const change = (kind: SnapshotChange['kind'], noradId: number, overrides: Partial<SnapshotChange> = {}): SnapshotChange => ({
+  kind,
+  noradId,
+  name: '',
+  cosparId: null,
+  objectType: 'PAYLOAD',
+  launchDate: null,
+  decayDate: null,
+  previousEpoch: null,
+  epoch: null,
+  deltaSemiMajorAxisKm: null,
+  deltaInclinationDeg: null,
+  deltaEccentricity: null,
+  reasons: [],
+  ...overrides,
+});
+
+// Webhook bodies the receiver was sent
+function receiver(server: ReturnType<typeof mockServer>, status = () => 200) {
+  const bodies: WebhookPayload[] = [];
+  server.handle((req: http.IncomingMessage, res: http.ServerResponse) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const code = status();
+      if (code === 200) bodies.push(JSON.parse(body) as WebhookPayload);
+      res.writeHead(code).end();
+    });
+  });
+  return bodies;
+}
+
+describe('alert rules', () => {
+  let root: string;
+  const write = async (name: string, data: unknown) => {
+    await fs.writeFile(path.join(root, name), JSON.stringify(data), 'utf-8');
+    return path.join(root, name);
+  };
+
+  before(async () => {
+    root = await tempDir();
+  });
+  after(() => fs.rm(root, { recursive: true, force: true }));
+
+  test('a missing rules file means no alerts', async () => {
+    assert.equal(await loadAlertRules(path.join(root, 'none.json')), null);
+  });
+
+  test('reads an area file relative to the rules file and defaults to the feed', async () => {
+    await write('japan.geojson', { type: 'Feature', geometry: JAPAN });
+    const rules = await loadAlertRules(await write('rules.json', { rules: [{ id: 'japan', watch: { area: 'japan.geojson' }, when: 'pass' }] }));
+    assert.equal(rules?.rules[0].geometry?.type, 'Polygon');
+    assert.deepEqual(rules?.notifiers, [{ type: 'feed' }]);
+  });
+
+  test('rejects malformed rules', async () => {
+    const bad = [
+      [{ id: 'a', watch: {}, when: 'pass' }, /pass needs an area/],
+      [{ id: 'a', watch: { area: JAPAN }, when: 'stale' }, /area only applies to pass/],
+      [{ id: 'a', watch: { constellation: 'nope' }, when: 'stale' }, /unknown constellation nope/],
+      [{ id: 'a', watch: {}, when: 'soon' }, /when must be one of/],
+    ] as const;
+    for (const [rule, message] of bad) {
+      await assert.rejects(loadAlertRules(await write('bad.json', { rules: [rule] })), message);
+    }
+  });
+
+  test('rejects unknown notifiers and a json notifier path outside the data root', async () => {
+    await assert.rejects(loadAlertRules(await write('bad.json', { rules: [], notifiers: [{ type: 'email' }] })), /unknown notifier email/);
+    const json = await write('bad.json', { rules: [], notifiers: [{ type: 'json', path: '../alerts.json' }] });
+    await assert.rejects(loadAlertRules(json), /json notifier path/);
+  });
+
+  test('skips alerting with a warning when there is no snapshot', async (t) => {
+    const warn = t.mock.method(console, 'warn', () => {});
+    const rules: AlertRules = { rules: [], notifiers: [{ type: 'feed' }] };
+    assert.equal(await runAlerts(rules, root), null);
+    assert.match(String(warn.mock.calls[0].arguments[0]), /no snapshot/);
+    await assert.rejects(fs.access(path.join(root, 'alerts.json')));
+    await assert.rejects(fs.access(path.join(root, 'alerts.xml')));
+  });
+});
+
+describe('alerts on a recorded snapshot', () => {
+  let root: string;
+  let snapshot: AlertSnapshot;
+  const server = mockServer();
+  let base: string;
+  type Rule = AlertRules['rules'][number];
+  const rule = (r: Omit<Rule, 'geometry'>, geometry: Rule['geometry'] = null): Rule => ({ ...r, geometry });
+
+  before(async () => {
+    quiet();
+    root = await tempDir();
+    base = await server.start();
+    await collect({
+      dataRoot: root,
+      sources: FIXTURE_SOURCES,
+      now: new Date(GENERATED_AT),
+      hourPath: '2025/09/28/21',
+      transport: fixtureTransport(FIXTURES),
+      dryRun: false,
+      conjunctions: null,
+      reentries: null,
+      constellations: { staleDays: 3 },
+    });
+    snapshot = { ...(await loadNormalized(path.join(root, 'latest'))), changes: null };
+  });
+  after(async () => {
+    mock.restoreAll();
+    await server.stop();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  test('stale element sets of a watched constellation', () => {
+    const alerts = evaluateAlerts([rule({ id: 'qzss', watch: { constellation: 'qzss' }, when: 'stale', days: 2 })], snapshot, GENERATED_AT);
+    assert.deepEqual(alerts.map((a) => a.id), ['qzss:49336:2025-09-25T19:38:47.965Z']);
+    // GSAT0101 is as old but not QZSS
+    const all = evaluateAlerts([rule({ id: 'all', watch: {}, when: 'stale', days: 2 })], snapshot, GENERATED_AT);
+    assert.deepEqual(all.map((a) => a.noradId).sort(), [37846, 49336]);
+  });
+
+  test('maneuvers and new objects from the changes of the collection', () => {
+    const changes = [
+      change('maneuver', 25544, { epoch: '2025-09-28T06:00:00.000Z', deltaSemiMajorAxisKm: 1.5, reasons: ['semi_major_axis'] }),
+      change('maneuver', 44714, { epoch: '2025-09-28T06:00:00.000Z', reasons: ['inclination'] }),
+      change('appeared', 32275),
+      change('appeared', 25544),
+    ];
+    const alerts = evaluateAlerts(
+      [
+        rule({ id: 'iss', watch: { noradIds: [25544] }, when: 'maneuver' }),
+        rule({ id: 'cis', watch: { owner: ['CIS'] }, when: 'new_object' }),
+      ],
+      { ...snapshot, changes },
+      GENERATED_AT
+    );
+    assert.deepEqual(alerts.map((a) => [a.id, a.kind]), [
+      ['iss:25544:2025-09-28T06:00:00.000Z', 'maneuver'],
+      ['cis:32275:new', 'new_object'],
+    ]);
+    assert.match(alerts[0].detail, /semi-major axis 1\.50 km/);
+    // the first collection has nothing to compare
+    assert.deepEqual(evaluateAlerts([rule({ id: 'iss', watch: { noradIds: [25544] }, when: 'maneuver' })], snapshot, GENERATED_AT), []);
+  });
+
+  test('passes over an area within the window', () => {
+    const geometry = { type: 'Polygon' as const, coordinates: JAPAN.coordinates };
+    const pass = (hours: number) =>
+      evaluateAlerts([rule({ id: 'japan', watch: { noradIds: [44714] }, when: 'pass', hours }, geometry)], snapshot, GENERATED_AT);
+    const alerts = pass(12);
+    assert.deepEqual(alerts.map((a) => a.id), ['japan:44714:2025-09-28T12:11Z', 'japan:44714:2025-09-28T13:52Z']);
+    assert.ok(alerts.every((a) => a.time >= GENERATED_AT && a.until! > a.time && a.kind === 'pass'));
+    assert.deepEqual(pass(1).map((a) => a.id), ['japan:44714:2025-09-28T12:11Z']);
+  });
+
+  test('a pass predicted again from newer elements is not raised again, even in another minute', () => {
+    const geometry = { type: 'Polygon' as const, coordinates: JAPAN.coordinates };
+    const rules = [rule({ id: 'japan', watch: { noradIds: [44714] }, when: 'pass' }, geometry)];
+    const first = evaluateAlerts(rules, snapshot, GENERATED_AT);
+    // move the satellite back along its orbit so it enters the area just into the next minute
+    const entry = new Date(first[0].time);
+    const lateSec = 60 - entry.getUTCSeconds() - entry.getUTCMilliseconds() / 1000 + 5;
+    const el = snapshot.elements.find((e) => e.noradId === 44714)!;
+    const meanAnomalyDeg = el.meanAnomalyDeg - (el.meanMotionRevPerDay * 360 * lateSec) / 86400;
+    const elements = snapshot.elements.map((e) => (e === el ? { ...e, meanAnomalyDeg } : e));
+    const later = '2025-09-28T12:05:00.000Z';
+    const again = evaluateAlerts(rules, { ...snapshot, elements }, later);
+    assert.equal(again.length, 2);
+    assert.notEqual(again[0].id, first[0].id);
+
+    const { file } = mergeAlerts(null, first, GENERATED_AT);
+    assert.deepEqual(mergeAlerts(file, again, later).raised, []);
+    // the other pass does not overlap the first one
+    const { file: onlyFirst } = mergeAlerts(null, first.slice(0, 1), GENERATED_AT);
+    assert.deepEqual(mergeAlerts(onlyFirst, again, later).raised.map((a) => a.time), [again[1].time]);
+  });
+
+  test('an alert is raised once and dropped after the retention period', () => {
+    const alert = (id: string, raisedAt: string): Alert => ({
+      id,
+      rule: 'r',
+      kind: 'stale',
+      noradId: 1,
+      name: '',
+      time: raisedAt,
+      raisedAt,
+      title: id,
+      detail: '',
+    });
+    const first = mergeAlerts(null, [alert('a', GENERATED_AT)], GENERATED_AT);
+    assert.deepEqual(first.raised.map((a) => a.id), ['a']);
+    const later = '2025-09-28T18:00:00.000Z';
+    const second = mergeAlerts(first.file, [alert('a', later), alert('b', later)], later);
+    assert.deepEqual(second.raised.map((a) => a.id), ['b']);
+    assert.deepEqual(second.file.records.map((a) => [a.id, a.raisedAt]), [['b', later], ['a', GENERATED_AT]]);
+    const month = mergeAlerts(second.file, [], '2025-10-28T13:00:00.000Z');
+    assert.deepEqual(month.file.records.map((a) => a.id), ['b']);
+  });
+
+  test('notifies a webhook, the JSON file and the feed of new alerts only', async () => {
+    const bodies = receiver(server);
+    const rules: AlertRules = {
+      rules: [rule({ id: 'qzss', watch: { constellation: 'qzss' }, when: 'stale', days: 2 })],
+      notifiers: [{ type: 'feed' }, { type: 'webhook', urlEnv: 'ALERT_WEBHOOK_URL' }],
+    };
+    const env = { ALERT_WEBHOOK_URL: `${base}/hook` };
+    const first = (await runAlerts(rules, root, env))!;
+    assert.equal(first.raised.length, 1);
+    assert.equal(server.requests[0].method, 'POST');
+    assert.equal(server.requests[0].headers['content-type'], 'application/json');
+    assert.equal(bodies.length, 1);
+    assert.equal(bodies[0].alerts[0].id, 'qzss:49336:2025-09-25T19:38:47.965Z');
+    assert.match(bodies[0].text, /QZS-1R/);
+
+    const second = (await runAlerts(rules, root, env))!;
+    assert.equal(second.raised.length, 0);
+    assert.equal(bodies.length, 1);
+
+    const file = JSON.parse(await fs.readFile(path.join(root, 'alerts.json'), 'utf-8')) as AlertsFile;
+    assert.equal(file.schema, 'alerts');
+    assert.deepEqual(file.records.map((a) => a.noradId), [49336]);
+    const feed = await fs.readFile(path.join(root, 'alerts.xml'), 'utf-8');
+    assert.match(feed, /<feed xmlns="http:\/\/www\.w3\.org\/2005\/Atom">/);
+    assert.equal(feed.match(/<entry>/g)?.length, 1);
+    assert.match(feed, /<title>QZS-1R \(MICHIBIKI-1R\) \(49336\): element set 2\.7 days old<\/title>/);
+  });
+
+  test('a json notifier writes its file and tells new alerts from it', async () => {
+    const rules: AlertRules = {
+      rules: [rule({ id: 'all', watch: {}, when: 'stale', days: 2 })],
+      notifiers: [{ type: 'json', path: 'alerts/stale.json' }],
+    };
+    assert.equal((await runAlerts(rules, root))!.raised.length, 2);
+    const file = JSON.parse(await fs.readFile(path.join(root, 'alerts', 'stale.json'), 'utf-8')) as AlertsFile;
+    assert.deepEqual(file.records.map((a) => a.noradId).sort(), [37846, 49336]);
+    assert.equal((await runAlerts(rules, root))!.raised.length, 0);
+  });
+
+  test('retries a webhook receiver that fails', async () => {
+    let n = 0;
+    const bodies = receiver(server, () => (++n < 2 ? 503 : 200));
+    const alerts = evaluateAlerts([rule({ id: 'qzss', watch: { constellation: 'qzss' }, when: 'stale', days: 2 })], snapshot, GENERATED_AT);
+    const { file } = mergeAlerts(null, alerts, GENERATED_AT);
+    await webhookNotifier(`${base}/hook`, 2, 1)(file.records, file);
+    assert.equal(server.requests.length, 2);
+    assert.equal(bodies.length, 1);
+  });
+});
@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import fs from 'fs/promises';
+import path from 'path';
+import { after, before, describe, test } from 'node:test';
+import { FIXTURES, tempDir } from './helpers';
+import type { SnapshotIndex } from '../../src/shared/schema';
+
+const SCRIPT = path.join(__dirname, '..', 'satellite.ts');
+const FIXTURE_KEYS = 'gpActive,gpActiveTle,satcatOnOrbitPayloads,supgpSpacex';
+
+// The collector as `npm run satellite -- ...` runs it, without derived screening that is slow
+function satellite(...args: string[]) {
+  return spawnSync(process.execPath, ['--import', 'tsx', SCRIPT, ...args], {
+    encoding: 'utf-8',
+    env: { ...process.env, CONJUNCTION_HOURS: '0', REENTRY_PERIGEE_KM: '0', ALERT_WEBHOOK_URL: '' },
+    timeout: 60000,
+  });
+}
+
+describe('collector CLI', () => {
+  let root: string;
+  before(async () => {
+    root = await tempDir();
+  });
+  after(() => fs.rm(root, { recursive: true, force: true }));
+
+  test('collects offline into the given root and hour', async () => {
+    const run = satellite('--offline', FIXTURES, '--out', root, '--hour-path', '2025/09/28/03', '--sources', FIXTURE_KEYS);
+    assert.equal(run.status, 0, run.stderr);
+    const index: SnapshotIndex = JSON.parse(await fs.readFile(path.join(root, '2025/09/28/03/index.json'), 'utf-8'));
+    // --hour-path alone dates the collection at the start of the hour
+    assert.equal(index.generatedAt, '2025-09-27T18:00:00.000Z');
+    assert.deepEqual(Object.keys(index.sources), FIXTURE_KEYS.split(','));
+    await fs.access(path.join(root, 'latest', 'gp_elements.bin'));
+  });
+
+  test('evaluates the alert rules given with --alerts', async () => {
+    const rules = path.join(__dirname, '..', '..', 'alert-rules.example.json');
+    const run = satellite('--offline', FIXTURES, '--out', root, '--hour-path', '2025/09/28/06', '--sources', FIXTURE_KEYS, '--alerts', rules);
+    assert.equal(run.status, 0, run.stderr);
+    assert.match(run.stdout, /alerts: \d+ new/);
+    await fs.access(path.join(root, 'alerts.json'));
+    await fs.access(path.join(root, 'alerts.xml'));
+    const missing = satellite('--offline', FIXTURES, '--out', root, '--sources', FIXTURE_KEYS, '--alerts', path.join(root, 'none.json'));
+    assert.match(missing.stderr, /no alert rules at/);
+  });
+
+  test('a dry run lists what it would write', async () => {
+    const run = satellite('--offline', FIXTURES, '--out', root, '--at', '2025-09-28T03:30:00Z', '--sources', FIXTURE_KEYS, '--dry-run');
+    assert.equal(run.status, 0, run.stderr);
+    assert.match(run.stdout, /dry run: would write .*gp_elements\.json/);
+    await assert.rejects(fs.access(path.join(root, '2025/09/28/12')));
+  });
+
+  test('exits non-zero when a required source is unavailable', () => {
+    const run = satellite('--offline', path.join(FIXTURES, 'rejected'), '--out', root, '--sources', 'gpActive', '--dry-run');
+    assert.equal(run.status, 1);
+    assert.match(run.stderr, /required sources failed: gpActive/);
+  });
+
+  test('rejects bad options', () => {
+    assert.match(satellite('--hour-path', '2025/13/01/00', '--dry-run').stderr, /bad --hour-path/);
+    assert.match(satellite('--sources', 'nope', '--dry-run').stderr, /unknown source nope; available: gpActive/);
+  });
+});
@@ -0,0 +1,164 @@
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import path from 'path';
+import { after, before, describe, mock, test } from 'node:test';
+import { CollectOptions, buildIndex, collect, fixtureTransport, hourPathTime, jstHourPath } from '../lib/collect';
+import { FIXTURES, FIXTURE_SOURCES, fixture, quiet, tempDir } from './helpers';
+import { decodeColumnar } from '../../src/shared/columnar';
+import type { GpElement, NormalizedFile, SatObject, SnapshotIndex, SnapshotManifest } from '../../src/shared/schema';
+
+describe('JST hour paths', () => {
+  test('files a UTC time under its JST hour, across the date line', () => {
+    assert.equal(jstHourPath(new Date('2025-09-27T18:19:50Z')), '2025/09/28/03');
+    assert.equal(jstHourPath(new Date('2025-12-31T14:59:59Z')), '2025/12/31/23');
+    assert.equal(jstHourPath(new Date('2025-12-31T15:00:00Z')), '2026/01/01/00');
+  });
+
+  test('maps an hour path back to the start of its hour', () => {
+    assert.equal(hourPathTime('2025/09/28/03')?.toISOString(), '2025-09-27T18:00:00.000Z');
+    assert.equal(hourPathTime('2026/01/01/00')?.toISOString(), '2025-12-31T15:00:00.000Z');
+  });
+
+  test('rejects malformed and impossible hour paths', () => {
+    for (const bad of ['2025/9/28/03', '2025/02/30/00', '2025/09/28/24', '2025-09-28T03', '']) {
+      assert.equal(hourPathTime(bad), null, bad);
+    }
+  });
+});
+
+test('index.json lists sources and derived products under their keys', () => {
+  const [gp, satcat] = FIXTURE_SOURCES.filter((s) => s.key === 'gpActive' || s.key === 'satcatOnOrbitPayloads');
+  const index = buildIndex(
+    [
+      { def: gp, status: { status: 'ok', required: true }, count: 6, body: '[]', rejected: null },
+      { def: satcat, status: { status: 'invalid', required: false, error: 'bad' }, count: 0, body: null, rejected: 'x' },
+    ],
+    [{ key: 'objects', file: 'objects.json', count: 6 }],
+    { generatedAt: '2025-09-27T18:19:50.380Z', hourPath: '2025/09/28/03', cursors: { a: 'b' } }
+  );
+  assert.equal(index.hourPath, '2025/09/28/03');
+  assert.equal(index.timeZone, 'Asia/Tokyo');
+  assert.deepEqual(index.counts, { gpActive: 6, satcatOnOrbitPayloads: 0, objects: 6 });
+  // the rejected SATCAT body was not written, so it has no file
+  assert.deepEqual(index.files, { gpActive: 'gp_active.json', objects: 'objects.json' });
+  assert.equal(index.sources.gpActive, gp.url);
+  assert.equal(index.status.satcatOnOrbitPayloads.status, 'invalid');
+  assert.deepEqual(index.cursors, { a: 'b' });
+});
+
+describe('collection from recorded fixtures', () => {
+  let root: string;
+  const readJson = async <T>(...parts: string[]) => JSON.parse(await fs.readFile(path.join(root, ...parts), 'utf-8')) as T;
+  const options = (overrides: Partial<CollectOptions>): CollectOptions => ({
+    dataRoot: root,
+    sources: FIXTURE_SOURCES,
+    now: new Date('2025-09-27T18:19:50.380Z'),
+    hourPath: '2025/09/28/03',
+    transport: fixtureTransport(FIXTURES),
+    dryRun: false,
+    conjunctions: null,
+    reentries: { perigeeKm: 250, horizonDays: 365 },
+    constellations: { staleDays: 3 },
+    ...overrides,
+  });
+
+  before(async () => {
+    quiet();
+    root = await tempDir();
+  });
+  after(async () => {
+    mock.restoreAll();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  test('a dry run writes nothing', async () => {
+    const result = await collect(options({ dryRun: true }));
+    assert.deepEqual(await fs.readdir(root), []);
+    assert.ok(result.files.includes('gp_elements.json'));
+    assert.equal(result.index.status.gpActive.status, 'ok');
+  });
+
+  test('writes the hour directory and mirrors it to latest/', async () => {
+    const result = await collect(options({}));
+    assert.deepEqual(result.failedRequired, []);
+    assert.equal(result.dir, path.join(root, '2025', '09', '28', '03'));
+    for (const file of result.files) {
+      const [hour, latest] = await Promise.all([
+        fs.readFile(path.join(result.dir, file)),
+        fs.readFile(path.join(root, 'latest', file)),
+      ]);
+      assert.ok(hour.equals(latest), file);
+    }
+    assert.equal(await fs.readFile(path.join(result.dir, 'gp_active.tle'), 'utf-8'), await fixture('gp_active.tle'));
+
+    const index = await readJson<SnapshotIndex>('latest', 'index.json');
+    assert.equal(index.generatedAt, '2025-09-27T18:19:50.380Z');
+    assert.equal(index.counts.gpActive, 6);
+    assert.equal(index.counts.gpElements, 6);
+    assert.equal(index.files.constellations, 'constellations.json');
+    const manifest = await readJson<SnapshotManifest>('manifest.json');
+    assert.deepEqual(manifest.hours.map((h) => h.hourPath), ['2025/09/28/03']);
+    assert.equal((await fs.readdir(path.join(root, 'history'))).filter((f) => f.endsWith('.jsonl')).length, 6);
+  });
+
+  test('the columnar snapshot decodes to the normalized elements', async () => {
+    const bin = await fs.readFile(path.join(root, 'latest', 'gp_elements.bin'));
+    const snap = decodeColumnar(new Uint8Array(bin).buffer);
+    const elements = await readJson<NormalizedFile<GpElement>>('latest', 'gp_elements.json');
+    const objects = await readJson<NormalizedFile<SatObject>>('latest', 'objects.json');
+    assert.equal(snap.count, elements.records.length);
+    elements.records.forEach((el, i) => {
+      const obj = objects.records.find((o) => o.noradId === el.noradId);
+      assert.equal(snap.noradId[i], el.noradId);
+      assert.equal(snap.epochMs[i], Date.parse(el.epoch));
+      assert.equal(snap.meanMotionRevPerDay[i], el.meanMotionRevPerDay);
+      assert.equal(snap.inclinationDeg[i], Math.fround(el.inclinationDeg));
+      assert.equal(snap.elementSetNo[i], el.elementSetNo);
+      assert.equal(snap.strings.name[i], obj?.name);
+      assert.equal(snap.strings.cosparId[i], obj?.cosparId);
+    });
+  });
+
+  test('quarantines a rejected body and keeps the previous latest/ file', async () => {
+    // the recorded SATCAT error page stands in for this hour's SATCAT; the rest is unchanged
+    const rejected = path.join(FIXTURES, 'rejected');
+    const fixtures = fixtureTransport(FIXTURES);
+    const result = await collect(
+      options({
+        now: new Date('2025-09-28T00:10:00.000Z'),
+        hourPath: '2025/09/28/09',
+        transport: (def, ctx) => (def.key === 'satcatOnOrbitPayloads' ? fixtureTransport(rejected)(def, ctx) : fixtures(def, ctx)),
+      })
+    );
+    const index = await readJson<SnapshotIndex>('2025', '09', '28', '09', 'index.json');
+    assert.equal(index.status.satcatOnOrbitPayloads.status, 'invalid');
+    assert.equal(index.status.satcatOnOrbitPayloads.quarantine, 'quarantine/satcat_onorbit_payloads.csv');
+    assert.equal(index.files.satcatOnOrbitPayloads, undefined);
+    assert.equal(
+      await fs.readFile(path.join(result.dir, 'quarantine', 'satcat_onorbit_payloads.csv'), 'utf-8'),
+      await fixture('rejected/satcat_onorbit_payloads.csv')
+    );
+    await assert.rejects(fs.access(path.join(result.dir, 'satcat_onorbit_payloads.csv')));
+    assert.equal(
+      await fs.readFile(path.join(root, 'latest', 'satcat_onorbit_payloads.csv'), 'utf-8'),
+      await fixture('satcat_onorbit_payloads.csv')
+    );
+    // the previous collection is diffed: same elements, so nothing changed
+    const changes = await readJson<{ records: unknown[]; previous: { hourPath: string } }>('latest', 'changes.json');
+    assert.equal(changes.previous.hourPath, '2025/09/28/03');
+    assert.deepEqual(changes.records, []);
+    const manifest = await readJson<SnapshotManifest>('manifest.json');
+    assert.deepEqual(manifest.hours.map((h) => h.hourPath), ['2025/09/28/03', '2025/09/28/09']);
+  });
+
+  test('reports a missing required source', async () => {
+    const empty = await tempDir();
+    try {
+      const result = await collect(options({ transport: fixtureTransport(empty), dryRun: true }));
+      assert.deepEqual(result.failedRequired, ['gpActive', 'gpActiveTle']);
+      assert.equal(result.index.status.gpActive.status, 'unavailable');
+    } finally {
+      await fs.rm(empty, { recursive: true, force: true });
+    }
+  });
+});
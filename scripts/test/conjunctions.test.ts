@@ -0,0 +1,105 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { propagate, twoline2satrec } from 'satellite.js';
+import { ConjunctionConfig, ScreenTarget, conjunctionConfigFromEnv, screenConjunctions } from '../lib/conjunctions';
+import { formatTle } from '../../src/shared/tle';
+
+const START = Date.parse('2025-09-28T00:00:00Z');
+const CONFIG: ConjunctionConfig = { hours: 1, thresholdKm: 1, stepSec: 60, budgetSec: 600 };
+
+// Circular polar orbits differing only in the node meet over the poles twice an orbit, and
+// SGP4's symmetry about the Earth's axis puts both at the pole at the same instant
+function polar(noradId: number, raanDeg: number, meanAnomalyDeg: number, meanMotionRevPerDay = 15.5): ScreenTarget {
+  return {
+    noradId,
+    name: `SAT ${noradId}`,
+    ...formatTle({
+      noradId,
+      cosparId: null,
+      epochMs: START,
+      meanMotionRevPerDay,
+      eccentricity: 0.0001,
+      inclinationDeg: 90,
+      raanDeg,
+      argPerigeeDeg: 0,
+      meanAnomalyDeg,
+      bstar: 0,
+      meanMotionDot: 0,
+      meanMotionDdot: 0,
+    }),
+  };
+}
+
+// Closest approach by sampling every millisecond around a guess
+function sampledMinimum(a: ScreenTarget, b: ScreenTarget, around: number) {
+  const ra = twoline2satrec(a.l1, a.l2);
+  const rb = twoline2satrec(b.l1, b.l2);
+  let best = { t: NaN, d: Infinity };
+  for (let t = around - 2000; t <= around + 2000; t++) {
+    const pa = propagate(ra, new Date(t)).position as { x: number; y: number; z: number };
+    const pb = propagate(rb, new Date(t)).position as { x: number; y: number; z: number };
+    const d = Math.hypot(pa.x - pb.x, pa.y - pb.y, pa.z - pb.z);
+    if (d < best.d) best = { t, d };
+  }
+  return best;
+}
+
+describe('conjunction screening', () => {
+  test('is off unless a window is configured', () => {
+    assert.equal(conjunctionConfigFromEnv({}), null);
+    assert.equal(conjunctionConfigFromEnv({ CONJUNCTION_HOURS: '0' }), null);
+    assert.deepEqual(conjunctionConfigFromEnv({ CONJUNCTION_HOURS: '6', CONJUNCTION_BUDGET_SEC: '120' }), {
+      hours: 6,
+      thresholdKm: 1,
+      stepSec: 60,
+      budgetSec: 120,
+    });
+  });
+
+  test('finds crossing orbits over both poles and nothing else', () => {
+    const targets = [
+      polar(1, 0, 80),
+      polar(2, 60, 80),
+      // the same orbit as 2, a few km behind: too slow relative to it to be a conjunction
+      polar(3, 60, 79.95),
+      // a thousand km higher
+      polar(4, 0, 80, 12),
+    ];
+    const { records, end } = screenConjunctions(targets, CONFIG, START);
+    assert.equal(end, START + 3600000);
+    assert.deepEqual(records.map((c) => [c.noradId1, c.noradId2]), [[1, 2], [1, 2]]);
+    // half an orbit apart, at right angles to each other's 7.6 km/s
+    const [north, south] = records.map((c) => Date.parse(c.tca));
+    assert.ok(Math.abs(south - north - 86400000 / 15.5 / 2) < 60000);
+    for (const c of records) {
+      assert.ok(c.missKm < 0.01);
+      assert.ok(Math.abs(c.relativeVelocityKmS - 2 * 7.6 * Math.sin(Math.PI / 6)) < 0.2);
+      assert.deepEqual([c.name1, c.name2], ['SAT 1', 'SAT 2']);
+    }
+  });
+
+  test('refines the time of closest approach to the SGP4 minimum', () => {
+    const a = polar(1, 0, 80);
+    const b = polar(3, 60, 79.95);
+    const { records } = screenConjunctions([a, b], { ...CONFIG, thresholdKm: 10 }, START);
+    assert.ok(records.length >= 1);
+    for (const c of records) {
+      const truth = sampledMinimum(a, b, Date.parse(c.tca));
+      assert.ok(Math.abs(Date.parse(c.tca) - truth.t) <= 20, `TCA ${c.tca} vs ${new Date(truth.t).toISOString()}`);
+      assert.ok(Math.abs(c.missKm - truth.d) < 0.002);
+      assert.ok(c.missKm > 1 && c.missKm < 10);
+    }
+    // under the default 1 km threshold they are not a conjunction
+    assert.deepEqual(screenConjunctions([a, b], CONFIG, START).records, []);
+  });
+
+  test('stops at the step the time budget runs out', () => {
+    let now = 0;
+    // every reading of the clock takes a second
+    const clock = () => (now += 1000);
+    const { records, end } = screenConjunctions([polar(1, 0, 80), polar(2, 60, 80)], { ...CONFIG, budgetSec: 5 }, START, clock);
+    // the deadline is 5 readings after the first: steps 0..5 min run, the one at 6 min does not
+    assert.equal(end, START + 5 * 60000 + 30000);
+    assert.deepEqual(records.map((c) => [c.noradId1, c.noradId2]), [[1, 2]]);
+  });
+});
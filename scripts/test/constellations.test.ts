@@ -0,0 +1,166 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { constellationReport, raanPlanes } from '../lib/constellations';
+import { derivedOrbit } from '../lib/normalize';
+import { ConstellationInput, classifyConstellation } from '../../src/shared/constellations';
+import type { GpElement, SatObject } from '../../src/shared/schema';
+
+const id = (input: ConstellationInput) => classifyConstellation(input)?.id ?? null;
+
+describe('constellation membership', () => {
+  test('classifies the fixture payloads by name', () => {
+    assert.equal(id({ name: 'ISS (ZARYA)', cosparId: '1998-067A', owner: 'ISS', objectType: 'PAYLOAD' }), null);
+    assert.equal(id({ name: 'STARLINK-1008', cosparId: '2019-074B', owner: 'US', objectType: 'PAYLOAD' }), 'starlink');
+    assert.equal(id({ name: 'ONEWEB-0012', cosparId: '2019-010A', owner: 'UK', objectType: 'PAYLOAD' }), 'oneweb');
+    assert.equal(id({ name: 'COSMOS 2433 [GLONASS-M]', cosparId: '2007-052A', owner: 'CIS' }), 'glonass');
+    assert.equal(id({ name: 'GSAT0101 (GALILEO-PFM)', cosparId: '2011-060A', owner: 'ESA' }), 'galileo');
+    assert.equal(id({ name: 'QZS-1R (MICHIBIKI-1R)', cosparId: '2021-096A', owner: 'JPN' }), 'qzss');
+  });
+
+  test('ignores case and the "0 " of three-line element names', () => {
+    assert.equal(id({ name: '0 STARLINK-30000' }), 'starlink');
+    assert.equal(id({ name: 'oneweb-0600' }), 'oneweb');
+  });
+
+  test('rocket bodies and debris are not members, by type or by name', () => {
+    assert.equal(id({ name: 'STARLINK-1008', objectType: 'DEBRIS' }), null);
+    assert.equal(id({ name: 'ONEWEB-0012', objectType: 'ROCKET BODY' }), null);
+    assert.equal(id({ name: 'STARLINK-1008 DEB' }), null);
+    assert.equal(id({ name: 'GLONASS R/B' }), null);
+  });
+
+  test('tells Iridium NEXT from Block 1 by launch designator', () => {
+    assert.equal(id({ name: 'IRIDIUM 106', cosparId: '2017-003A' }), 'iridium-next');
+    assert.equal(id({ name: 'IRIDIUM 180', cosparId: '2019-002E' }), 'iridium-next');
+    assert.equal(id({ name: 'IRIDIUM 33', cosparId: '1997-051C' }), 'iridium');
+    // launches between the two generations, and unknown launches, match neither
+    assert.equal(id({ name: 'IRIDIUM 97', cosparId: '2009-001A' }), null);
+    assert.equal(id({ name: 'IRIDIUM 7' }), null);
+  });
+
+  test('needs owner and orbit for GLONASS satellites named only COSMOS', () => {
+    const cosmos = { name: 'COSMOS 2500', owner: 'CIS', altKm: 19130, inclinationDeg: 64.8 };
+    assert.equal(id(cosmos), 'glonass');
+    assert.equal(id({ ...cosmos, owner: 'US' }), null);
+    assert.equal(id({ ...cosmos, owner: null }), null);
+    assert.equal(id({ ...cosmos, altKm: 800 }), null);
+    assert.equal(id({ ...cosmos, inclinationDeg: 82.5 }), null);
+    assert.equal(id({ name: 'COSMOS 2500', owner: 'CIS' }), null);
+  });
+});
+
+describe('orbital planes by RAAN', () => {
+  // `count` members spread over a degree around `raanDeg`
+  const plane = (raanDeg: number, count: number) => Array.from({ length: count }, (_, i) => (raanDeg + (i / (count - 1) - 0.5) + 360) % 360);
+
+  test('too few members or an even spread make no planes', () => {
+    assert.deepEqual(raanPlanes([]), []);
+    assert.deepEqual(raanPlanes([42]), []);
+    assert.deepEqual(
+      raanPlanes(Array.from({ length: 180 }, (_, i) => i * 2)),
+      []
+    );
+  });
+
+  test('clusters members separated by wide gaps, in RAAN order', () => {
+    const raans = [...plane(250, 5), ...plane(10, 4), ...plane(130, 6)];
+    assert.deepEqual(raanPlanes(raans), [
+      { raanDeg: 10, count: 4 },
+      { raanDeg: 130, count: 6 },
+      { raanDeg: 250, count: 5 },
+    ]);
+  });
+
+  test('keeps a plane that straddles 0 degrees together', () => {
+    const planes = raanPlanes([358, 359, 1, 3, ...plane(180, 3)]);
+    assert.equal(planes.length, 2);
+    // the circular mean of -2, -1, 1 and 3 degrees
+    assert.equal(planes[0].count, 4);
+    assert.ok(Math.abs(planes[0].raanDeg - 0.25) <= 0.05, String(planes[0].raanDeg));
+    assert.deepEqual(planes[1], { raanDeg: 180, count: 3 });
+  });
+
+  test('drops members alone in their plane', () => {
+    assert.deepEqual(raanPlanes([...plane(90, 3), 200, ...plane(300, 2)]), [
+      { raanDeg: 90, count: 3 },
+      { raanDeg: 300, count: 2 },
+    ]);
+  });
+});
+
+describe('constellation report', () => {
+  const GENERATED_AT = '2025-09-28T00:00:00.000Z';
+  const MU_KM3_S2 = 398600.4418;
+
+  function member(noradId: number, name: string, altKm: number, inclinationDeg: number, raanDeg: number, epoch = GENERATED_AT) {
+    const a = 6378.137 + altKm;
+    const meanMotionRevPerDay = (Math.sqrt(MU_KM3_S2 / a ** 3) * 86400) / (2 * Math.PI);
+    const el: GpElement = {
+      noradId,
+      epoch,
+      classification: 'U',
+      meanMotionRevPerDay,
+      eccentricity: 0.0001,
+      inclinationDeg,
+      raanDeg,
+      argPerigeeDeg: 0,
+      meanAnomalyDeg: 0,
+      bstar: 0,
+      meanMotionDot: 0,
+      meanMotionDdot: 0,
+      elementSetNo: 999,
+      revAtEpoch: 1,
+      ...derivedOrbit(meanMotionRevPerDay, 0.0001),
+      from: 'omm',
+      source: 'test',
+    };
+    const object: SatObject = {
+      noradId,
+      cosparId: null,
+      name,
+      objectType: 'PAYLOAD',
+      owner: 'US',
+      launchDate: null,
+      launchSite: null,
+      decayDate: null,
+      rcsM2: null,
+      rcsSize: null,
+      opsStatus: null,
+      sources: ['test'],
+    };
+    return { el, object };
+  }
+
+  test('groups members into altitude and inclination shells with their planes, and flags stale element sets', () => {
+    const list = [
+      // two planes of a 550 km, 53 degree shell
+      ...[0, 1, 2].map((i) => member(60000 + i, `STARLINK-${i}`, 550, 53.05, 40 + i * 0.5)),
+      ...[3, 4].map((i) => member(60000 + i, `STARLINK-${i}`, 551, 53.05, 160 + i * 0.3)),
+      // a polar shell 10 km up, one element set 5 days old
+      member(60005, 'STARLINK-5', 560, 97.6, 10, '2025-09-23T00:00:00.000Z'),
+      member(60006, 'STARLINK-6', 560, 97.6, 11),
+      member(25544, 'ISS (ZARYA)', 420, 51.6, 10),
+    ];
+    const report = constellationReport(
+      list.map((m) => m.el),
+      list.map((m) => m.object),
+      { staleDays: 3 },
+      GENERATED_AT
+    );
+    assert.equal(report.unclassified, 1);
+    assert.equal(report.records.length, 1);
+    const starlink = report.records[0];
+    assert.equal(starlink.id, 'starlink');
+    assert.equal(starlink.count, 7);
+    assert.deepEqual(
+      starlink.shells.map((s) => [s.altitudeKm, s.inclinationDeg, s.count, s.planes.length]),
+      [
+        [550, 53, 5, 2],
+        [560, 98, 2, 1],
+      ]
+    );
+    assert.equal(starlink.planeCount, 3);
+    assert.deepEqual(starlink.staleIds, [60005]);
+    assert.equal(starlink.oldestEpoch, '2025-09-23T00:00:00.000Z');
+  });
+});
@@ -0,0 +1,127 @@
+import assert from 'node:assert/strict';
+import { before, describe, test } from 'node:test';
+import { SnapshotElements, diffSnapshots } from '../lib/diff';
+import { normalizeSnapshot } from '../lib/normalize';
+import { parseCsvRecords, parseOmmJson } from '../lib/parse';
+import { fixture } from './helpers';
+import type { GpElement, SatObject } from '../../src/shared/schema';
+
+const GENERATED_AT = '2025-09-28T00:00:00.000Z';
+const LATER = (iso: string, hours: number) => new Date(Date.parse(iso) + hours * 3600000).toISOString();
+
+describe('snapshot differences', () => {
+  let prev: SnapshotElements;
+  before(async () => {
+    const { objects, gpElements } = normalizeSnapshot(
+      [
+        { source: 'gpActive', schema: 'omm', records: parseOmmJson(await fixture('gp_active.json')) },
+        { source: 'satcat', schema: 'satcat', records: parseCsvRecords(await fixture('satcat_onorbit_payloads.csv')) },
+      ],
+      GENERATED_AT
+    );
+    prev = { elements: gpElements.records, objects: objects.records };
+  });
+
+  // The previous snapshot with some element sets replaced or dropped and objects added
+  const next = (
+    edit: Record<number, (el: GpElement) => GpElement | null>,
+    added: Array<{ el: GpElement; object: SatObject }> = [],
+    objects: (o: SatObject) => SatObject = (o) => o
+  ): SnapshotElements => ({
+    elements: [
+      ...prev.elements.flatMap((el) => {
+        const e = edit[el.noradId] ? edit[el.noradId](el) : el;
+        return e ? [e] : [];
+      }),
+      ...added.map((a) => a.el),
+    ],
+    objects: [...prev.objects.map(objects), ...added.map((a) => a.object)],
+  });
+  const newer = (el: GpElement, hours = 12): GpElement => ({ ...el, epoch: LATER(el.epoch, hours) });
+  const el = (noradId: number) => prev.elements.find((e) => e.noradId === noradId)!;
+  const object = (noradId: number) => prev.objects.find((o) => o.noradId === noradId)!;
+
+  test('an unchanged catalog has no differences', () => {
+    assert.deepEqual(diffSnapshots(prev, prev, GENERATED_AT), []);
+  });
+
+  test('added objects, with launches of the last 30 days flagged', () => {
+    const added = [
+      { el: { ...el(25544), noradId: 65001 }, object: { ...object(25544), noradId: 65001, name: 'NEW-1', launchDate: '2025-09-20' } },
+      { el: { ...el(25544), noradId: 65002 }, object: { ...object(25544), noradId: 65002, name: 'OLD-1', launchDate: '2020-01-01' } },
+    ];
+    const changes = diffSnapshots(prev, next({}, added), GENERATED_AT);
+    assert.deepEqual(
+      changes.map((c) => [c.kind, c.noradId, c.name, c.reasons]),
+      [
+        ['appeared', 65001, 'NEW-1', ['recent_launch']],
+        ['appeared', 65002, 'OLD-1', []],
+      ]
+    );
+    assert.equal(changes[0].epoch, el(25544).epoch);
+  });
+
+  test('removed objects, told decayed when SATCAT has a decay date', () => {
+    const cur = next({ 32275: () => null, 37846: () => null }, [], (o) => (o.noradId === 32275 ? { ...o, decayDate: '2025-09-27' } : o));
+    const changes = diffSnapshots(prev, cur, GENERATED_AT);
+    assert.deepEqual(
+      changes.map((c) => [c.kind, c.noradId, c.reasons, c.previousEpoch]),
+      [
+        ['disappeared', 32275, ['decayed'], el(32275).epoch],
+        ['disappeared', 37846, [], el(37846).epoch],
+      ]
+    );
+    assert.equal(changes[0].name, 'COSMOS 2433');
+  });
+
+  test('changed orbits beyond fit noise and drag are maneuvers', () => {
+    const cur = next({
+      // a 5 km raise
+      25544: (e) => ({ ...newer(e), semiMajorAxisKm: e.semiMajorAxisKm + 5 }),
+      // a plane change and an eccentricity change
+      44714: (e) => ({ ...newer(e), inclinationDeg: e.inclinationDeg + 0.05, eccentricity: e.eccentricity + 0.001 }),
+      // within the noise of successive fits
+      44057: (e) => ({ ...newer(e), semiMajorAxisKm: e.semiMajorAxisKm + 0.5, inclinationDeg: e.inclinationDeg + 0.005 }),
+    });
+    const changes = diffSnapshots(prev, cur, GENERATED_AT);
+    assert.deepEqual(
+      changes.map((c) => [c.kind, c.noradId, c.reasons]),
+      [
+        ['maneuver', 25544, ['semi_major_axis']],
+        ['maneuver', 44714, ['inclination', 'eccentricity']],
+      ]
+    );
+    assert.deepEqual(
+      [changes[0].previousEpoch, changes[0].epoch, changes[0].deltaSemiMajorAxisKm],
+      [el(25544).epoch, LATER(el(25544).epoch, 12), 5]
+    );
+    assert.equal(changes[1].deltaInclinationDeg, 0.05);
+    assert.equal(changes[1].deltaEccentricity, 0.001);
+  });
+
+  test('decay predicted by the mean motion derivative is not a maneuver', () => {
+    // n-dot/2 of 0.005 rev/day^2 lowers a LEO orbit by ~6 km over two days
+    const decaying = { ...el(25544), meanMotionDot: 0.005 };
+    const drag = -(2 / 3) * decaying.semiMajorAxisKm * ((2 * 0.005 * 2) / decaying.meanMotionRevPerDay);
+    const base = next({ 25544: () => decaying });
+    const cur = next({ 25544: () => ({ ...newer(decaying, 48), semiMajorAxisKm: decaying.semiMajorAxisKm + drag }) });
+    assert.ok(drag < -5);
+    assert.deepEqual(diffSnapshots(base, cur, GENERATED_AT), []);
+    // the same drop without the derivative is one
+    const still = next({ 25544: (e) => ({ ...newer(e, 48), semiMajorAxisKm: e.semiMajorAxisKm + drag }) });
+    assert.deepEqual(diffSnapshots(prev, still, GENERATED_AT).map((c) => c.noradId), [25544]);
+  });
+
+  test('an element set no newer than the previous one is not compared', () => {
+    const cur = next({ 25544: (e) => ({ ...e, semiMajorAxisKm: e.semiMajorAxisKm + 50 }) });
+    assert.deepEqual(diffSnapshots(prev, cur, GENERATED_AT), []);
+  });
+
+  test('appeared, maneuver and disappeared are listed in that order', () => {
+    const cur = next(
+      { 25544: (e) => ({ ...newer(e), semiMajorAxisKm: e.semiMajorAxisKm + 5 }), 32275: () => null },
+      [{ el: { ...el(44714), noradId: 65003 }, object: { ...object(44714), noradId: 65003 } }]
+    );
+    assert.deepEqual(diffSnapshots(prev, cur, GENERATED_AT).map((c) => c.kind), ['appeared', 'maneuver', 'disappeared']);
+  });
+});
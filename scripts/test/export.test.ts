@@ -0,0 +1,164 @@
+import assert from 'node:assert/strict';
+import { before, describe, test } from 'node:test';
+import { propagate, twoline2satrec } from 'satellite.js';
+import { parseTle } from '../lib/parse';
+import { ExportOptions, ExportTarget, exportEphemeris, sampleEphemeris } from '../../src/shared/export';
+import { fixture } from './helpers';
+
+const START = Date.parse('2025-09-27T12:00:00Z');
+const OPTS: ExportOptions = { start: START, end: START + 3 * 3600000, stepSec: 60, createdAt: Date.parse('2025-09-27T11:00:00Z') };
+const SAMPLES = 3 * 60 + 1;
+
+// Drag far beyond anything real: SGP4 gives up on it between 6 and 12 hours after START
+const FALLING = [
+  '1 99999U 25999A   25270.50000000  .50000000  00000-0  50000-1 0  9990',
+  '2 99999  51.6400 100.0000 0001000  90.0000 270.0000 16.20000000    10',
+];
+
+const near = (a: number, b: number, tol: number, what = '') => assert.ok(Math.abs(a - b) <= tol, `${what} ${a} vs ${b}`);
+
+describe('ephemeris export', () => {
+  let targets: ExportTarget[];
+  const falling = (): ExportTarget => ({ noradId: 99999, name: 'FALLING', cosparId: null, rec: twoline2satrec(FALLING[0], FALLING[1]) });
+
+  before(async () => {
+    const tles = parseTle(await fixture('gp_active.tle'));
+    const target = (norad: number, name: string, cosparId: string | null) => {
+      const t = tles.find((s) => s.l1.startsWith(`1 ${norad}`))!;
+      return { noradId: norad, name, cosparId, rec: twoline2satrec(t.l1, t.l2) };
+    };
+    targets = [target(25544, 'ISS (ZARYA)', '1998-067A'), target(44714, 'STARLINK <1008> & co', null)];
+  });
+
+  test('samples every step of the span, inclusive, in TEME and Earth-fixed', () => {
+    const samples = sampleEphemeris(targets[0].rec, OPTS);
+    assert.equal(samples.length, SAMPLES);
+    assert.equal(samples[0].time, START);
+    assert.equal(samples[SAMPLES - 1].time, OPTS.end);
+    for (const s of [samples[0], samples[100]]) {
+      const pv = propagate(targets[0].rec, new Date(s.time))!;
+      assert.ok(typeof pv.position === 'object');
+      assert.deepEqual(s.position, [pv.position.x, pv.position.y, pv.position.z]);
+      // the Earth-fixed position is a rotation about the z axis
+      near(Math.hypot(...s.ecf), Math.hypot(...s.position), 1e-6, 'radius');
+      near(s.ecf[2], s.position[2], 1e-9, 'z');
+      near(s.lonDeg, (Math.atan2(s.ecf[1], s.ecf[0]) * 180) / Math.PI, 1e-9, 'longitude');
+      assert.ok(s.altKm > 400 && s.altKm < 440);
+    }
+  });
+
+  test('leaves out the times SGP4 cannot propagate to', () => {
+    const samples = sampleEphemeris(falling().rec, { ...OPTS, end: START + 24 * 3600000 });
+    assert.ok(samples.length > 6 * 60 && samples.length < 12 * 60, String(samples.length));
+    assert.ok(samples.every((s, i) => s.time === START + i * 60000));
+  });
+
+  test('rejects an empty span or step', () => {
+    assert.throws(() => exportEphemeris('czml', targets, { ...OPTS, end: START - 1 }), /empty/);
+    assert.throws(() => exportEphemeris('oem', targets, { ...OPTS, stepSec: 0 }), /empty/);
+  });
+
+  test('CZML: a clock document and one interpolated Earth-fixed packet per object', () => {
+    const packets = JSON.parse(exportEphemeris('czml', targets, OPTS));
+    assert.equal(packets.length, 3);
+    assert.equal(packets[0].id, 'document');
+    assert.equal(packets[0].name, 'satellites 2025-09-27T11:00:00.000Z');
+    assert.equal(packets[0].clock.interval, '2025-09-27T12:00:00.000Z/2025-09-27T15:00:00.000Z');
+
+    const iss = packets[1];
+    assert.equal(iss.id, '25544');
+    assert.equal(iss.description, 'NORAD 25544 / 1998-067A');
+    assert.equal(iss.availability, packets[0].clock.interval);
+    assert.equal(iss.position.referenceFrame, 'FIXED');
+    assert.equal(iss.position.epoch, '2025-09-27T12:00:00.000Z');
+    // [seconds from epoch, x, y, z] in metres per sample
+    const cartesian: number[] = iss.position.cartesian;
+    assert.equal(cartesian.length, SAMPLES * 4);
+    const samples = sampleEphemeris(targets[0].rec, OPTS);
+    for (const k of [0, 90, SAMPLES - 1]) {
+      assert.equal(cartesian[k * 4], k * 60);
+      for (let c = 0; c < 3; c++) near(cartesian[k * 4 + 1 + c], samples[k].ecf[c] * 1000, 0.05);
+    }
+    // one ISS orbit of trail
+    near(iss.path.trailTime, 92.8 * 60, 60, 'trail');
+    assert.equal(packets[2].description, 'NORAD 44714');
+  });
+
+  test('KML: a gx:Track per object with matching times and coordinates, names escaped', () => {
+    const kml = exportEphemeris('kml', targets, OPTS);
+    assert.match(kml, /^<\?xml version="1.0" encoding="UTF-8"\?>\n<kml /);
+    assert.ok(kml.endsWith('</Document>\n</kml>\n'));
+    assert.equal(kml.match(/<Placemark>/g)?.length, 2);
+    assert.ok(kml.includes('<name>STARLINK &lt;1008&gt; &amp; co</name>'));
+    assert.ok(!kml.includes('<1008>'));
+
+    const track = kml.split('<Placemark>')[1];
+    const when = [...track.matchAll(/<when>(.*?)<\/when>/g)].map((m) => m[1]);
+    const coords = [...track.matchAll(/<gx:coord>(.*?)<\/gx:coord>/g)].map((m) => m[1].split(' ').map(Number));
+    assert.equal(when.length, SAMPLES);
+    assert.equal(coords.length, SAMPLES);
+    assert.equal(when[1], '2025-09-27T12:01:00.000Z');
+    const s = sampleEphemeris(targets[0].rec, OPTS)[1];
+    near(coords[1][0], s.lonDeg, 1e-5);
+    near(coords[1][1], s.latDeg, 1e-5);
+    near(coords[1][2], s.altKm * 1000, 1);
+  });
+
+  test('GeoJSON: ground tracks split at the antimeridian, with the time of every vertex', () => {
+    const fc = JSON.parse(exportEphemeris('geojson', targets, OPTS));
+    assert.equal(fc.type, 'FeatureCollection');
+    const iss = fc.features.filter((f: { properties: { noradId: number } }) => f.properties.noradId === 25544);
+    // three hours of ISS orbit cross the antimeridian at least once
+    assert.ok(iss.length >= 2);
+    let vertices = 0;
+    for (const f of iss) {
+      const coords: number[][] = f.geometry.coordinates;
+      assert.equal(f.geometry.type, 'LineString');
+      assert.equal(f.properties.times.length, coords.length);
+      assert.equal(f.properties.start, f.properties.times[0]);
+      assert.equal(f.properties.end, f.properties.times[coords.length - 1]);
+      assert.equal(f.properties.cosparId, '1998-067A');
+      for (let i = 1; i < coords.length; i++) assert.ok(Math.abs(coords[i][0] - coords[i - 1][0]) < 180);
+      vertices += coords.length;
+    }
+    assert.equal(vertices, SAMPLES);
+    assert.equal(iss[0].properties.start, '2025-09-27T12:00:00.000Z');
+    assert.equal(iss[iss.length - 1].properties.end, '2025-09-27T15:00:00.000Z');
+  });
+
+  test('OEM: KVN header, one TEME segment per object, rows of km and km/s', () => {
+    const oem = exportEphemeris('oem', targets, OPTS).split('\n');
+    assert.deepEqual(oem.slice(0, 3), ['CCSDS_OEM_VERS = 2.0', 'CREATION_DATE = 2025-09-27T11:00:00.000', 'ORIGINATOR = crisis-watcher-satellite']);
+    assert.equal(oem.filter((l) => l === 'META_START').length, 2);
+    const meta = oem.slice(oem.indexOf('META_START') + 1, oem.indexOf('META_STOP'));
+    assert.deepEqual(meta, [
+      'OBJECT_NAME = ISS (ZARYA)',
+      'OBJECT_ID = 1998-067A',
+      'CENTER_NAME = EARTH',
+      'REF_FRAME = TEME',
+      'TIME_SYSTEM = UTC',
+      'START_TIME = 2025-09-27T12:00:00.000',
+      'STOP_TIME = 2025-09-27T15:00:00.000',
+    ]);
+    // the element set epoch is 25269.92065904
+    assert.match(oem[oem.indexOf('META_STOP') + 1], /^COMMENT SGP4 propagation of NORAD 25544 element set, epoch 2025-09-26T22:05:4\d\.\d{3}$/);
+    // without a COSPAR id the NORAD number names the object
+    assert.ok(oem.includes('OBJECT_ID = 44714'));
+
+    const rows = oem.filter((l) => /^\d{4}-\d\d-\d\dT/.test(l));
+    assert.equal(rows.length, 2 * SAMPLES);
+    const s = sampleEphemeris(targets[0].rec, OPTS)[10];
+    const [time, ...values] = rows[10].split(' ');
+    assert.equal(time, '2025-09-27T12:10:00.000');
+    values.slice(0, 3).forEach((v, c) => near(Number(v), s.position[c], 1e-6));
+    values.slice(3).forEach((v, c) => near(Number(v), s.velocity[c], 1e-9));
+  });
+
+  test('an object that decays before the span is left out of every format', () => {
+    const late = { ...OPTS, start: START + 18 * 3600000, end: START + 19 * 3600000 };
+    assert.equal(JSON.parse(exportEphemeris('czml', [falling()], late)).length, 1);
+    assert.ok(!exportEphemeris('kml', [falling()], late).includes('<Placemark>'));
+    assert.deepEqual(JSON.parse(exportEphemeris('geojson', [falling()], late)).features, []);
+    assert.ok(!exportEphemeris('oem', [falling()], late).includes('META_START'));
+  });
+});
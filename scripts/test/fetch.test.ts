@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import { after, before, describe, mock, test } from 'node:test';
+import { collect, mirrorTransport } from '../lib/collect';
+import { USER_AGENT, fetchBufferWithRetry, fetchTextWithRetry } from '../lib/fetch';
+import { FIXTURE_SOURCES, fixture, mockServer, quiet, tempDir } from './helpers';
+
+describe('retries', () => {
+  const server = mockServer();
+  let base: string;
+  before(async () => {
+    quiet();
+    base = await server.start();
+  });
+  after(async () => {
+    mock.restoreAll();
+    await server.stop();
+  });
+
+  test('retries failed responses until one succeeds', async () => {
+    let n = 0;
+    server.handle((_req, res) => (++n < 3 ? res.writeHead(503).end() : res.writeHead(200).end('ok')));
+    assert.equal(await fetchTextWithRetry(`${base}/gp`, 2, 1), 'ok');
+    assert.equal(server.requests.length, 3);
+  });
+
+  test('gives up after the last retry', async () => {
+    server.handle((_req, res) => res.writeHead(503).end());
+    assert.equal(await fetchTextWithRetry(`${base}/gp`, 1, 1), null);
+    assert.equal(server.requests.length, 2);
+  });
+
+  test('identifies itself and asks for the format', async () => {
+    server.handle((_req, res) => res.writeHead(200).end('[]'));
+    await fetchTextWithRetry(`${base}/gp`, 0, 1, 'application/json');
+    assert.equal(server.requests[0].headers['user-agent'], USER_AGENT);
+    assert.equal(server.requests[0].headers.accept, 'application/json');
+  });
+
+  test('does not retry a missing binary file', async () => {
+    server.handle((_req, res) => res.writeHead(404).end());
+    assert.equal(await fetchBufferWithRetry(`${base}/orbit.sp3.gz`, 2, 1), null);
+    assert.equal(server.requests.length, 1);
+  });
+});
+
+describe('collection against a mock CelesTrak', () => {
+  const server = mockServer();
+  let base: string;
+  before(async () => {
+    quiet();
+    base = await server.start();
+  });
+  after(async () => {
+    mock.restoreAll();
+    await server.stop();
+  });
+
+  test('sends the source requests to the mirror and accepts its bodies', async (t) => {
+    const files = new Map(FIXTURE_SOURCES.map((s) => [new URL(s.url).pathname + new URL(s.url).search, s.file]));
+    server.handle((req, res) => {
+      const file = files.get(req.url ?? '');
+      if (!file) return res.writeHead(404).end();
+      fixture(file).then((body) => res.writeHead(200).end(body));
+    });
+    const root = await tempDir();
+    t.after(() => fs.rm(root, { recursive: true, force: true }));
+    const result = await collect({
+      dataRoot: root,
+      sources: FIXTURE_SOURCES,
+      now: new Date('2025-09-27T18:19:50.380Z'),
+      hourPath: '2025/09/28/03',
+      transport: mirrorTransport(`${base}/`, 0, 1),
+      dryRun: true,
+      conjunctions: null,
+      reentries: null,
+      constellations: { staleDays: 3 },
+    });
+    assert.equal(server.requests.length, FIXTURE_SOURCES.length);
+    assert.deepEqual(result.failedRequired, []);
+    for (const s of FIXTURE_SOURCES) assert.equal(result.index.status[s.key].status, 'ok', s.key);
+    assert.equal(result.index.counts.gpElements, 6);
+    // sources keep their real URLs in index.json
+    assert.match(result.index.sources.gpActive, /^https:\/\/celestrak\.org\//);
+  });
+});
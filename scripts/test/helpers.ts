@@ -0,0 +1,44 @@
+import fs from 'fs/promises';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { mock } from 'node:test';
+import { SOURCES } from '../lib/sources';
+
+// Bodies recorded from CelesTrak, named like the files the collector stores
+export const FIXTURES = path.join(__dirname, 'fixtures');
+
+export const fixture = (name: string) => fs.readFile(path.join(FIXTURES, name), 'utf-8');
+
+// The sources the fixtures cover
+export const FIXTURE_SOURCES = SOURCES.filter((s) => ['gpActive', 'gpActiveTle', 'satcatOnOrbitPayloads', 'supgpSpacex'].includes(s.key));
+
+export const tempDir = () => fs.mkdtemp(path.join(os.tmpdir(), 'collector-test-'));
+
+// The collector reports progress on the console; keep test output to the results
+export function quiet() {
+  mock.method(console, 'log', () => {});
+  mock.method(console, 'warn', () => {});
+}
+
+export type Handler = (req: http.IncomingMessage, res: http.ServerResponse) => void;
+
+// Local HTTP server whose behaviour each test swaps in; records every request
+export function mockServer() {
+  let handler: Handler = (_req, res) => res.writeHead(500).end();
+  const requests: http.IncomingMessage[] = [];
+  const server = http.createServer((req, res) => {
+    requests.push(req);
+    handler(req, res);
+  });
+  return {
+    requests,
+    handle: (h: Handler) => {
+      handler = h;
+      requests.length = 0;
+    },
+    start: () => new Promise<string>((resolve) => server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`))),
+    stop: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
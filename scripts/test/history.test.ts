@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import path from 'path';
+import { after, before, describe, test } from 'node:test';
+import { HISTORY_DIR, appendHistory, readHistoryIndex, updateHistory } from '../lib/history';
+import { gpFromOmm } from '../lib/normalize';
+import { parseOmmJson } from '../lib/parse';
+import { fixture, tempDir } from './helpers';
+import type { GpElement, HistoryElement } from '../../src/shared/schema';
+
+const GENERATED_AT = '2025-09-28T00:00:00.000Z';
+
+describe('element-set history', () => {
+  let root: string;
+  let elements: GpElement[];
+  const dir = () => path.join(root, HISTORY_DIR);
+  const series = async (noradId: number) =>
+    (await fs.readFile(path.join(dir(), `${noradId}.jsonl`), 'utf-8'))
+      .trimEnd()
+      .split('\n')
+      .map((l) => JSON.parse(l) as HistoryElement);
+  const later = (el: GpElement, hours: number) => ({ ...el, epoch: new Date(Date.parse(el.epoch) + hours * 3600000).toISOString() });
+
+  before(async () => {
+    root = await tempDir();
+    elements = parseOmmJson(await fixture('gp_active.json')).map((r) => gpFromOmm(r, 'gpActive'));
+  });
+  after(() => fs.rm(root, { recursive: true, force: true }));
+
+  test('the first collection starts a series per object', async () => {
+    const result = await updateHistory(root, elements, GENERATED_AT);
+    assert.deepEqual(result, { appended: 6, objects: 6 });
+    const iss = elements.find((e) => e.noradId === 25544)!;
+    const { noradId: _, ...line } = iss;
+    assert.deepEqual(await series(25544), [line]);
+    const index = await readHistoryIndex(dir());
+    assert.deepEqual(index.get(25544), { noradId: 25544, count: 1, firstEpoch: iss.epoch, lastEpoch: iss.epoch });
+  });
+
+  test('a re-published element set is not appended again', async () => {
+    assert.deepEqual(await updateHistory(root, elements, GENERATED_AT), { appended: 0, objects: 6 });
+    assert.equal((await series(25544)).length, 1);
+  });
+
+  test('newer element sets are appended in epoch order, older ones skipped', async () => {
+    const iss = elements.find((e) => e.noradId === 25544)!;
+    const index = await readHistoryIndex(dir());
+    const appended = await appendHistory(dir(), index, [later(iss, 6), later(iss, -6), later(iss, 12)]);
+    assert.equal(appended, 2);
+    assert.deepEqual(
+      (await series(25544)).map((l) => l.epoch),
+      [iss.epoch, later(iss, 6).epoch, later(iss, 12).epoch]
+    );
+    assert.deepEqual(index.get(25544), { noradId: 25544, count: 3, firstEpoch: iss.epoch, lastEpoch: later(iss, 12).epoch });
+    // the other objects are untouched
+    assert.equal(index.get(44714)?.count, 1);
+  });
+
+  test('objects new to the catalog join the index', async () => {
+    const added = { ...elements[0], noradId: 65001 };
+    const result = await updateHistory(root, [...elements, added], GENERATED_AT);
+    assert.deepEqual(result, { appended: 1, objects: 7 });
+    const file = JSON.parse(await fs.readFile(path.join(dir(), 'index.json'), 'utf-8'));
+    assert.equal(file.schema, 'history_index');
+    assert.deepEqual(file.records.map((e: { noradId: number }) => e.noradId), [...elements.map((e) => e.noradId), 65001].sort((a, b) => a - b));
+  });
+});
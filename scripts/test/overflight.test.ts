@@ -0,0 +1,117 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { twoline2satrec } from 'satellite.js';
+import { parseTle } from '../lib/parse';
+import { AoiGeometry, findCrossings, geometryBbox, geometryFromGeoJson, pointInGeometry } from '../../src/shared/overflight';
+import { fixture } from './helpers';
+
+const START = Date.parse('2025-09-28T00:00:00Z');
+const DAY = 86400000;
+
+const box = (w: number, s: number, e: number, n: number) => [[w, s], [e, s], [e, n], [w, n], [w, s]];
+
+// Fiji and Tonga, drawn across the antimeridian as many tools write it
+const ACROSS: AoiGeometry = { type: 'Polygon', coordinates: [box(170, -25, -170, -10)] };
+// the same area as RFC 7946 wants it, split at the antimeridian
+const SPLIT: AoiGeometry = { type: 'MultiPolygon', coordinates: [[box(170, -25, 180, -10)], [box(-180, -25, -170, -10)]] };
+
+describe('areas from GeoJSON', () => {
+  test('collects the polygons of features and collections', () => {
+    const polygon = { type: 'Polygon', coordinates: [box(0, 0, 10, 10)] };
+    assert.deepEqual(geometryFromGeoJson({ type: 'Feature', properties: {}, geometry: polygon }), polygon);
+    const fc = {
+      type: 'FeatureCollection',
+      features: [
+        { type: 'Feature', geometry: polygon },
+        { type: 'Feature', geometry: { type: 'Point', coordinates: [1, 1] } },
+        { type: 'Feature', geometry: { type: 'MultiPolygon', coordinates: [[box(20, 0, 30, 10)]] } },
+      ],
+    };
+    assert.deepEqual(geometryFromGeoJson(fc), { type: 'MultiPolygon', coordinates: [[box(0, 0, 10, 10)], [box(20, 0, 30, 10)]] });
+  });
+
+  test('rejects malformed input with a message, not an indexing error', () => {
+    const bad: Array<[unknown, RegExp]> = [
+      [null, /no Polygon or MultiPolygon/],
+      [{ type: 'Point', coordinates: [1, 1] }, /no Polygon or MultiPolygon/],
+      [{ type: 'FeatureCollection' }, /without a features array/],
+      [{ type: 'Polygon' }, /Polygon: coordinates must be rings/],
+      [{ type: 'Polygon', coordinates: [[[0, 0], [1, 0], [0, 0]]] }, /Polygon: coordinates must be rings/],
+      [{ type: 'Polygon', coordinates: [box(0, 0, 'x' as unknown as number, 1)] }, /Polygon: coordinates must be rings/],
+      [{ type: 'MultiPolygon', coordinates: [box(0, 0, 1, 1)] }, /MultiPolygon: coordinates must be rings/],
+    ];
+    for (const [json, message] of bad) assert.throws(() => geometryFromGeoJson(json), message, JSON.stringify(json));
+  });
+});
+
+describe('point in area', () => {
+  test('holes and multiple polygons', () => {
+    const g: AoiGeometry = {
+      type: 'MultiPolygon',
+      coordinates: [[box(0, 0, 10, 10), box(4, 4, 6, 6)], [box(20, 0, 30, 10)]],
+    };
+    assert.equal(pointInGeometry(2, 2, g), true);
+    assert.equal(pointInGeometry(5, 5, g), false);
+    assert.equal(pointInGeometry(25, 5, g), true);
+    assert.equal(pointInGeometry(15, 5, g), false);
+  });
+
+  test('an area drawn across the antimeridian covers it, not the rest of the globe', () => {
+    for (const g of [ACROSS, SPLIT]) {
+      assert.equal(pointInGeometry(179, -15, g), true);
+      assert.equal(pointInGeometry(-179, -15, g), true);
+      assert.equal(pointInGeometry(180, -15, g), true);
+      assert.equal(pointInGeometry(0, -15, g), false);
+      assert.equal(pointInGeometry(160, -15, g), false);
+      assert.equal(pointInGeometry(-160, -15, g), false);
+    }
+    assert.deepEqual(geometryBbox(ACROSS), [170, -25, 190, -10]);
+  });
+
+  test('longitudes written past 180', () => {
+    const g: AoiGeometry = { type: 'Polygon', coordinates: [box(170, -25, 190, -10)] };
+    assert.equal(pointInGeometry(-175, -15, g), true);
+    assert.equal(pointInGeometry(175, -15, g), true);
+    assert.equal(pointInGeometry(-165, -15, g), false);
+  });
+});
+
+describe('ground-track crossings', () => {
+  const satrec = async (norad: string) => {
+    const t = parseTle(await fixture('gp_active.tle')).find((s) => s.l1.startsWith(`1 ${norad}`))!;
+    return twoline2satrec(t.l1, t.l2);
+  };
+
+  test('entries and exits are on the boundary and the track stays inside', async () => {
+    const starlink = await satrec('44714');
+    const japan: AoiGeometry = { type: 'Polygon', coordinates: [box(128, 30, 146, 46)] };
+    const crossings = findCrossings(starlink, japan, { start: START, end: START + DAY });
+    assert.ok(crossings.length >= 2);
+    for (const c of crossings) {
+      assert.ok(c.entry < c.exit);
+      // inside at entry and exit, outside a second before and after
+      const insideAt = (t: number): boolean => findCrossings(starlink, japan, { start: t, end: t, stepSec: 1 }).length > 0;
+      assert.deepEqual([insideAt(c.entry - 1000), insideAt(c.entry), insideAt(c.exit), insideAt(c.exit + 1000)], [false, true, true, false]);
+      assert.ok(c.track.every(([lon, lat]) => lon >= 127.9 && lon <= 146.1 && lat >= 29.9 && lat <= 46.1));
+    }
+  });
+
+  test('a satellite whose inclination keeps it away never crosses', async () => {
+    const iss = await satrec('25544');
+    const arctic: AoiGeometry = { type: 'Polygon', coordinates: [box(0, 60, 40, 80)] };
+    assert.deepEqual(findCrossings(iss, arctic, { start: START, end: START + DAY }), []);
+  });
+
+  test('crossings of an area across the antimeridian match its split form', async () => {
+    const iss = await satrec('25544');
+    const across = findCrossings(iss, ACROSS, { start: START, end: START + DAY });
+    const split = findCrossings(iss, SPLIT, { start: START, end: START + DAY });
+    assert.equal(across.length, 2);
+    assert.deepEqual(
+      across.map((c) => [c.entry, c.exit]),
+      split.map((c) => [c.entry, c.exit])
+    );
+    // both passes run over the antimeridian itself, in one piece
+    assert.ok(across.every((c) => c.track.some(([lon]) => lon > 0) && c.track.some(([lon]) => lon < 0)));
+  });
+});
@@ -0,0 +1,245 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { describe, test } from 'node:test';
+import { propagate, twoline2satrec } from 'satellite.js';
+import { decompressAuto, uncompressLzw } from '../lib/decompress';
+import { formatCsv, parseCsv, parseCsvRecords, parseOmmJson, parseOmmXml, parseTle, stringifyRecordsFile } from '../lib/parse';
+import { normalizeSnapshot } from '../lib/normalize';
+import { interpolateSp3, normalizeSp3, parseSp3 } from '../lib/sp3';
+import { SATCAT_REQUIRED_COLUMNS, validateCsv, validateOmmJson, validateOmmXml, validateTle } from '../lib/validate';
+import { linkSp3ToCatalog } from '../../src/shared/sp3';
+
+const FIXTURES = path.join(__dirname, 'fixtures');
+const fixture = (name: string) => fs.readFileSync(path.join(FIXTURES, name), 'utf-8');
+const fixtureBytes = (name: string) => fs.readFileSync(path.join(FIXTURES, name));
+
+describe('TLE', () => {
+  test('parses recorded 3LE text with CRLF line endings', () => {
+    const sets = parseTle(fixture('gp_active.tle'));
+    assert.equal(sets.length, 6);
+    assert.equal(sets[0].name, 'ISS (ZARYA)');
+    assert.match(sets[0].l1, /^1 25544U/);
+    assert.match(sets[0].l2, /^2 25544 /);
+  });
+
+  test('accepts the recorded body and counts its sets', () => {
+    assert.deepEqual(validateTle(fixture('gp_active.tle')), { ok: true, count: 6 });
+  });
+
+  test('rejects a checksum mismatch', () => {
+    const body = fixture('gp_active.tle').replace('0  9995', '0  9996');
+    const result = validateTle(body);
+    assert.equal(result.ok, false);
+    assert.match(!result.ok ? result.error : '', /checksum mismatch/);
+  });
+
+  test('rejects a line 2 without its line 1', () => {
+    const lines = fixture('gp_active.tle').split(/\r?\n/);
+    assert.equal(validateTle(lines.slice(2).join('\n')).ok, false);
+  });
+});
+
+describe('OMM', () => {
+  test('parses and validates the recorded JSON', () => {
+    const body = fixture('gp_active.json');
+    const records = parseOmmJson(body);
+    assert.equal(records.length, 6);
+    assert.equal(records[0].NORAD_CAT_ID, 25544);
+    assert.deepEqual(validateOmmJson(body), { ok: true, count: 6 });
+  });
+
+  test('rejects an empty array unless allowed', () => {
+    assert.equal(validateOmmJson('[]').ok, false);
+    assert.deepEqual(validateOmmJson(fixture('supgp_spacex.json'), { allowEmpty: true }), { ok: true, count: 0 });
+  });
+
+  test('names the record missing a required field', () => {
+    const records = parseOmmJson(fixture('gp_active.json'));
+    delete records[2].MEAN_MOTION;
+    const result = validateOmmJson(JSON.stringify(records));
+    assert.equal(result.ok, false);
+    assert.match(!result.ok ? result.error : '', /record 2: missing MEAN_MOTION/);
+  });
+
+  test('rejects records that are not objects', () => {
+    for (const bad of ['[null]', '[42]', '[["OBJECT_NAME"]]']) {
+      assert.deepEqual(validateOmmJson(bad), { ok: false, error: 'record 0: not an object' }, bad);
+    }
+  });
+
+  test('reads NDM/XML leaves, keeping identifiers as strings', () => {
+    const xml = `<?xml version="1.0"?><ndm><omm><body><segment><metadata>
+      <OBJECT_NAME>ISS (ZARYA)</OBJECT_NAME><OBJECT_ID>1998-067A</OBJECT_ID></metadata><data><meanElements>
+      <EPOCH>2025-09-26T22:05:44.941056</EPOCH><MEAN_MOTION>15.49415038</MEAN_MOTION><ECCENTRICITY>.0001048</ECCENTRICITY>
+      <INCLINATION>51.6332</INCLINATION><RA_OF_ASC_NODE>162.8128</RA_OF_ASC_NODE><ARG_OF_PERICENTER>155.2675</ARG_OF_PERICENTER>
+      <MEAN_ANOMALY>204.8364</MEAN_ANOMALY></meanElements><tleParameters><NORAD_CAT_ID>25544</NORAD_CAT_ID></tleParameters>
+      </data></segment></body></omm></ndm>`;
+    const [rec] = parseOmmXml(xml);
+    assert.equal(rec.OBJECT_ID, '1998-067A');
+    assert.equal(rec.EPOCH, '2025-09-26T22:05:44.941056');
+    assert.equal(rec.MEAN_MOTION, 15.49415038);
+    assert.deepEqual(validateOmmXml(xml), { ok: true, count: 1 });
+    assert.equal(validateOmmXml('{"error":"not xml"}').ok, false);
+  });
+});
+
+describe('CSV', () => {
+  test('parses the recorded SATCAT rows by header', () => {
+    const body = fixture('satcat_onorbit_payloads.csv');
+    const records = parseCsvRecords(body);
+    assert.equal(records.length, 6);
+    assert.equal(records[5].OBJECT_NAME, 'QZS-1R (MICHIBIKI-1R)');
+    assert.equal(records[1].OWNER, 'CIS');
+    assert.deepEqual(validateCsv(body, SATCAT_REQUIRED_COLUMNS), { ok: true, count: 6 });
+  });
+
+  test('rejects the recorded error page CelesTrak answered a bad query with', () => {
+    const result = validateCsv(fixture('rejected/satcat_onorbit_payloads.csv'), SATCAT_REQUIRED_COLUMNS);
+    assert.equal(result.ok, false);
+    assert.match(!result.ok ? result.error : '', /header missing OBJECT_NAME/);
+  });
+
+  test('round-trips quotes, separators and line breaks', () => {
+    const rows = [['a,b', 'say "hi"', 'two\nlines'], ['', 'plain', '3']];
+    const text = formatCsv(['x', 'y', 'z'], rows);
+    assert.deepEqual(parseCsv(text), [['x', 'y', 'z'], ...rows]);
+    assert.deepEqual(parseCsv('x,y\r\n1,2\r\n'), [['x', 'y'], ['1', '2']]);
+  });
+});
+
+test('records files put one record per line and stay valid JSON', () => {
+  const file = { schema: 'objects', version: 1, generatedAt: '2025-09-27T18:19:50.380Z', records: [{ a: 1 }, { a: 2 }] };
+  const text = stringifyRecordsFile(file);
+  assert.deepEqual(JSON.parse(text), file);
+  assert.equal(text.split('\n').filter((l) => l.startsWith('    {')).length, 2);
+});
+
+test('objects take each field from the highest-priority source that has it', () => {
+  const tle = parseTle(fixture('gp_active.tle')).map((t) => (t.l1.includes('25544') ? { ...t, name: 'ISS' } : t));
+  const { objects, gpElements } = normalizeSnapshot(
+    [
+      { source: 'gpActiveTle', schema: 'tle', records: tle },
+      { source: 'gpActive', schema: 'omm', records: parseOmmJson(fixture('gp_active.json')) },
+      { source: 'satcat', schema: 'satcat', records: parseCsvRecords(fixture('satcat_onorbit_payloads.csv')) },
+    ],
+    ''
+  );
+  const iss = objects.records.find((o) => o.noradId === 25544)!;
+  // SATCAT owner and type, the SATCAT name over the TLE one, OMM and TLE add nothing new
+  assert.deepEqual(
+    { name: iss.name, owner: iss.owner, objectType: iss.objectType, rcsM2: iss.rcsM2, sources: iss.sources },
+    { name: 'ISS (ZARYA)', owner: 'ISS', objectType: 'PAYLOAD', rcsM2: 399.0524, sources: ['satcat', 'gpActive', 'gpActiveTle'] }
+  );
+  // equal epochs: the OMM set wins
+  assert.ok(gpElements.records.every((el) => el.from === 'omm'));
+});
+
+test('TLE objects with Alpha-5 catalog numbers keep their ids', () => {
+  const [iss] = parseTle(fixture('gp_active.tle'));
+  const alpha5 = (satnum: string, name: string) => ({
+    name,
+    l1: `1 ${satnum}${iss.l1.slice(7)}`,
+    l2: `2 ${satnum}${iss.l2.slice(7)}`,
+  });
+  const { objects, gpElements } = normalizeSnapshot(
+    [{ source: 'gpActiveTle', schema: 'tle', records: [alpha5('A0001', 'FIRST'), alpha5('T9999', 'SECOND')] }],
+    ''
+  );
+  assert.deepEqual(
+    objects.records.map((o) => [o.noradId, o.name, o.cosparId]),
+    [
+      [100001, 'FIRST', '1998-067A'],
+      [279999, 'SECOND', '1998-067A'],
+    ]
+  );
+  assert.deepEqual(
+    gpElements.records.map((el) => el.noradId),
+    [100001, 279999]
+  );
+});
+
+// sp3/sample.sp3 is an SP3-d file laid out like the IGS products, 6 h at 15 min, with positions
+// from SGP4 of three GNSS element sets in gp_active.tle (E11 = GSAT0101, R05 = COSMOS 2433,
+// J02 = QZS-1R; J02 has a gap at 11:00). The .Z copies were written with compress(1)'s
+// format at 16 bits and at 10 bits, where the table fills and is cleared several times.
+describe('compress(1) and gzip archives', () => {
+  const text = fixtureBytes('sp3/sample.sp3');
+
+  test('decodes LZW streams with width changes and table clears', () => {
+    assert.deepEqual(uncompressLzw(fixtureBytes('sp3/sample.sp3.Z')), text);
+    assert.deepEqual(uncompressLzw(fixtureBytes('sp3/sample.b10.sp3.Z')), text);
+  });
+
+  test('picks the decoder by magic bytes', () => {
+    assert.deepEqual(decompressAuto(fixtureBytes('sp3/sample.sp3.Z')), text);
+    assert.deepEqual(decompressAuto(fixtureBytes('sp3/sample.sp3.gz')), text);
+    assert.equal(decompressAuto(text), text);
+    assert.throws(() => uncompressLzw(text), /not a compress\(1\) stream/);
+  });
+});
+
+describe('SP3', () => {
+  const file = parseSp3(fixture('sp3/sample.sp3'));
+  const eph = normalizeSp3(file, { product: 'sample', source: 'fixture' });
+  const tles = parseTle(fixture('gp_active.tle'));
+  const satrec = (name: string) => {
+    const t = tles.find((s) => s.name?.startsWith(name))!;
+    return twoline2satrec(t.l1, t.l2);
+  };
+
+  test('reads the header and the position records', () => {
+    const { header, epochs } = file;
+    assert.equal(header.version, 'd');
+    assert.equal(header.start, '2025-09-27T06:00:00');
+    assert.equal(header.numEpochs, 24);
+    assert.equal(header.coordinateSystem, 'IGS20');
+    assert.equal(header.gpsWeek, 2385);
+    assert.equal(header.intervalSec, 900);
+    assert.equal(header.timeSystem, 'GPS');
+    assert.deepEqual(header.satellites, ['E11', 'R05', 'J02']);
+    assert.equal(epochs.length, 24);
+    assert.deepEqual(epochs[0].records.E11, { position: [17684.78132, 8822.863845, 22029.597908], clock: 100.5 });
+    assert.deepEqual(epochs[20].records.J02, { position: null, clock: null });
+  });
+
+  test('converts GPS time tags to UTC', () => {
+    assert.equal(eph.epochs[0], '2025-09-27T05:59:42.000Z');
+    assert.equal(eph.epochs[23], '2025-09-27T11:44:42.000Z');
+    assert.equal(eph.satellites.J02.position_km[20], null);
+  });
+
+  test('interpolates between samples to the orbit they were taken from', () => {
+    for (const [sat, name] of [['E11', 'GSAT0101'], ['R05', 'COSMOS 2433'], ['J02', 'QZS-1R']]) {
+      // halfway between the 07:15 and 07:30 samples
+      const date = new Date('2025-09-27T07:22:12Z');
+      const state = interpolateSp3(eph, sat, date, { frame: 'eci' })!;
+      const truth = propagate(satrec(name), date);
+      const p = truth.position as { x: number; y: number; z: number };
+      const v = truth.velocity as { x: number; y: number; z: number };
+      const dp = Math.hypot(state.position[0] - p.x, state.position[1] - p.y, state.position[2] - p.z);
+      const dv = Math.hypot(state.velocity[0] - v.x, state.velocity[1] - v.y, state.velocity[2] - v.z);
+      assert.ok(dp < 0.01, `${sat} position off by ${dp} km`);
+      assert.ok(dv < 1e-4, `${sat} velocity off by ${dv} km/s`);
+    }
+  });
+
+  test('has no state outside the file or across a gap', () => {
+    assert.equal(interpolateSp3(eph, 'E11', new Date('2025-09-27T05:59:00Z')), null);
+    assert.equal(interpolateSp3(eph, 'E11', new Date('2025-09-27T11:45:00Z')), null);
+    assert.equal(interpolateSp3(eph, 'J02', new Date('2025-09-27T10:50:00Z')), null);
+    assert.equal(interpolateSp3(eph, 'G01', new Date('2025-09-27T08:00:00Z')), null);
+  });
+
+  test('links satellites to the catalog objects at the same position', () => {
+    const links = linkSp3ToCatalog(eph, tles);
+    assert.deepEqual(
+      [...links].map(([sat, i]) => [sat, tles[i].name]),
+      [
+        ['E11', 'GSAT0101 (GALILEO-PFM)'],
+        ['R05', 'COSMOS 2433 [GLONASS-M]'],
+        ['J02', 'QZS-1R (MICHIBIKI-1R)'],
+      ]
+    );
+  });
+});
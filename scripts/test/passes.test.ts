@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { twoline2satrec } from 'satellite.js';
+import { parseTle } from '../lib/parse';
+import { Observer, lookAngles, predictPasses } from '../../src/shared/passes';
+import { fixture } from './helpers';
+
+const TOKYO: Observer = { latDeg: 35.68, lonDeg: 139.77, altKm: 0.04 };
+const START = Date.parse('2025-09-27T00:00:00Z');
+const DAY = 86400000;
+
+describe('pass prediction', () => {
+  const satrec = async (norad: string) => {
+    const t = parseTle(await fixture('gp_active.tle')).find((s) => s.l1.startsWith(`1 ${norad}`))!;
+    return twoline2satrec(t.l1, t.l2);
+  };
+
+  // Intervals above the mask found by sampling every 5 s
+  const sampled = (rec: ReturnType<typeof twoline2satrec>, start: number, end: number, minEl: number) => {
+    const out: Array<{ aos: number; los: number; max: number }> = [];
+    let cur: { aos: number; los: number; max: number } | null = null;
+    for (let t = start; t <= end; t += 5000) {
+      const el = lookAngles(rec, TOKYO, t)!.elevationDeg;
+      if (el >= minEl) {
+        if (!cur) out.push((cur = { aos: t, los: t, max: el }));
+        cur.los = t;
+        cur.max = Math.max(cur.max, el);
+      } else cur = null;
+    }
+    return out;
+  };
+
+  test('finds every ISS pass over Tokyo in a day, to the second', async () => {
+    const iss = await satrec('25544');
+    const passes = predictPasses(iss, TOKYO, { start: START, end: START + DAY });
+    const truth = sampled(iss, START, START + DAY, 10);
+    assert.ok(truth.length >= 2);
+    assert.equal(passes.length, truth.length);
+    passes.forEach((p, i) => {
+      assert.ok(p.aos < p.tca && p.tca < p.los);
+      assert.ok(Math.abs(p.aos - truth[i].aos) < 6000, `AOS ${new Date(p.aos).toISOString()}`);
+      assert.ok(Math.abs(p.los - truth[i].los) < 6000, `LOS ${new Date(p.los).toISOString()}`);
+      // the mask is crossed at AOS and LOS, and no sample rises above the TCA elevation
+      assert.ok(Math.abs(lookAngles(iss, TOKYO, p.aos)!.elevationDeg - 10) < 0.1);
+      assert.ok(Math.abs(lookAngles(iss, TOKYO, p.los)!.elevationDeg - 10) < 0.1);
+      assert.ok(p.maxElevationDeg > truth[i].max - 0.01);
+      assert.ok(p.maxElevationDeg - truth[i].max < 0.5);
+      assert.equal(p.tcaAzimuthDeg, lookAngles(iss, TOKYO, p.tca)!.azimuthDeg);
+      assert.ok(p.aosInWindow && p.losInWindow);
+    });
+  });
+
+  test('a higher mask keeps the higher passes, shortened', async () => {
+    const iss = await satrec('25544');
+    const low = predictPasses(iss, TOKYO, { start: START, end: START + DAY });
+    const high = predictPasses(iss, TOKYO, { start: START, end: START + DAY, minElevationDeg: 30 });
+    assert.deepEqual(
+      high.map((p) => Math.round(p.tca / 60000)),
+      low.filter((p) => p.maxElevationDeg >= 30).map((p) => Math.round(p.tca / 60000))
+    );
+    for (const p of high) {
+      const outer = low.find((q) => q.aos < p.tca && p.tca < q.los)!;
+      assert.ok(outer.aos < p.aos && p.los < outer.los);
+    }
+  });
+
+  test('a window that opens or closes mid-pass clips the pass', async () => {
+    const iss = await satrec('25544');
+    const [p] = predictPasses(iss, TOKYO, { start: START, end: START + DAY });
+    const clipped = predictPasses(iss, TOKYO, { start: p.tca, end: p.los + 60000 });
+    assert.equal(clipped.length, 1);
+    assert.equal(clipped[0].aos, p.tca);
+    assert.equal(clipped[0].aosInWindow, false);
+    assert.ok(clipped[0].losInWindow);
+    const cut = predictPasses(iss, TOKYO, { start: p.aos - 60000, end: p.tca });
+    assert.equal(cut[0].los, p.tca);
+    assert.equal(cut[0].losInWindow, false);
+  });
+
+  test('the long QZSS arcs are clipped at both ends of the window', async () => {
+    const qzs = await satrec('49336');
+    const passes = predictPasses(qzs, TOKYO, { start: START, end: START + DAY });
+    // up at the start, down for two hours around 14:00 UTC, up again at the end
+    assert.equal(passes.length, 2);
+    assert.deepEqual(passes.map((p) => [p.aosInWindow, p.losInWindow]), [[false, true], [true, false]]);
+    assert.equal(passes[0].aos, START);
+    assert.equal(passes[1].los, START + DAY);
+    assert.ok(passes[0].maxElevationDeg > 80);
+    assert.ok(passes[1].aos - passes[0].los > 3600000);
+  });
+});
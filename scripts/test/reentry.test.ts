@@ -0,0 +1,167 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { densityAt, estimateReentry, lifetimeDays, reentryReport } from '../lib/reentry';
+import { derivedOrbit } from '../lib/normalize';
+import type { GpElement, ReentryReport, SatObject } from '../../src/shared/schema';
+
+const MU_KM3_S2 = 398600.4418;
+const EARTH_RADIUS_KM = 6378.137;
+const EPOCH = '2025-09-28T00:00:00.000Z';
+const days = (from: string, to: string) => (Date.parse(to) - Date.parse(from)) / 86400000;
+
+// An element set whose perigee is at `perigeeKm`; drag terms default to none
+function element(perigeeKm: number, eccentricity = 0, drag: Partial<Pick<GpElement, 'bstar' | 'meanMotionDot'>> = {}): GpElement {
+  const a = (EARTH_RADIUS_KM + perigeeKm) / (1 - eccentricity);
+  const meanMotionRevPerDay = (Math.sqrt(MU_KM3_S2 / a ** 3) * 86400) / (2 * Math.PI);
+  return {
+    noradId: 90000,
+    epoch: EPOCH,
+    classification: 'U',
+    meanMotionRevPerDay,
+    eccentricity,
+    inclinationDeg: 51.6,
+    raanDeg: 0,
+    argPerigeeDeg: 0,
+    meanAnomalyDeg: 0,
+    bstar: 0,
+    meanMotionDot: 0,
+    meanMotionDdot: 0,
+    elementSetNo: 999,
+    revAtEpoch: 1,
+    ...derivedOrbit(meanMotionRevPerDay, eccentricity),
+    from: 'tle',
+    source: 'test',
+    ...drag,
+  };
+}
+
+// The TLE n-dot / 2 (rev/day^2) of a circular orbit decaying through the model atmosphere with
+// ballistic coefficient Cd * A / m: da/dt = -rho B sqrt(mu a), and n ~ a^(-3/2)
+function meanMotionDotFor(el: GpElement, ballistic: number) {
+  const a = el.semiMajorAxisKm * 1000;
+  const dadtKmPerDay = (densityAt(el.semiMajorAxisKm - EARTH_RADIUS_KM) * ballistic * Math.sqrt(3.986004418e14 * a) * 86400) / 1000;
+  return (1.5 * (el.meanMotionRevPerDay / el.semiMajorAxisKm) * dadtKmPerDay) / 2;
+}
+
+// B* (1/ER) of a ballistic coefficient, as SGP4 defines it with rho0 = 0.15696615 kg/m^2/ER
+const bstarFor = (ballistic: number) => (ballistic * 0.15696615) / 2;
+
+describe('re-entry estimates', () => {
+  test('without a positive drag term there is no estimate', () => {
+    assert.equal(estimateReentry(element(200), 365), null);
+    assert.equal(estimateReentry(element(200, 0, { bstar: -1e-4, meanMotionDot: -1e-4 }), 365), null);
+  });
+
+  test('B* alone gives a bstar estimate with its ballistic coefficient', () => {
+    const e = estimateReentry(element(200, 0, { bstar: bstarFor(0.01) }), 365)!;
+    assert.equal(e.method, 'bstar');
+    assert.equal(e.ballisticM2Kg, 0.01);
+    // a compact satellite at 200 km lasts a few days
+    const nominal = days(EPOCH, e.nominal);
+    assert.ok(nominal > 1 && nominal < 10, String(nominal));
+    assert.ok(e.windowStart < e.nominal && e.nominal < e.windowEnd);
+  });
+
+  test('the observed n-dot wins over B* and recovers the ballistic coefficient behind it', () => {
+    const el = element(300);
+    const e = estimateReentry({ ...el, meanMotionDot: meanMotionDotFor(el, 0.02), bstar: bstarFor(0.005) }, 3650)!;
+    assert.equal(e.method, 'mean_motion_dot');
+    assert.ok(Math.abs(e.ballisticM2Kg - 0.02) < 2e-4, String(e.ballisticM2Kg));
+    // same drag either way: the same nominal time as B* for that coefficient
+    const same = estimateReentry({ ...el, bstar: bstarFor(0.02) }, 3650)!;
+    assert.ok(Math.abs(days(e.nominal, same.nominal)) < 0.01 * days(EPOCH, same.nominal));
+  });
+
+  test('the window is +-25 % of the time left and also covers a disagreeing B*', () => {
+    const el = element(300);
+    const meanMotionDot = meanMotionDotFor(el, 0.02);
+    const agree = estimateReentry({ ...el, meanMotionDot, bstar: bstarFor(0.02) }, 3650)!;
+    const left = days(EPOCH, agree.nominal);
+    assert.ok(Math.abs(days(EPOCH, agree.windowStart) - 0.75 * left) < 0.01 * left);
+    assert.ok(Math.abs(days(EPOCH, agree.windowEnd) - 1.25 * left) < 0.01 * left);
+
+    // B* says the object is twice as draggy: it comes down in about half the time
+    const disagree = estimateReentry({ ...el, meanMotionDot, bstar: bstarFor(0.04) }, 3650)!;
+    assert.equal(disagree.nominal, agree.nominal);
+    assert.equal(disagree.windowEnd, agree.windowEnd);
+    assert.ok(Math.abs(days(EPOCH, disagree.windowStart) - 0.75 * (left / 2)) < 0.02 * left);
+  });
+
+  test('the window is never narrower than one revolution either side', () => {
+    const el = element(122, 0, { bstar: bstarFor(0.05) });
+    const e = estimateReentry(el, 365)!;
+    assert.ok(days(EPOCH, e.nominal) < 0.02);
+    assert.equal(e.windowStart, EPOCH);
+    assert.ok(days(e.nominal, e.windowEnd) >= el.periodMin / 1440 - 1 / 1440);
+  });
+
+  test('higher and lighter-dragged objects come down later', () => {
+    const nominal = (perigeeKm: number, ballistic: number) => days(EPOCH, estimateReentry(element(perigeeKm, 0, { bstar: bstarFor(ballistic) }), 3650)!.nominal);
+    assert.ok(nominal(180, 0.01) < nominal(220, 0.01));
+    assert.ok(nominal(220, 0.01) < nominal(220, 0.005));
+    // halving the drag doubles the lifetime
+    assert.ok(Math.abs(nominal(220, 0.005) / nominal(220, 0.01) - 2) < 0.01);
+  });
+
+  test('eccentric orbits decay from near perigee, later than a circular orbit there', () => {
+    const bstar = bstarFor(0.01);
+    const circular = estimateReentry(element(200, 0, { bstar }), 3650)!;
+    const eccentric = estimateReentry(element(200, 0.02, { bstar }), 3650)!;
+    assert.ok(eccentric.nominal > circular.nominal);
+    // but far sooner than a circular orbit at its apogee
+    const high = element(200, 0.02).apogeeKm;
+    assert.ok(eccentric.nominal < estimateReentry(element(high, 0, { bstar }), 36500)!.nominal);
+  });
+
+  test('estimates past the horizon are dropped', () => {
+    const el = element(400, 0, { bstar: bstarFor(0.005) });
+    assert.equal(estimateReentry(el, 30), null);
+    const far = estimateReentry(el, 36500)!;
+    assert.ok(days(EPOCH, far.nominal) > 30);
+    assert.equal(lifetimeDays(400, 0.005, 30), null);
+  });
+});
+
+describe('re-entry report', () => {
+  const object: SatObject = {
+    noradId: 90000,
+    name: 'TEST DEB',
+    cosparId: '2025-001A',
+    objectType: 'DEBRIS',
+    owner: null,
+    launchDate: '2025-01-01',
+    launchSite: null,
+    decayDate: null,
+    rcsM2: null,
+    rcsSize: 'SMALL',
+    opsStatus: null,
+    sources: ['satcat'],
+  };
+  const config = { perigeeKm: 250, horizonDays: 365 };
+
+  test('screens by perigee, names objects and carries earlier estimates of other epochs', () => {
+    const low = element(200, 0, { bstar: bstarFor(0.01) });
+    const high = { ...element(300, 0, { bstar: bstarFor(0.01) }), noradId: 90001 };
+    const first = reentryReport([low, high], [object], config, '2025-09-28T00:00:00Z', null);
+    assert.deepEqual(
+      first.records.map((r) => [r.noradId, r.name, r.objectType, r.previous.length]),
+      [[90000, 'TEST DEB', 'DEBRIS', 0]]
+    );
+
+    // an hour repeating the element set does not add an earlier estimate
+    const same = reentryReport([low], [object], config, '2025-09-28T06:00:00Z', first);
+    assert.equal(same.records[0].previous.length, 0);
+
+    const newer = { ...low, epoch: '2025-09-28T12:00:00.000Z', perigeeKm: 190 };
+    const next: ReentryReport = reentryReport([newer], [object], config, '2025-09-28T18:00:00Z', same);
+    assert.deepEqual(next.records[0].previous, [
+      {
+        generatedAt: '2025-09-28T06:00:00Z',
+        epoch: EPOCH,
+        nominal: first.records[0].nominal,
+        windowStart: first.records[0].windowStart,
+        windowEnd: first.records[0].windowEnd,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,161 @@
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import http from 'http';
+import { after, before, describe, mock, test } from 'node:test';
+import { collect, networkTransport } from '../lib/collect';
+import { createRateLimiter, createSpaceTrackClient, spaceTrackSources } from '../lib/spacetrack';
+import { fixture, mockServer, quiet, tempDir } from './helpers';
+import type { SnapshotIndex } from '../../src/shared/schema';
+
+const SESSION = 'chocolatechip=abc123';
+
+// Space-Track as the client sees it: a form login that sets the session cookie, and queries
+// that answer 401 without it. `expire` drops the session, as Space-Track does after ~2 h.
+function spaceTrack(server: ReturnType<typeof mockServer>, answer: (path: string) => string) {
+  const logins: string[] = [];
+  let session = true;
+  server.handle((req: http.IncomingMessage, res: http.ServerResponse) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      if (req.url === '/ajaxauth/login') {
+        logins.push(body);
+        session = true;
+        res.writeHead(200, { 'Set-Cookie': `${SESSION}; path=/; HttpOnly` }).end('""');
+      } else if (req.url === '/ajaxauth/logout') {
+        res.writeHead(200).end();
+      } else if (req.headers.cookie !== SESSION || !session) {
+        res.writeHead(401).end();
+      } else {
+        res.writeHead(200).end(answer(req.url!));
+      }
+    });
+  });
+  return {
+    logins,
+    expire: () => {
+      session = false;
+    },
+  };
+}
+
+describe('Space-Track client', () => {
+  const server = mockServer();
+  let base: string;
+  const client = () => createSpaceTrackClient({ baseUrl: base, username: 'user@example.com', password: 'p&ss' });
+  before(async () => {
+    quiet();
+    base = await server.start();
+  });
+  after(async () => {
+    mock.restoreAll();
+    await server.stop();
+  });
+
+  test('logs in once and sends the session cookie with every query', async () => {
+    const st = spaceTrack(server, (path) => `"${path}"`);
+    const c = client();
+    const [a, b] = await Promise.all([c.query('/a'), c.query('/b')]);
+    assert.deepEqual([a, b], ['"/a"', '"/b"']);
+    assert.equal(st.logins.length, 1);
+    assert.deepEqual(Object.fromEntries(new URLSearchParams(st.logins[0])), { identity: 'user@example.com', password: 'p&ss' });
+    assert.deepEqual(
+      server.requests.filter((r) => r.url !== '/ajaxauth/login').map((r) => r.headers.cookie),
+      [SESSION, SESSION]
+    );
+  });
+
+  test('logs in again when the session has expired', async () => {
+    const st = spaceTrack(server, () => '[]');
+    const c = client();
+    assert.equal(await c.query('/a'), '[]');
+    st.expire();
+    assert.equal(await c.query('/b'), '[]');
+    assert.equal(st.logins.length, 2);
+    assert.deepEqual(server.requests.map((r) => r.url), ['/ajaxauth/login', '/a', '/b', '/ajaxauth/login', '/b']);
+  });
+
+  test('gives up on a rejected login', async () => {
+    server.handle((_req, res) => res.writeHead(200).end('{"Login":"Failed"}'));
+    assert.equal(await client().query('/a', 0), null);
+  });
+});
+
+describe('rate limiter', () => {
+  test('waits until the oldest request leaves the window', async () => {
+    let t = 0;
+    const waits: number[] = [];
+    const limiter = createRateLimiter(
+      [
+        { max: 2, windowMs: 1000 },
+        { max: 3, windowMs: 10000 },
+      ],
+      () => t,
+      async (ms) => {
+        waits.push(ms);
+        t += ms;
+      }
+    );
+    const served: number[] = [];
+    await Promise.all([0, 1, 2, 3].map(() => limiter.acquire().then(() => served.push(t))));
+    // two in the first second, the third when the first leaves the 1 s window, the fourth when
+    // the first leaves the 10 s window
+    assert.deepEqual(served, [0, 0, 1000, 10000]);
+    assert.deepEqual(waits, [1000, 9000]);
+  });
+});
+
+describe('gp_history cursor', () => {
+  const server = mockServer();
+  let base: string;
+  let root: string;
+  before(async () => {
+    quiet();
+    base = await server.start();
+    root = await tempDir();
+  });
+  after(async () => {
+    mock.restoreAll();
+    await server.stop();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  test('starts a day back and continues from the newest CREATION_DATE collected', async () => {
+    const [iss] = JSON.parse(await fixture('gp_active.json'));
+    const pages = [
+      [
+        { ...iss, CREATION_DATE: '2025-09-27T06:00:00' },
+        { ...iss, EPOCH: '2025-09-27T01:00:00.000000', CREATION_DATE: '2025-09-27T12:34:56' },
+      ],
+      [],
+    ];
+    spaceTrack(server, () => JSON.stringify(pages.shift()));
+    const sources = spaceTrackSources(createSpaceTrackClient({ baseUrl: base, username: 'u', password: 'p' }));
+    const history = sources.filter((s) => s.key === 'spaceTrackGpHistory');
+    const run = (now: string, hourPath: string) =>
+      collect({
+        dataRoot: root,
+        sources: history,
+        now: new Date(now),
+        hourPath,
+        transport: networkTransport,
+        dryRun: false,
+        conjunctions: null,
+        reentries: null,
+        constellations: { staleDays: 3 },
+      });
+
+    const first = await run('2025-09-27T18:00:00Z', '2025/09/28/03');
+    assert.equal(first.index.cursors?.spaceTrackGpHistory, '2025-09-27T12:34:56');
+    // an empty page keeps the cursor
+    const second = await run('2025-09-28T00:00:00Z', '2025/09/28/09');
+    assert.equal(second.index.cursors?.spaceTrackGpHistory, '2025-09-27T12:34:56');
+    const index: SnapshotIndex = JSON.parse(await fs.readFile(`${root}/latest/index.json`, 'utf-8'));
+    assert.equal(index.cursors?.spaceTrackGpHistory, '2025-09-27T12:34:56');
+
+    const queries = server.requests.map((r) => decodeURIComponent(r.url!)).filter((u) => u.includes('gp_history'));
+    assert.equal(queries.length, 2);
+    assert.match(queries[0], /CREATION_DATE\/>2025-09-26T18:00:00\//);
+    assert.match(queries[1], /CREATION_DATE\/>2025-09-27T12:34:56\//);
+  });
+});
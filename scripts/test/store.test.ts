@@ -0,0 +1,198 @@
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import path from 'path';
+import { after, before, describe, test } from 'node:test';
+import { compact, rollupVictims } from '../lib/compact';
+import { readStoreManifest, readSnapshotFile, sha256, writeBlob } from '../lib/store';
+import { tempDir } from './helpers';
+import { applyLineDelta, blobPath, encodeLineDelta } from '../../src/shared/store';
+import type { DayRollup, SnapshotManifest } from '../../src/shared/schema';
+
+describe('line deltas', () => {
+  test('rebuild the text from the base', () => {
+    const pairs: Array<[string, string]> = [
+      ['a\nb\nc\n', 'a\nb\nc\n'],
+      ['a\nb\nc\n', 'a\nx\nc\nd\n'],
+      ['', 'a\nb'],
+      ['a\nb', ''],
+      // repeated lines and reordering
+      ['x\nx\ny\nz', 'z\ny\nx\nx\nx'],
+      ['1\n2\n3\n4\n5', '1\n2\n4\n5\n6'],
+    ];
+    for (const [base, text] of pairs) assert.equal(applyLineDelta(base, encodeLineDelta(base, text)), text, JSON.stringify(text));
+  });
+
+  test('copy unchanged lines as runs', () => {
+    assert.deepEqual(encodeLineDelta('a\nb\nc\nd', 'a\nb\nX\nd'), [[0, 2], 'X', [3, 1]]);
+  });
+});
+
+// A TLE file of `n` objects in which object `changed` carries a newer epoch
+function tleFile(n: number, changed: number, epoch: number) {
+  const lines: string[] = [];
+  for (let i = 0; i < n; i++) {
+    lines.push(`OBJECT ${i}`);
+    lines.push(`1 ${String(10000 + i).padStart(5, '0')}U 98067A   25270.${String(i === changed ? epoch : 0).padStart(8, '0')}  .00000000  00000-0  00000-0 0  9990`);
+    lines.push(`2 ${String(10000 + i).padStart(5, '0')}  51.6400 ${String(i).padStart(8, ' ')} 0001000  90.0000 270.0000 15.50000000    10`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+describe('compaction', () => {
+  let root: string;
+  // hour path -> file name -> contents as collected
+  const written = new Map<string, Map<string, Buffer>>();
+  const hours = [
+    ['2025/09/28/03', '2025-09-27T18:19:50Z'],
+    ['2025/09/28/09', '2025-09-28T00:19:50Z'],
+    ['2025/09/28/15', '2025-09-28T06:19:50Z'],
+    ['2025/09/28/21', '2025-09-28T12:19:50Z'],
+    ['2025/09/29/03', '2025-09-28T18:19:50Z'],
+    ['2025/09/29/09', '2025-09-29T00:19:50Z'],
+  ];
+
+  async function writeHour(hourPath: string, generatedAt: string, k: number) {
+    const files = new Map<string, Buffer>([
+      ['gp_active.tle', Buffer.from(tleFile(30, k, k + 1))],
+      ['columns.bin', Buffer.from([0xff, 0xfe, k, 0, 1, 2, 3])],
+      [
+        'changes.json',
+        Buffer.from(JSON.stringify({ schema: 'changes', version: 1, generatedAt, records: [{ kind: 'maneuver', noradId: 10000 + k }] })),
+      ],
+    ]);
+    const dir = path.join(root, hourPath);
+    await fs.mkdir(dir, { recursive: true });
+    for (const [name, data] of files) await fs.writeFile(path.join(dir, name), data);
+    const counts = { gpActiveTle: 30 };
+    await fs.writeFile(path.join(dir, 'index.json'), JSON.stringify({ generatedAt, hourPath, counts, files: {} }));
+    written.set(hourPath, files);
+  }
+
+  async function assertReadable(hourPath: string) {
+    for (const [name, data] of written.get(hourPath)!) {
+      assert.deepEqual(await readSnapshotFile(path.join(root, hourPath), name), data, `${hourPath}/${name}`);
+    }
+  }
+
+  before(async () => {
+    root = await tempDir();
+    for (const [k, [hourPath, generatedAt]] of hours.entries()) await writeHour(hourPath, generatedAt, k);
+    await fs.mkdir(path.join(root, 'latest'));
+    await fs.writeFile(path.join(root, 'latest', 'index.json'), JSON.stringify({ hourPath: '2025/09/28/21' }));
+  });
+  after(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  test('stores text files as line deltas within a day and restores every file', async () => {
+    const stray = await writeBlob(root, 'no manifest refers to this');
+    const r = await compact(root, { keepRaw: 2, hourlyDays: 14 }, new Date('2025-09-29T01:00:00Z'));
+    assert.equal(r.rolledUp, 0);
+    assert.equal(r.compacted, 4);
+    assert.ok(r.storedBytes < r.rawBytes);
+    assert.equal(r.removedBlobs, 1);
+    await assert.rejects(fs.access(path.join(root, blobPath(stray))));
+
+    const entries = [];
+    for (const [hourPath] of hours) {
+      await assertReadable(hourPath);
+      entries.push((await readStoreManifest(path.join(root, hourPath)))?.files ?? null);
+    }
+    // the newest two hours stay as plain files
+    assert.equal(entries[4], null);
+    assert.equal(entries[5], null);
+    const tle = entries.slice(0, 4).map((e) => e!['gp_active.tle']);
+    assert.equal(tle[0].deltas, undefined);
+    assert.deepEqual(
+      tle.map((e) => e.deltas?.length ?? 0),
+      [0, 1, 2, 3]
+    );
+    assert.ok(tle.every((e) => e.blob === tle[0].blob));
+    assert.deepEqual(tle[3].deltas!.slice(0, 2), tle[2].deltas);
+    for (const [k, e] of tle.entries()) assert.equal(e.sha256, sha256(written.get(hours[k][0])!.get('gp_active.tle')!));
+    // binary files are stored whole
+    assert.ok(entries.slice(0, 4).every((e) => !e!['columns.bin'].deltas));
+  });
+
+  test('continues the day chain of hours compacted by an earlier run', async () => {
+    await writeHour('2025/09/29/15', '2025-09-29T06:19:50Z', 6);
+    hours.push(['2025/09/29/15', '2025-09-29T06:19:50Z']);
+    const r = await compact(root, { keepRaw: 0, hourlyDays: 14 }, new Date('2025-09-29T07:00:00Z'));
+    assert.equal(r.compacted, 3);
+    for (const [hourPath] of hours) await assertReadable(hourPath);
+    const tle = async (hourPath: string) => (await readStoreManifest(path.join(root, hourPath)))!.files['gp_active.tle'];
+    // a new day starts from a keyframe
+    assert.equal((await tle('2025/09/29/03')).deltas, undefined);
+    assert.equal((await tle('2025/09/29/15')).deltas?.length, 2);
+    assert.equal((await tle('2025/09/29/15')).blob, (await tle('2025/09/29/03')).blob);
+
+    const manifest: SnapshotManifest = JSON.parse(await fs.readFile(path.join(root, 'manifest.json'), 'utf-8'));
+    assert.deepEqual(
+      manifest.hours.map((h) => h.hourPath),
+      hours.map(([hourPath]) => hourPath)
+    );
+    assert.deepEqual(manifest.hours[0].files, ['changes.json', 'columns.bin', 'gp_active.tle']);
+  });
+
+  test('rolls old days up to their first hour and keeps the changes of the hours removed', async () => {
+    const r = await compact(root, { keepRaw: 0, hourlyDays: 1 }, new Date('2025-10-05T00:00:00Z'));
+    // the hour latest/ points at stays
+    assert.equal(r.rolledUp, 4);
+    const manifest: SnapshotManifest = JSON.parse(await fs.readFile(path.join(root, 'manifest.json'), 'utf-8'));
+    assert.deepEqual(
+      manifest.hours.map((h) => h.hourPath),
+      ['2025/09/28/03', '2025/09/28/21', '2025/09/29/03']
+    );
+    for (const hourPath of ['2025/09/28/03', '2025/09/28/21', '2025/09/29/03']) await assertReadable(hourPath);
+    await assert.rejects(fs.access(path.join(root, '2025/09/28/09')));
+
+    const rollup: DayRollup = JSON.parse(await fs.readFile(path.join(root, '2025/09/28/rollup.json'), 'utf-8'));
+    assert.equal(rollup.schema, 'day_rollup');
+    assert.equal(rollup.day, '2025/09/28');
+    assert.deepEqual(rollup.hours, [
+      { hourPath: '2025/09/28/09', generatedAt: '2025-09-28T00:19:50Z', counts: { gpActiveTle: 30 } },
+      { hourPath: '2025/09/28/15', generatedAt: '2025-09-28T06:19:50Z', counts: { gpActiveTle: 30 } },
+    ]);
+    assert.deepEqual(rollup.records, [
+      { kind: 'maneuver', noradId: 10001, hourPath: '2025/09/28/09' },
+      { kind: 'maneuver', noradId: 10002, hourPath: '2025/09/28/15' },
+    ]);
+    const next: DayRollup = JSON.parse(await fs.readFile(path.join(root, '2025/09/29/rollup.json'), 'utf-8'));
+    assert.deepEqual(
+      next.records.map((c) => c.hourPath),
+      ['2025/09/29/09', '2025/09/29/15']
+    );
+  });
+
+  test('adds to an existing rollup once latest/ moves on', async () => {
+    await fs.writeFile(path.join(root, 'latest', 'index.json'), JSON.stringify({ hourPath: '2025/09/29/03' }));
+    const r = await compact(root, { keepRaw: 0, hourlyDays: 1 }, new Date('2025-10-05T01:00:00Z'));
+    assert.equal(r.rolledUp, 1);
+    const rollup: DayRollup = JSON.parse(await fs.readFile(path.join(root, '2025/09/28/rollup.json'), 'utf-8'));
+    assert.deepEqual(
+      rollup.hours.map((h) => h.hourPath),
+      ['2025/09/28/09', '2025/09/28/15', '2025/09/28/21']
+    );
+    assert.deepEqual(
+      rollup.records.map((c) => c.noradId),
+      [10001, 10002, 10003]
+    );
+    // the deltas only the removed hours used are gone with them
+    assert.ok(r.removedBlobs > 0);
+    await assertReadable('2025/09/28/03');
+  });
+
+  test('picks the non-first hours of days before the cutoff', () => {
+    const h = (hourPath: string, generatedAt: string) => ({ hourPath, generatedAt, files: [] });
+    const list = [
+      h('2025/09/28/03', '2025-09-27T18:00:00Z'),
+      h('2025/09/28/09', '2025-09-28T00:00:00Z'),
+      h('2025/09/28/15', '2025-09-28T06:00:00Z'),
+      h('2025/09/29/03', '2025-09-28T18:00:00Z'),
+      h('2025/09/29/09', '2025-09-29T00:00:00Z'),
+    ];
+    const cutoff = Date.parse('2025-09-28T23:00:00Z');
+    assert.deepEqual(rollupVictims(list, cutoff, undefined), ['2025/09/28/09', '2025/09/28/15']);
+    assert.deepEqual(rollupVictims(list, cutoff, '2025/09/28/15'), ['2025/09/28/09']);
+  });
+});
@@ -1,16 +1,59 @@
-import React, { useEffect, useState } from 'react'
-import { MapLibreGlobe } from './components/MapLibreGlobe'
-
-type SatIndex = {
-  generatedAt: string
-  timeZone: string
-  hourPath: string
-  counts: { gpActive: number; satcatOnOrbitPayloads: number; supgpSpacex: number }
-  files: { gpActive: string; satcatOnOrbitPayloads: string; supgpSpacex: string }
+import React, { useEffect, useMemo, useState } from 'react'
+import { AoiPanel } from './components/AoiPanel'
+import { ChangesPanel } from './components/ChangesPanel'
+import { ConjunctionPanel } from './components/ConjunctionPanel'
+import { ConstellationDashboard } from './components/ConstellationDashboard'
+import { ExportPanel } from './components/ExportPanel'
+import { FilterPanel } from './components/FilterPanel'
+import { HistoryPanel } from './components/HistoryPanel'
+import { CategoryPalette, DEFAULT_CATEGORY_COLORS, FootprintRequest, MapLibreGlobe } from './components/MapLibreGlobe'
+import { PassPanel } from './components/PassPanel'
+import { ReentryPanel } from './components/ReentryPanel'
+import { SensorPanel } from './components/SensorPanel'
+import { SatelliteDetails } from './components/SatelliteDetails'
+import { TimeControls } from './components/TimeControls'
+import { AoiOverlay, reindexOverlay } from './lib/aoi'
+import { BASEMAPS, BasemapId, isBasemapId } from './lib/basemap'
+import { CatalogFilter, EMPTY_FILTER, applyFilter, buildCatalogIndex } from './lib/catalogFilter'
+import { ConjunctionView, conjunctionPairs, conjunctionSet } from './lib/conjunctions'
+import type { CoverageGrid, CoverageRequest } from './lib/coverage'
+import { reentryMarkers, reentrySet } from './lib/reentries'
+import {
+  CatalogTle,
+  fetchManifest,
+  loadCatalog,
+  loadChanges,
+  loadConjunctions,
+  loadObjects,
+  loadReentries,
+  loadSp3,
+  loadableHours,
+  nearestHour,
+  snapshotBase,
+} from './lib/snapshots'
+import { useSimClock } from './lib/useSimClock'
+import type { Observer } from './shared/passes'
+import type { ChangesReport, ConjunctionReport, ReentryReport, SatObject, SnapshotIndex, SnapshotManifest, Sp3Ephemeris } from './shared/schema'
+import { tleNoradId } from './shared/tle'
+
+// Pages by location hash: the globe, or #constellations for the constellation dashboard
+type Page = 'globe' | 'constellations'
+
+const pageFromHash = (): Page => (window.location.hash === '#constellations' ? 'constellations' : 'globe')
+
+function usePage() {
+  const [page, setPage] = useState<Page>(pageFromHash)
+  useEffect(() => {
+    const onHash = () => setPage(pageFromHash())
+    window.addEventListener('hashchange', onHash)
+    return () => window.removeEventListener('hashchange', onHash)
+  }, [])
+  return page
 }
 
 export default function App() {
-  const [data, setData] = useState<SatIndex | null>(null)
+  const page = usePage()
+  const [data, setData] = useState<SnapshotIndex | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [loading, setLoading] = useState(true)
 
@@ -24,7 +67,7 @@ export default function App() {
         setLoading(true)
         const res = await fetch(url)
         if (!res.ok) throw new Error(`HTTP ${res.status}`)
-        const json = (await res.json()) as SatIndex
+        const json = (await res.json()) as SnapshotIndex
         if (!alive) return
         setData(json)
       } catch (e: any) {
@@ -49,78 +92,387 @@ export default function App() {
       <p>
         生成: <code>{data.generatedAt}</code> / 時間帯: <code>{data.hourPath}</code>
       </p>
-      {/* Globe visualization using a subset of OMM objects */}
-      <section style={{ marginTop: 16 }}>
-        <LoadTleAndRender />
-      </section>
+      {Object.entries(data.status ?? {})
+        .filter(([, s]) => s.status !== 'ok')
+        .map(([key, s]) => (
+          <p key={key} style={{ color: '#ff9050' }}>
+            {key}: {s.status}
+            {s.error ? ` (${s.error})` : ''}
+          </p>
+        ))}
+      <nav style={{ display: 'flex', gap: 12 }}>
+        {page === 'globe' ? <b>地球儀</b> : <a href="#">地球儀</a>}
+        {page === 'constellations' ? <b>コンステレーション</b> : <a href="#constellations">コンステレーション</a>}
+      </nav>
+      {/* Globe visualization of the full catalog, or the per-constellation dashboard */}
+      <section style={{ marginTop: 16 }}>{page === 'globe' ? <LoadTleAndRender /> : <ConstellationDashboard />}</section>
       <ul>
         <li>gp_active 件数: <b>{data.counts.gpActive}</b></li>
         <li>satcat_onorbit_payloads 行数: <b>{data.counts.satcatOnOrbitPayloads}</b></li>
         <li>supgp_spacex 件数: <b>{data.counts.supgpSpacex}</b></li>
       </ul>
       <p>最新ファイル:</p>
+      {/* files this collection wrote; a failed source keeps its earlier file in latest/ */}
       <ul>
-        <li>
-          <a href={`data/latest/${data.files.gpActive}`} target="_blank" rel="noreferrer">
-            {data.files.gpActive}
-          </a>
-        </li>
-        <li>
-          <a href={`data/latest/${data.files.satcatOnOrbitPayloads}`} target="_blank" rel="noreferrer">
-            {data.files.satcatOnOrbitPayloads}
-          </a>
-        </li>
-        <li>
-          <a href={`data/latest/${data.files.supgpSpacex}`} target="_blank" rel="noreferrer">
-            {data.files.supgpSpacex}
-          </a>
-        </li>
+        {['gpActive', 'satcatOnOrbitPayloads', 'supgpSpacex'].map(
+          (key) =>
+            data.files[key] && (
+              <li key={key}>
+                <a href={`data/latest/${data.files[key]}`} target="_blank" rel="noreferrer">
+                  {data.files[key]}
+                </a>
+              </li>
+            )
+        )}
       </ul>
 
     </div>
   )
 }
 
+const UPDATE_INTERVALS_MS = [250, 500, 1000, 2000, 5000]
+
+// Sim time is checked this often when following the nearest snapshot
+const FOLLOW_CHECK_MS = 2000
+
+// ?basemap=offline|imagery overrides the default, which is imagery unless the browser is offline
+function initialBasemap(): BasemapId {
+  const param = new URLSearchParams(window.location.search).get('basemap')
+  if (isBasemapId(param)) return param
+  return navigator.onLine ? 'imagery' : 'offline'
+}
+
 const LoadTleAndRender: React.FC = () => {
-  const [tles, setTles] = useState<Array<{ name?: string; l1: string; l2: string }> | null>(null)
-  const [typesBySatnum, setTypesBySatnum] = useState<Record<number, string>>({})
+  const clock = useSimClock()
+  const [manifest, setManifest] = useState<SnapshotManifest | null>(null)
+  // null = data/latest
+  const [hourPath, setHourPath] = useState<string | null>(null)
+  const [follow, setFollow] = useState(false)
+  const [tles, setTles] = useState<CatalogTle[] | null>(null)
   const [err, setErr] = useState<string | null>(null)
+  const [propagationErr, setPropagationErr] = useState<string | null>(null)
+  const [updateIntervalMs, setUpdateIntervalMs] = useState(1000)
+  const [basemap, setBasemap] = useState<BasemapId>(initialBasemap)
+  const [terminator, setTerminator] = useState(true)
+  // Selection is kept by NORAD ID so it survives switching snapshots
+  const [selectedId, setSelectedId] = useState<number | null>(null)
+  const [objects, setObjects] = useState<Map<number, SatObject> | null | undefined>(undefined)
+
   useEffect(() => {
-    ;(async () => {
-      try {
-        const [tleRes, gpRes] = await Promise.all([
-          fetch('data/latest/gp_active.tle'),
-          fetch('data/latest/gp_active.json')
-        ])
-        if (!tleRes.ok) throw new Error(`HTTP ${tleRes.status}`)
-        const text = await tleRes.text()
-        const lines = text.split(/\r?\n/)
-        const out: Array<{ name?: string; l1: string; l2: string }> = []
-        for (let i = 0; i < lines.length; i++) {
-          const line = lines[i].trim()
-          if (line.startsWith('1 ') && i + 1 < lines.length && lines[i + 1].startsWith('2 ')) {
-            const name = i > 0 && !lines[i - 1].startsWith('1 ') && !lines[i - 1].startsWith('2 ') ? lines[i - 1].trim() : undefined
-            out.push({ name, l1: line, l2: lines[i + 1].trim() })
-            i++
-          }
-        }
-        setTles(out)
-        if (gpRes.ok) {
-          const gp = await gpRes.json()
-          const map: Record<number, string> = {}
-          for (const o of gp as any[]) {
-            const satnum = Number(o.NORAD_CAT_ID)
-            const typ = String(o.OBJECT_TYPE || '')
-            if (!Number.isNaN(satnum)) map[satnum] = typ
-          }
-          setTypesBySatnum(map)
-        }
-      } catch (e: any) {
-        setErr(e?.message ?? String(e))
-      }
-    })()
+    fetchManifest()
+      .then(setManifest)
+      .catch(() => setManifest(null))
   }, [])
-  if (err) return <div>Error loading TLE: {err}</div>
-  if (!tles) return <div>Loading TLE…</div>
-  return <MapLibreGlobe tles={tles} typesBySatnum={typesBySatnum} />
+
+  useEffect(() => {
+    let alive = true
+    setErr(null)
+    setPropagationErr(null)
+    loadCatalog(snapshotBase(hourPath))
+      .then((list) => alive && setTles(list))
+      .catch((e: any) => alive && setErr(e?.message ?? String(e)))
+    return () => {
+      alive = false
+    }
+  }, [hourPath])
+
+  // objects.json feeds the owner filter and the details panel; older snapshots have none
+  useEffect(() => {
+    let alive = true
+    setObjects(undefined)
+    loadObjects(snapshotBase(hourPath))
+      .catch(() => null)
+      .then((m) => alive && setObjects(m))
+    return () => {
+      alive = false
+    }
+  }, [hourPath])
+
+  const [conjunctionReport, setConjunctionReport] = useState<ConjunctionReport | null>(null)
+  useEffect(() => {
+    let alive = true
+    setConjunctionReport(null)
+    loadConjunctions(snapshotBase(hourPath))
+      .catch(() => null)
+      .then((r) => alive && setConjunctionReport(r))
+    return () => {
+      alive = false
+    }
+  }, [hourPath])
+
+  const [changes, setChanges] = useState<ChangesReport | null>(null)
+  useEffect(() => {
+    let alive = true
+    setChanges(null)
+    loadChanges(snapshotBase(hourPath))
+      .catch(() => null)
+      .then((r) => alive && setChanges(r))
+    return () => {
+      alive = false
+    }
+  }, [hourPath])
+
+  const [reentryReport, setReentryReport] = useState<ReentryReport | null>(null)
+  useEffect(() => {
+    let alive = true
+    setReentryReport(null)
+    loadReentries(snapshotBase(hourPath))
+      .catch(() => null)
+      .then((r) => alive && setReentryReport(r))
+    return () => {
+      alive = false
+    }
+  }, [hourPath])
+
+  // Precise orbits replace SGP4 for the GNSS satellites they cover, within their time span
+  const [sp3, setSp3] = useState<Sp3Ephemeris | null>(null)
+  useEffect(() => {
+    let alive = true
+    setSp3(null)
+    loadSp3(snapshotBase(hourPath))
+      .catch(() => null)
+      .then((r) => alive && setSp3(r))
+    return () => {
+      alive = false
+    }
+  }, [hourPath])
+
+  const [observer, setObserver] = useState<Observer | null>(null)
+  const [aoiSource, setAoi] = useState<AoiOverlay | null>(null)
+  const [pickingLocation, setPickingLocation] = useState(false)
+  const [codes, setCodes] = useState<Uint8Array | null>(null)
+  const [filter, setFilter] = useState<CatalogFilter>(EMPTY_FILTER)
+  const [palette, setPalette] = useState<CategoryPalette>(DEFAULT_CATEGORY_COLORS)
+  useEffect(() => setCodes(null), [tles])
+  const catalogIndex = useMemo(() => (tles ? buildCatalogIndex(tles, objects ?? null) : null), [tles, objects])
+  const filtered = useMemo(
+    () =>
+      catalogIndex && codes && codes.length === catalogIndex.noradId.length
+        ? applyFilter(catalogIndex, codes, filter)
+        : null,
+    [catalogIndex, codes, filter]
+  )
+
+  const selectedIndex = useMemo(() => {
+    if (selectedId === null || !tles) return null
+    const i = tles.findIndex((t) => tleNoradId(t.l1) === selectedId)
+    return i >= 0 ? i : null
+  }, [tles, selectedId])
+
+  const aoi = useMemo(() => (aoiSource && tles ? reindexOverlay(aoiSource, tles) : null), [aoiSource, tles])
+
+  const conjunctions = useMemo(
+    () => (conjunctionReport && tles ? conjunctionSet(conjunctionReport, tles) : null),
+    [conjunctionReport, tles]
+  )
+  const [focusedConjunction, setFocusedConjunction] = useState<ConjunctionView | null>(null)
+  const [showAllConjunctions, setShowAllConjunctions] = useState(false)
+  useEffect(() => setFocusedConjunction(null), [conjunctions])
+  const pairs = useMemo(() => {
+    if (focusedConjunction) return conjunctionPairs([focusedConjunction])
+    return showAllConjunctions && conjunctions ? conjunctionPairs(conjunctions.events) : null
+  }, [focusedConjunction, showAllConjunctions, conjunctions])
+
+  const reentries = useMemo(() => (reentryReport && tles ? reentrySet(reentryReport, tles) : null), [reentryReport, tles])
+  const [showReentries, setShowReentries] = useState(true)
+  const markers = useMemo(
+    () => (showReentries && reentries ? reentryMarkers(reentries.candidates) : null),
+    [showReentries, reentries]
+  )
+
+  // Footprints and coverage refer to catalog indices, so a new catalog drops the coverage
+  const [footprints, setFootprints] = useState<FootprintRequest | null>(null)
+  const [coverage, setCoverage] = useState<CoverageRequest | null>(null)
+  const [coverageGrid, setCoverageGrid] = useState<CoverageGrid | null>(null)
+  useEffect(() => setCoverage(null), [tles])
+  useEffect(() => setCoverageGrid(null), [coverage])
+
+  const hours = useMemo(() => (manifest ? loadableHours(manifest) : []), [manifest])
+  const pickNearest = () => {
+    const h = nearestHour(hours, clock.getTime())
+    if (h) setHourPath(h.hourPath)
+  }
+
+  // While following, swap snapshots as the sim clock crosses the midpoint between two of them
+  useEffect(() => {
+    if (!follow || !hours.length) return
+    const check = () => {
+      const h = nearestHour(hours, clock.getTime())
+      if (h) setHourPath((cur) => (cur === h.hourPath ? cur : h.hourPath))
+    }
+    check()
+    const t = setInterval(check, FOLLOW_CHECK_MS)
+    return () => clearInterval(t)
+  }, [follow, hours, clock.getTime])
+
+  const minTime = hours.length ? Date.parse(hours[0].generatedAt) : Date.now() - 86400000
+  const maxTime = Date.now() + 86400000
+
+  return (
+    <>
+      <TimeControls clock={clock} minTime={minTime} maxTime={maxTime} />
+      <div style={{ display: 'flex', gap: 8, alignItems: 'center', flexWrap: 'wrap', marginBottom: 8 }}>
+        <label>
+          スナップショット:{' '}
+          <select
+            value={hourPath ?? ''}
+            onChange={(e) => {
+              const h = hours.find((x) => x.hourPath === e.target.value)
+              setFollow(false)
+              setHourPath(h ? h.hourPath : null)
+              if (h) clock.seek(Date.parse(h.generatedAt))
+            }}
+          >
+            <option value="">最新 (latest)</option>
+            {hours.map((h) => (
+              <option key={h.hourPath} value={h.hourPath}>
+                {h.hourPath}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button onClick={pickNearest} disabled={!hours.length}>
+          表示時刻に最も近いものを読み込む
+        </button>
+        <label>
+          <input type="checkbox" checked={follow} disabled={!hours.length} onChange={(e) => setFollow(e.target.checked)} />{' '}
+          自動で切り替え
+        </label>
+        <label>
+          更新間隔:{' '}
+          <select value={updateIntervalMs} onChange={(e) => setUpdateIntervalMs(Number(e.target.value))}>
+            {UPDATE_INTERVALS_MS.map((ms) => (
+              <option key={ms} value={ms}>
+                {ms} ms
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          地図:{' '}
+          <select value={basemap} onChange={(e) => setBasemap(e.target.value as BasemapId)}>
+            {BASEMAPS.map((b) => (
+              <option key={b.id} value={b.id}>
+                {b.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          <input type="checkbox" checked={terminator} onChange={(e) => setTerminator(e.target.checked)} /> 昼夜境界
+        </label>
+        {tles && <span>（{tles.length} 件）</span>}
+      </div>
+      {err && <div>Error loading TLE: {err}</div>}
+      {propagationErr && <div>Error propagating orbits: {propagationErr}</div>}
+      {!tles && !err && <div>Loading TLE…</div>}
+      {tles && (
+        <div style={{ display: 'flex', gap: 12 }}>
+          {catalogIndex && filtered && (
+            <FilterPanel
+              index={catalogIndex}
+              filter={filter}
+              onFilter={setFilter}
+              counts={filtered}
+              palette={palette}
+              onPalette={setPalette}
+            />
+          )}
+          <div style={{ position: 'relative', flex: 1 }}>
+            <MapLibreGlobe
+              tles={tles}
+              sp3={sp3}
+              basemap={basemap}
+              terminator={terminator}
+              updateIntervalMs={updateIntervalMs}
+              getTime={clock.getTime}
+              selected={selectedIndex}
+              onSelect={(i) => setSelectedId(i === null ? null : tleNoradId(tles[i].l1))}
+              palette={palette}
+              visible={filtered?.mask ?? null}
+              onCategories={setCodes}
+              pickLocation={pickingLocation}
+              onLocation={(o) => {
+                setObserver(o)
+                setPickingLocation(false)
+              }}
+              observer={observer}
+              aoi={aoi}
+              pairs={pairs}
+              reentries={markers}
+              footprints={footprints}
+              coverage={coverage}
+              onCoverage={setCoverageGrid}
+              onError={setPropagationErr}
+            />
+            {selectedIndex !== null && (
+              <SatelliteDetails
+                tle={tles[selectedIndex]}
+                object={objects === undefined ? undefined : objects?.get(selectedId!) ?? null}
+                getTime={clock.getTime}
+                onClose={() => setSelectedId(null)}
+              />
+            )}
+            <PassPanel
+              tles={tles}
+              visible={filtered?.mask ?? null}
+              selected={selectedIndex}
+              observer={observer}
+              onObserver={setObserver}
+              picking={pickingLocation}
+              onPicking={setPickingLocation}
+              onSelect={(i) => setSelectedId(tleNoradId(tles[i].l1))}
+              getTime={clock.getTime}
+            />
+            <AoiPanel
+              tles={tles}
+              aoi={aoi}
+              onAoi={setAoi}
+              onSelect={(i) => setSelectedId(tleNoradId(tles[i].l1))}
+              getTime={clock.getTime}
+            />
+            <ExportPanel
+              tles={tles}
+              visible={filtered?.mask ?? null}
+              selected={selectedIndex}
+              objects={objects ?? null}
+              getTime={clock.getTime}
+            />
+            <SensorPanel
+              tles={tles}
+              visible={filtered?.mask ?? null}
+              selected={selectedIndex}
+              onFootprints={setFootprints}
+              coverage={coverage}
+              onCoverage={setCoverage}
+              grid={coverageGrid}
+              getTime={clock.getTime}
+            />
+            <ConjunctionPanel
+              conjunctions={conjunctions}
+              focused={focusedConjunction}
+              onFocus={setFocusedConjunction}
+              showAll={showAllConjunctions}
+              onShowAll={setShowAllConjunctions}
+              onSeek={clock.seek}
+            />
+            <ReentryPanel
+              reentries={reentries}
+              show={showReentries}
+              onShow={setShowReentries}
+              onSelect={setSelectedId}
+              getTime={clock.getTime}
+            />
+            <ChangesPanel changes={changes} onSelect={setSelectedId} />
+            {selectedIndex !== null && (
+              <HistoryPanel
+                noradId={selectedId!}
+                name={objects?.get(selectedId!)?.name || tles[selectedIndex].name || ''}
+              />
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  )
 }
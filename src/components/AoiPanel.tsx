@@ -0,0 +1,99 @@
+import React, { useEffect, useRef, useState } from "react";
+import { AOI_WINDOW_HOURS, AoiOverlay, computeOverlay, overlayFromReport, readAoiFile } from "../lib/aoi";
+import { formatJstShort } from "../lib/format";
+import type { CatalogTle } from "../lib/snapshots";
+
+const KIND_LABELS: Record<string, string> = { sar: "SAR", imaging: "光学", weather: "気象" };
+
+// Loads a crisis-area polygon (GeoJSON or an `npm run aoi` report) and lists the
+// Earth-observation satellites whose ground track crosses it
+export const AoiPanel: React.FC<{
+  tles: CatalogTle[];
+  aoi: AoiOverlay | null;
+  onAoi: (a: AoiOverlay | null) => void;
+  onSelect: (index: number) => void;
+  getTime: () => number;
+}> = ({ tles, aoi, onAoi, onSelect, getTime }) => {
+  const [running, setRunning] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+  const cancelRef = useRef<(() => void) | null>(null);
+  useEffect(() => () => cancelRef.current?.(), []);
+
+  const load = async (file: File) => {
+    cancelRef.current?.();
+    setErr(null);
+    try {
+      const parsed = readAoiFile(await file.text());
+      const name = file.name.replace(/\.(geo)?json$/i, "");
+      if ("report" in parsed) {
+        onAoi(overlayFromReport(parsed.report, tles));
+        return;
+      }
+      setRunning(true);
+      const job = computeOverlay(name, parsed.geometry, tles, getTime());
+      cancelRef.current = job.cancel;
+      onAoi(await job.promise);
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div style={{ marginTop: 12, fontSize: 13 }}>
+      <b>対象地域の上空通過（観測衛星）</b>
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginTop: 4 }}>
+        <input
+          type="file"
+          accept=".geojson,.json,application/geo+json,application/json"
+          onChange={(e) => e.target.files?.[0] && load(e.target.files[0])}
+        />
+        {aoi && <button onClick={() => onAoi(null)}>解除</button>}
+        {running && <span>計算中…（表示時刻から {AOI_WINDOW_HOURS} 時間）</span>}
+      </div>
+      {err && <div style={{ color: "#ff9050" }}>{err}</div>}
+      {aoi && (
+        <div style={{ marginTop: 8 }}>
+          <div>
+            {aoi.name}: {formatJstShort(aoi.window.start)} 〜 {formatJstShort(aoi.window.end)} / {aoi.overflights.length} 回
+          </div>
+          <div style={{ maxHeight: 240, overflowY: "auto" }}>
+            <table style={{ borderCollapse: "collapse" }}>
+              <thead>
+                <tr>
+                  <th>衛星</th>
+                  <th>種別</th>
+                  <th>進入 (JST)</th>
+                  <th>滞在</th>
+                  <th>太陽高度</th>
+                </tr>
+              </thead>
+              <tbody>
+                {aoi.overflights.map((o) => (
+                  <tr key={`${o.noradId}-${o.entry}`}>
+                    <td>
+                      {o.index >= 0 ? (
+                        <a href="#" onClick={(e) => (e.preventDefault(), onSelect(o.index))}>
+                          {o.name || o.noradId}
+                        </a>
+                      ) : (
+                        o.name || o.noradId
+                      )}
+                    </td>
+                    <td>{o.kind ? KIND_LABELS[o.kind] ?? o.kind : "—"}</td>
+                    <td>{formatJstShort(o.entry)}</td>
+                    <td>{Math.round((o.exit - o.entry) / 1000)} 秒</td>
+                    <td>
+                      {o.sunElevationDeg.toFixed(0)}°{o.sunElevationDeg < 0 ? "（夜）" : ""}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
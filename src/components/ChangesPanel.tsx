@@ -0,0 +1,89 @@
+import React, { useMemo, useState } from "react";
+import { formatJstShort } from "../lib/format";
+import type { ChangesReport, SnapshotChange } from "../shared/schema";
+
+type Kind = SnapshotChange["kind"];
+
+const KIND_LABELS: Record<Kind, string> = { appeared: "新規", maneuver: "軌道変更", disappeared: "消失" };
+
+const REASON_LABELS: Record<string, string> = {
+  recent_launch: "最近の打上げ",
+  decayed: "落下",
+  semi_major_axis: "長半径",
+  inclination: "傾斜角",
+  eccentricity: "離心率",
+};
+
+function detail(c: SnapshotChange) {
+  if (c.kind === "maneuver") {
+    const parts = [];
+    if (c.deltaSemiMajorAxisKm !== null) parts.push(`Δa ${c.deltaSemiMajorAxisKm > 0 ? "+" : ""}${c.deltaSemiMajorAxisKm.toFixed(1)} km`);
+    if (c.reasons.includes("inclination")) parts.push(`Δi ${c.deltaInclinationDeg}°`);
+    if (c.reasons.includes("eccentricity")) parts.push(`Δe ${c.deltaEccentricity}`);
+    return parts.join(" / ");
+  }
+  if (c.kind === "appeared") return [c.cosparId, c.launchDate && `打上げ ${c.launchDate}`].filter(Boolean).join(" / ");
+  return c.decayDate ? `落下 ${c.decayDate}` : c.previousEpoch ? `最終エポック ${formatJstShort(Date.parse(c.previousEpoch))}` : "";
+}
+
+// "What changed" feed: changes.json of the loaded snapshot against the collection before it
+export const ChangesPanel: React.FC<{
+  changes: ChangesReport | null;
+  onSelect: (noradId: number) => void;
+}> = ({ changes, onSelect }) => {
+  const [kind, setKind] = useState<Kind>("appeared");
+  const counts = useMemo(() => {
+    const c: Record<Kind, number> = { appeared: 0, maneuver: 0, disappeared: 0 };
+    changes?.records.forEach((r) => c[r.kind]++);
+    return c;
+  }, [changes]);
+  const rows = useMemo(() => (changes ? changes.records.filter((r) => r.kind === kind) : []), [changes, kind]);
+
+  if (!changes) {
+    return <div style={{ marginTop: 12, fontSize: 13, color: "#888" }}>前回との差分（changes.json）はこのスナップショットにありません</div>;
+  }
+  return (
+    <div style={{ marginTop: 12, fontSize: 13 }}>
+      <b>前回からの変化</b>（{changes.previous.hourPath} との比較）
+      <div style={{ display: "flex", gap: 8, marginTop: 4 }}>
+        {(Object.keys(KIND_LABELS) as Kind[]).map((k) => (
+          <label key={k}>
+            <input type="radio" checked={kind === k} onChange={() => setKind(k)} /> {KIND_LABELS[k]} ({counts[k]})
+          </label>
+        ))}
+      </div>
+      <div style={{ maxHeight: 240, overflowY: "auto", marginTop: 4 }}>
+        <table style={{ borderCollapse: "collapse" }}>
+          <thead>
+            <tr>
+              <th>衛星</th>
+              <th>NORAD</th>
+              <th>種別</th>
+              <th>要因</th>
+              <th>詳細</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((c) => (
+              <tr key={c.noradId}>
+                <td>
+                  {c.kind === "disappeared" ? (
+                    c.name || "—"
+                  ) : (
+                    <a href="#" onClick={(e) => (e.preventDefault(), onSelect(c.noradId))}>
+                      {c.name || c.noradId}
+                    </a>
+                  )}
+                </td>
+                <td>{c.noradId}</td>
+                <td>{c.objectType ?? "—"}</td>
+                <td>{c.reasons.map((r) => REASON_LABELS[r] ?? r).join("・") || "—"}</td>
+                <td>{detail(c)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
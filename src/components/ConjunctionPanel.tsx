@@ -0,0 +1,83 @@
+import React, { useMemo, useState } from "react";
+import type { ConjunctionSet, ConjunctionView } from "../lib/conjunctions";
+import { formatJstShort } from "../lib/format";
+
+type SortKey = "tca" | "miss";
+
+const sameEvent = (a: ConjunctionView, b: ConjunctionView | null) =>
+  !!b && a.noradId1 === b.noradId1 && a.noradId2 === b.noradId2 && a.tca === b.tca;
+
+// Close approaches screened by the collector (conjunctions.json). Clicking an event moves the
+// clock to its TCA and highlights the pair on the globe.
+export const ConjunctionPanel: React.FC<{
+  conjunctions: ConjunctionSet | null;
+  focused: ConjunctionView | null;
+  onFocus: (c: ConjunctionView | null) => void;
+  showAll: boolean;
+  onShowAll: (v: boolean) => void;
+  onSeek: (time: number) => void;
+}> = ({ conjunctions, focused, onFocus, showAll, onShowAll, onSeek }) => {
+  const [sort, setSort] = useState<SortKey>("miss");
+  const events = useMemo(() => {
+    if (!conjunctions) return [];
+    const list = [...conjunctions.events];
+    return sort === "miss" ? list.sort((a, b) => a.missKm - b.missKm) : list.sort((a, b) => a.tca - b.tca);
+  }, [conjunctions, sort]);
+
+  if (!conjunctions) {
+    return <div style={{ marginTop: 12, fontSize: 13, color: "#888" }}>接近解析（conjunctions.json）はこのスナップショットにありません</div>;
+  }
+  return (
+    <div style={{ marginTop: 12, fontSize: 13 }}>
+      <b>接近解析</b>
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginTop: 4 }}>
+        <span>
+          {formatJstShort(conjunctions.window.start)} 〜 {formatJstShort(conjunctions.window.end)} / {conjunctions.thresholdKm} km 未満{" "}
+          {conjunctions.events.length} 件
+        </span>
+        <label>
+          並び順:{" "}
+          <select value={sort} onChange={(e) => setSort(e.target.value as SortKey)}>
+            <option value="miss">最接近距離</option>
+            <option value="tca">TCA</option>
+          </select>
+        </label>
+        <label>
+          <input type="checkbox" checked={showAll} onChange={(e) => onShowAll(e.target.checked)} /> 全ペアを強調
+        </label>
+        {focused && <button onClick={() => onFocus(null)}>選択解除</button>}
+      </div>
+      <div style={{ maxHeight: 240, overflowY: "auto", marginTop: 4 }}>
+        <table style={{ borderCollapse: "collapse" }}>
+          <thead>
+            <tr>
+              <th>TCA (JST)</th>
+              <th>衛星 1</th>
+              <th>衛星 2</th>
+              <th>距離</th>
+              <th>相対速度</th>
+            </tr>
+          </thead>
+          <tbody>
+            {events.map((c) => (
+              <tr
+                key={`${c.noradId1}-${c.noradId2}-${c.tca}`}
+                style={{ cursor: "pointer", background: sameEvent(c, focused) ? "rgba(255,80,80,0.25)" : undefined }}
+                onClick={() => {
+                  onFocus(c);
+                  onSeek(c.tca);
+                }}
+              >
+                <td>{formatJstShort(c.tca)}</td>
+                <td>{c.name1 || c.noradId1}</td>
+                <td>{c.name2 || c.noradId2}</td>
+                <td>{c.missKm < 1 ? `${Math.round(c.missKm * 1000)} m` : `${c.missKm.toFixed(2)} km`}</td>
+                <td>{c.relativeVelocityKmS.toFixed(2)} km/s</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,145 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { formatJst } from "../lib/format";
+import { loadConstellations, snapshotBase } from "../lib/snapshots";
+import type { ConstellationReport, ConstellationStats } from "../shared/schema";
+
+type Kind = ConstellationStats["kind"];
+
+const KIND_LABELS: Record<Kind, string> = {
+  communications: "通信",
+  navigation: "測位",
+  earth_observation: "地球観測",
+};
+
+const SHELL_BAR_WIDTH = 200;
+// Shells listed per constellation; orbit-raising Starlinks spread over dozens of bins
+const MAX_SHELLS = 12;
+const MAX_STALE_IDS = 100;
+
+const shellLabel = (s: { altitudeKm: number; inclinationDeg: number }) => `${s.altitudeKm} km / ${s.inclinationDeg}°`;
+
+// Altitude/inclination shells as bars scaled to the largest, with the planes found in each
+const ShellChart: React.FC<{ c: ConstellationStats }> = ({ c }) => {
+  const shells = c.shells.slice(0, MAX_SHELLS);
+  const max = Math.max(...shells.map((s) => s.count));
+  return (
+    <table style={{ borderCollapse: "collapse" }}>
+      <tbody>
+        {shells.map((s) => (
+          <tr key={`${s.altitudeKm}:${s.inclinationDeg}`}>
+            <td style={{ paddingRight: 8 }}>{shellLabel(s)}</td>
+            <td>
+              <svg width={SHELL_BAR_WIDTH} height={10}>
+                <rect width={Math.max(1, (s.count / max) * SHELL_BAR_WIDTH)} height={10} fill="rgba(80,220,255,0.7)" />
+              </svg>
+            </td>
+            <td style={{ paddingLeft: 8, textAlign: "right" }}>{s.count}</td>
+            <td style={{ paddingLeft: 8, color: "#888" }}>
+              {s.planes.length ? `${s.planes.length} 面（RAAN ${s.planes.map((p) => p.raanDeg.toFixed(0)).join(", ")}°）` : "—"}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+// Dashboard page: constellations.json of the latest snapshot, one row per constellation with its
+// size, orbital planes, most populated shells and element sets gone stale. A row opens the shell
+// distribution and the stale objects.
+export const ConstellationDashboard: React.FC = () => {
+  const [report, setReport] = useState<ConstellationReport | null | undefined>(undefined);
+  const [kind, setKind] = useState<Kind | null>(null);
+  const [open, setOpen] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    loadConstellations(snapshotBase(null))
+      .catch(() => null)
+      .then((r) => alive && setReport(r));
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  const rows = useMemo(
+    () => (report ? report.records.filter((c) => kind === null || c.kind === kind) : []),
+    [report, kind]
+  );
+
+  if (report === undefined) return <div>Loading…</div>;
+  if (!report) return <div style={{ color: "#888" }}>このスナップショットには constellations.json がありません</div>;
+
+  return (
+    <div style={{ fontSize: 13 }}>
+      <p>
+        集計: {formatJst(Date.parse(report.generatedAt))} / エポックが {report.staleDays} 日より古い要素を「古い」とします /
+        どのコンステレーションにも属さない物体: {report.unclassified} 件
+      </p>
+      <div style={{ display: "flex", gap: 8, marginBottom: 4 }}>
+        <label>
+          <input type="radio" checked={kind === null} onChange={() => setKind(null)} /> すべて
+        </label>
+        {(Object.keys(KIND_LABELS) as Kind[]).map((k) => (
+          <label key={k}>
+            <input type="radio" checked={kind === k} onChange={() => setKind(k)} /> {KIND_LABELS[k]}
+          </label>
+        ))}
+      </div>
+      <table style={{ borderCollapse: "collapse" }}>
+        <thead>
+          <tr>
+            <th>名称</th>
+            <th>運用者</th>
+            <th>用途</th>
+            <th>機数</th>
+            <th>軌道面</th>
+            <th>主なシェル</th>
+            <th>古い要素</th>
+            <th>エポック経過（中央値）</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((c) => (
+            <React.Fragment key={c.id}>
+              <tr>
+                <td>
+                  <a href="#" onClick={(e) => (e.preventDefault(), setOpen(open === c.id ? null : c.id))}>
+                    {open === c.id ? "▾" : "▸"} {c.name}
+                  </a>
+                </td>
+                <td>{c.operator}</td>
+                <td>{KIND_LABELS[c.kind]}</td>
+                <td style={{ textAlign: "right" }}>{c.count}</td>
+                <td style={{ textAlign: "right" }}>{c.planeCount || "—"}</td>
+                <td>
+                  {c.shells
+                    .slice(0, 2)
+                    .map((s) => `${shellLabel(s)} ×${s.count}`)
+                    .join("、")}
+                </td>
+                <td style={{ textAlign: "right", color: c.staleCount ? "#ff9050" : undefined }}>
+                  {c.staleCount}（{((c.staleCount / c.count) * 100).toFixed(0)}%）
+                </td>
+                <td style={{ textAlign: "right" }}>{c.medianEpochAgeDays.toFixed(1)} 日</td>
+              </tr>
+              {open === c.id && (
+                <tr>
+                  <td colSpan={8} style={{ padding: "4px 0 12px 16px" }}>
+                    <ShellChart c={c} />
+                    {c.shells.length > MAX_SHELLS && <div style={{ color: "#888" }}>ほか {c.shells.length - MAX_SHELLS} シェル</div>}
+                    <div style={{ marginTop: 4 }}>
+                      最古のエポック: {formatJst(Date.parse(c.oldestEpoch))}
+                      {c.staleIds.length > 0 &&
+                        ` / 古い要素の NORAD ID: ${c.staleIds.slice(0, MAX_STALE_IDS).join(", ")}${c.staleIds.length > MAX_STALE_IDS ? " ほか" : ""}`}
+                    </div>
+                  </td>
+                </tr>
+              )}
+            </React.Fragment>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
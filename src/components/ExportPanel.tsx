@@ -0,0 +1,128 @@
+import React, { useMemo, useState } from "react";
+import { twoline2satrec } from "satellite.js";
+import type { CatalogTle } from "../lib/snapshots";
+import { EXPORT_FORMATS, ExportFormat, ExportTarget, exportEphemeris } from "../shared/export";
+import type { SatObject } from "../shared/schema";
+import { tleCosparId, tleNoradId } from "../shared/tle";
+
+const SPAN_HOURS = [1, 6, 24, 72];
+const STEPS_SEC = [10, 30, 60, 300];
+// Propagation runs on the main thread; past this many samples the page stalls for seconds
+const MAX_SAMPLES = 500000;
+
+function download(body: string, name: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([body], { type: mimeType }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  // revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Ephemeris of the selected satellite, or of every object shown, from the sim time onwards,
+// in the same formats as npm run export
+export const ExportPanel: React.FC<{
+  tles: CatalogTle[];
+  visible: Uint8Array | null;
+  selected: number | null;
+  objects: Map<number, SatObject> | null;
+  getTime: () => number;
+}> = ({ tles, visible, selected, objects, getTime }) => {
+  const [format, setFormat] = useState<ExportFormat>("czml");
+  const [hours, setHours] = useState(24);
+  const [stepSec, setStepSec] = useState(60);
+  const [scope, setScope] = useState<"selected" | "shown">("selected");
+  const [error, setError] = useState<string | null>(null);
+
+  const indices = useMemo(() => {
+    if (scope === "selected") return selected === null ? [] : [selected];
+    const out: number[] = [];
+    for (let i = 0; i < tles.length; i++) if (!visible || visible[i]) out.push(i);
+    return out;
+  }, [scope, selected, tles, visible]);
+  const samples = indices.length * (Math.floor((hours * 3600) / stepSec) + 1);
+
+  const run = () => {
+    setError(null);
+    const start = getTime();
+    const targets: ExportTarget[] = [];
+    for (const i of indices) {
+      const t = tles[i];
+      const noradId = tleNoradId(t.l1);
+      const object = objects?.get(noradId);
+      try {
+        targets.push({
+          noradId,
+          name: object?.name || t.name || "",
+          cosparId: object?.cosparId ?? tleCosparId(t.l1),
+          rec: twoline2satrec(t.l1, t.l2),
+        });
+      } catch {
+        // unparsable element sets are left out, as on the globe
+      }
+    }
+    try {
+      const body = exportEphemeris(format, targets, { start, end: start + hours * 3600000, stepSec });
+      const { extension, mimeType } = EXPORT_FORMATS[format];
+      const stamp = new Date(start).toISOString().slice(0, 16).replace(/[-:]/g, "");
+      const label = targets.length === 1 ? String(targets[0].noradId) : `${targets.length}objects`;
+      download(body, `satellites_${label}_${stamp}.${extension}`, mimeType);
+    } catch (e: any) {
+      setError(e?.message ?? String(e));
+    }
+  };
+
+  return (
+    <div style={{ marginTop: 12, fontSize: 13 }}>
+      <b>エフェメリスの書き出し</b>
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginTop: 4 }}>
+        <label>
+          対象:{" "}
+          <select value={scope} onChange={(e) => setScope(e.target.value as "selected" | "shown")}>
+            <option value="selected">選択中の衛星</option>
+            <option value="shown">表示中の衛星すべて</option>
+          </select>
+        </label>
+        <label>
+          形式:{" "}
+          <select value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)}>
+            {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((f) => (
+              <option key={f} value={f}>
+                {EXPORT_FORMATS[f].label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          期間:{" "}
+          <select value={hours} onChange={(e) => setHours(Number(e.target.value))}>
+            {SPAN_HOURS.map((h) => (
+              <option key={h} value={h}>
+                {h} 時間
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          間隔:{" "}
+          <select value={stepSec} onChange={(e) => setStepSec(Number(e.target.value))}>
+            {STEPS_SEC.map((s) => (
+              <option key={s} value={s}>
+                {s} 秒
+              </option>
+            ))}
+          </select>
+        </label>
+        <button onClick={run} disabled={!indices.length || samples > MAX_SAMPLES}>
+          書き出し（{indices.length} 件）
+        </button>
+      </div>
+      <div style={{ color: "#888" }}>
+        書き出した時点の表示時刻から始まります。
+        {samples > MAX_SAMPLES && ` 点数が多すぎます（${samples.toLocaleString()} 点、上限 ${MAX_SAMPLES.toLocaleString()}）。対象を絞り込むか間隔を広げてください。`}
+      </div>
+      {error && <div style={{ color: "#ff9050" }}>{error}</div>}
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useMemo } from "react";
+import { CATEGORIES, Category, ORBIT_REGIMES } from "../shared/categories";
+import { CatalogFilter, CatalogIndex, applyFilter, facetCounts } from "../lib/catalogFilter";
+import type { CategoryPalette, Rgb } from "./MapLibreGlobe";
+
+// Owners/constellations listed in the sidebar; the long tail is reachable through search
+const MAX_FACETS = 40;
+
+const toHex = ([r, g, b]: Rgb) => `#${[r, g, b].map((v) => v.toString(16).padStart(2, "0")).join("")}`;
+const fromHex = (hex: string): Rgb => [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16)) as Rgb;
+
+const toggle = <T,>(set: Set<T>, v: T) => {
+  const next = new Set(set);
+  if (next.has(v)) next.delete(v);
+  else next.add(v);
+  return next;
+};
+
+const sectionStyle: React.CSSProperties = { marginTop: 12 };
+const listStyle: React.CSSProperties = { maxHeight: 160, overflowY: "auto" };
+
+// Search box, legend with per-category counts and colors, and regime/owner/constellation filters
+export const FilterPanel: React.FC<{
+  index: CatalogIndex;
+  filter: CatalogFilter;
+  onFilter: (f: CatalogFilter) => void;
+  counts: ReturnType<typeof applyFilter>;
+  palette: CategoryPalette;
+  onPalette: (p: CategoryPalette) => void;
+}> = ({ index, filter, onFilter, counts, palette, onPalette }) => {
+  const owners = useMemo(() => facetCounts(index.owners).slice(0, MAX_FACETS), [index]);
+  const constellations = useMemo(() => facetCounts(index.constellations).slice(0, MAX_FACETS), [index]);
+  const set = (patch: Partial<CatalogFilter>) => onFilter({ ...filter, ...patch });
+
+  return (
+    <aside style={{ width: 260, flex: "none", fontSize: 13 }}>
+      <input
+        type="search"
+        placeholder="名称 / NORAD ID / COSPAR ID"
+        value={filter.query}
+        onChange={(e) => set({ query: e.target.value })}
+        style={{ width: "100%", boxSizing: "border-box" }}
+      />
+      <div style={sectionStyle}>
+        <b>カテゴリ</b>（表示 {counts.visible} 件）
+        {CATEGORIES.map((c: Category) => (
+          <div key={c} style={{ display: "flex", alignItems: "center", gap: 6 }}>
+            <input
+              type="checkbox"
+              checked={!filter.hiddenCategories.has(c)}
+              onChange={() => set({ hiddenCategories: toggle(filter.hiddenCategories, c) })}
+            />
+            <input
+              type="color"
+              value={toHex(palette[c])}
+              onChange={(e) => onPalette({ ...palette, [c]: fromHex(e.target.value) })}
+              style={{ width: 24, height: 18, padding: 0, border: "none" }}
+            />
+            <span style={{ flex: 1 }}>{c}</span>
+            <span>{counts.counts[c]}</span>
+          </div>
+        ))}
+      </div>
+      <div style={sectionStyle}>
+        <b>軌道</b>
+        {ORBIT_REGIMES.map((r) => (
+          <label key={r} style={{ display: "flex", gap: 6 }}>
+            <input
+              type="checkbox"
+              checked={!filter.hiddenRegimes.has(r)}
+              onChange={() => set({ hiddenRegimes: toggle(filter.hiddenRegimes, r) })}
+            />
+            <span style={{ flex: 1 }}>{r}</span>
+            <span>{counts.regimeCounts[r]}</span>
+          </label>
+        ))}
+      </div>
+      {owners.length > 0 && (
+        <FacetList title="所有国" items={owners} selected={filter.owners} onChange={(owners) => set({ owners })} />
+      )}
+      {constellations.length > 0 && (
+        <FacetList
+          title="コンステレーション"
+          items={constellations}
+          selected={filter.constellations}
+          onChange={(constellations) => set({ constellations })}
+        />
+      )}
+    </aside>
+  );
+};
+
+// Checkbox list where nothing checked means "all"
+const FacetList: React.FC<{
+  title: string;
+  items: Array<[string, number]>;
+  selected: Set<string>;
+  onChange: (s: Set<string>) => void;
+}> = ({ title, items, selected, onChange }) => (
+  <div style={sectionStyle}>
+    <b>{title}</b>
+    {selected.size > 0 && (
+      <button onClick={() => onChange(new Set())} style={{ marginLeft: 8 }}>
+        解除
+      </button>
+    )}
+    <div style={listStyle}>
+      {items.map(([v, n]) => (
+        <label key={v} style={{ display: "flex", gap: 6 }}>
+          <input type="checkbox" checked={selected.has(v)} onChange={() => onChange(toggle(selected, v))} />
+          <span style={{ flex: 1 }}>{v}</span>
+          <span>{n}</span>
+        </label>
+      ))}
+    </div>
+  </div>
+);
@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from "react";
+import { formatJstShort } from "../lib/format";
+import { loadHistory } from "../lib/snapshots";
+import type { HistoryElement } from "../shared/schema";
+
+type Series = { label: string; unit: string; digits: number; value: (e: HistoryElement) => number };
+
+const SERIES: Series[] = [
+  { label: "平均高度", unit: "km", digits: 1, value: (e) => (e.apogeeKm + e.perigeeKm) / 2 },
+  { label: "軌道傾斜角", unit: "°", digits: 4, value: (e) => e.inclinationDeg },
+  { label: "離心率", unit: "", digits: 6, value: (e) => e.eccentricity },
+  { label: "B*", unit: "", digits: 6, value: (e) => e.bstar },
+];
+
+const WIDTH = 360;
+const HEIGHT = 70;
+const PAD = 4;
+
+// One value over time as an SVG polyline with its range; each point is an element set
+const SeriesChart: React.FC<{ series: Series; history: HistoryElement[]; times: number[] }> = ({
+  series,
+  history,
+  times,
+}) => {
+  const values = history.map(series.value);
+  const t0 = times[0];
+  const t1 = times[times.length - 1];
+  const lo = Math.min(...values);
+  const hi = Math.max(...values);
+  const x = (t: number) => PAD + (t1 > t0 ? ((t - t0) / (t1 - t0)) * (WIDTH - 2 * PAD) : (WIDTH - 2 * PAD) / 2);
+  const y = (v: number) => PAD + (hi > lo ? (1 - (v - lo) / (hi - lo)) * (HEIGHT - 2 * PAD) : (HEIGHT - 2 * PAD) / 2);
+  const points = values.map((v, i) => `${x(times[i]).toFixed(1)},${y(v).toFixed(1)}`).join(" ");
+  return (
+    <div style={{ marginTop: 6 }}>
+      <div>
+        {series.label}: {values[values.length - 1].toFixed(series.digits)}
+        {series.unit} <span style={{ opacity: 0.7 }}>（{lo.toFixed(series.digits)} 〜 {hi.toFixed(series.digits)}）</span>
+      </div>
+      <svg width={WIDTH} height={HEIGHT} style={{ background: "rgba(255,255,255,0.05)", borderRadius: 4 }}>
+        <polyline points={points} fill="none" stroke="#78c8ff" strokeWidth={1.5} />
+        {values.map((v, i) => (
+          <circle key={i} cx={x(times[i])} cy={y(v)} r={1.5} fill="#78c8ff" />
+        ))}
+      </svg>
+    </div>
+  );
+};
+
+// Orbit history of the selected object from data/history/<noradId>.jsonl, to watch decay or station-keeping
+export const HistoryPanel: React.FC<{ noradId: number; name: string }> = ({ noradId, name }) => {
+  const [history, setHistory] = useState<HistoryElement[] | null | undefined>(undefined);
+  useEffect(() => {
+    let alive = true;
+    setHistory(undefined);
+    loadHistory(noradId)
+      .catch(() => null)
+      .then((h) => alive && setHistory(h));
+    return () => {
+      alive = false;
+    };
+  }, [noradId]);
+
+  const times = history?.map((e) => Date.parse(e.epoch)) ?? [];
+  return (
+    <div style={{ marginTop: 12, fontSize: 13 }}>
+      <b>軌道要素の履歴: {name || noradId}</b>
+      {history === undefined && <div>読み込み中…</div>}
+      {history === null && <div style={{ color: "#888" }}>履歴（history/{noradId}.jsonl）がありません</div>}
+      {history && history.length > 0 && (
+        <>
+          <div>
+            {history.length} 件 / {formatJstShort(times[0])} 〜 {formatJstShort(times[times.length - 1])}（エポック）
+          </div>
+          {SERIES.map((s) => (
+            <SeriesChart key={s.label} series={s} history={history} times={times} />
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
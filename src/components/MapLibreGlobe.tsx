@@ -1,121 +1,151 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
-import maplibregl, { Map as MlMap } from "maplibre-gl";
+import maplibregl, { GeoJSONSource, Map as MlMap } from "maplibre-gl";
+import type { Feature } from "geojson";
 import "maplibre-gl/dist/maplibre-gl.css";
 import { MapboxOverlay } from "@deck.gl/mapbox";
-import { COORDINATE_SYSTEM } from "@deck.gl/core";
-import { SimpleMeshLayer } from "@deck.gl/mesh-layers";
-import { SphereGeometry } from "@luma.gl/engine";
+import { COORDINATE_SYSTEM, LayersList } from "@deck.gl/core";
+import { GeoJsonLayer, LineLayer, PathLayer, ScatterplotLayer, SolidPolygonLayer, TextLayer } from "@deck.gl/layers";
+import { twoline2satrec } from "satellite.js";
 import {
-  twoline2satrec,
-  propagate,
-  eciToGeodetic,
-  degreesLat,
-  degreesLong,
-  gstime,
-} from "satellite.js";
-// Render true spheres for satellites via SimpleMeshLayer + luma.gl SphereGeometry
-
-type Tle = { name?: string; l1: string; l2: string };
-
-const STYLE_RASTER_GLOBE: any = {
-  version: 8,
-  projection: { type: "globe" },
-  sources: {
-    satellite: {
-      type: "raster",
-      tiles: [
-        "https://tiles.maps.eox.at/wmts/1.0.0/s2cloudless-2020_3857/default/g/{z}/{y}/{x}.jpg",
-      ],
-      tileSize: 256,
-    },
-  },
-  layers: [{ id: "Satellite", type: "raster", source: "satellite" }],
-  sky: {
-    "atmosphere-blend": ["interpolate", ["linear"], ["zoom"], 0, 1, 5, 1, 7, 0],
-  },
-  light: {
-    anchor: "map",
-    position: [1.5, 90, 80],
-  },
+  Category,
+  categoryCode,
+  categoryFromCode,
+} from "../shared/categories";
+import {
+  createPropagationPool,
+  PropagationPool,
+} from "../lib/propagationPool";
+import { PathPoint, groundTrack, orbitRing } from "../lib/orbit";
+import type { Observer } from "../shared/passes";
+import type { AoiOverlay } from "../lib/aoi";
+import type { ReentryMarker } from "../lib/reentries";
+import { BasemapId, TERMINATOR_SOURCE, basemapStyle } from "../lib/basemap";
+import { nightPolygon } from "../lib/terminator";
+import {
+  COVERAGE_CELL_DEG,
+  CoverageCell,
+  CoverageGrid,
+  CoverageRequest,
+  accumulateStep,
+  coverageCells,
+  createCoverageGrid,
+} from "../lib/coverage";
+import type { Sp3Ephemeris } from "../shared/schema";
+import { PreciseTrack, linkSp3ToCatalog, preciseTrack } from "../shared/sp3";
+import { SensorModel, footprintCoversPole, footprintRadiusDeg, footprintRing, sensorModelFor } from "../shared/sensors";
+// SGP4 runs in a worker pool; the globe draws instanced points from binary attributes
+
+// category comes precomputed from the columnar snapshot; TLE-only input is classified in the worker
+type Tle = { name?: string; l1: string; l2: string; category?: Category };
+
+export type Rgb = [number, number, number];
+export type CategoryPalette = Record<Category, Rgb>;
+
+// Legend defaults; the sidebar lets the user change them per category
+export const DEFAULT_CATEGORY_COLORS: CategoryPalette = {
+  OTHER: [255, 150, 50],
+  PAYLOAD: [80, 200, 120],
+  ROCKET: [90, 150, 255],
+  DEBRIS: [170, 170, 170],
+  NAV: [255, 80, 80],
+  GEO: [255, 220, 0],
 };
 
-function pickColorByType(
-  objectType: string,
-  name: string,
-  altKm: number
-): [number, number, number, number] {
-  // Category-first coloring: NAV=red, GEO=yellow, OTHER=orange
-  const cat = pickCategory(objectType, name, altKm);
-  switch (cat) {
-    case "NAV":
-      return [255, 80, 80, 255]; // red
-    case "GEO":
-      return [255, 220, 0, 255]; // yellow
-    case "OTHER":
-      return [255, 150, 50, 255]; // orange
-    case "PAYLOAD":
-    case "ROCKET":
-    case "DEBRIS":
-    default:
-      return [255, 150, 50, 255]; // treat as orange by default
-  }
-}
+// The night side is redrawn once the sim clock has moved this far
+const TERMINATOR_REDRAW_MS = 60000;
 
-function pickCategory(
-  objectType: string,
-  name: string,
-  altKm: number
-): "NAV" | "GEO" | "PAYLOAD" | "ROCKET" | "DEBRIS" | "OTHER" {
-  const t = (objectType || "").toUpperCase();
-  const isNav = /(GPS|NAVSTAR|GLONASS|GALILEO|BEIDOU|BDS|IRNSS|QZSS)/i.test(
-    name
-  );
-  const isGEO = altKm > 30000;
-  if (isNav) return "NAV";
-  if (isGEO) return "GEO";
-  if (t.includes("PAYLOAD")) return "PAYLOAD";
-  if (t.includes("ROCKET")) return "ROCKET";
-  if (t.includes("DEBRIS")) return "DEBRIS";
-  return "OTHER";
-}
+// Objects whose footprints are drawn, with one sensor for all of them or (null) each one's default
+export type FootprintRequest = { indices: number[]; model: SensorModel | null };
+
+// The heatmap is redrawn every this many accumulated steps
+const COVERAGE_REDRAW_STEPS = 10;
 
 export const MapLibreGlobe: React.FC<{
   tles: Tle[];
-  typesBySatnum?: Record<number, string>;
-}> = ({ tles, typesBySatnum = {} }) => {
+  // precise orbits of the snapshot; the points of the satellites they cover follow them
+  sp3?: Sp3Ephemeris | null;
+  // imagery, or the bundled Natural Earth layers that work without network
+  basemap?: BasemapId;
+  // shade the night side at the sim time
+  terminator?: boolean;
+  // propagation/redraw period; the globe skips ticks while workers are busy
+  updateIntervalMs?: number;
+  // simulation clock; defaults to wall time
+  getTime?: () => number;
+  // index into tles of the picked satellite, and the pick callback (null = empty space)
+  selected?: number | null;
+  onSelect?: (index: number | null) => void;
+  palette?: CategoryPalette;
+  // 1 = drawn; hidden objects are neither drawn nor pickable
+  visible?: Uint8Array | null;
+  // per-object category codes once the workers have classified the catalog
+  onCategories?: (codes: Uint8Array) => void;
+  // while true, a click reports the ground point instead of selecting
+  pickLocation?: boolean;
+  onLocation?: (observer: Observer) => void;
+  observer?: Observer | null;
+  // crisis area, its crossing ground-track segments and the crossing satellites
+  aoi?: AoiOverlay | null;
+  // conjunction pairs (indices into tles), joined by a line and ringed
+  pairs?: Array<[number, number]> | null;
+  // re-entry candidates, ringed and labelled with the days left to their window
+  reentries?: ReentryMarker[] | null;
+  // instantaneous sensor footprints
+  footprints?: FootprintRequest | null;
+  // coverage heatmap accumulated over a window; progress is reported as it fills
+  coverage?: CoverageRequest | null;
+  onCoverage?: (grid: CoverageGrid) => void;
+  // a propagation worker kept failing; its slice of the catalog is no longer drawn
+  onError?: (message: string) => void;
+}> = ({
+  tles,
+  sp3 = null,
+  basemap = "imagery",
+  terminator = true,
+  updateIntervalMs = 1000,
+  getTime = Date.now,
+  selected = null,
+  onSelect,
+  palette = DEFAULT_CATEGORY_COLORS,
+  visible = null,
+  onCategories,
+  pickLocation = false,
+  onLocation,
+  observer = null,
+  aoi = null,
+  pairs = null,
+  reentries = null,
+  footprints = null,
+  coverage = null,
+  onCoverage,
+  onError,
+}) => {
   const divRef = useRef<HTMLDivElement | null>(null);
   const mapRef = useRef<MlMap | null>(null);
   const overlayRef = useRef<MapboxOverlay | null>(null);
   const [ready, setReady] = useState(false);
-
-  // Unit sphere; scaled per-instance for a small visual size in meters
-  const sphere = useMemo(
-    () => new SphereGeometry({ radius: 2.5, nlat: 12, nlong: 24 }),
-    []
-  );
-
-  const satrecs = useMemo(() => {
-    return tles
-      .slice(0, 300)
-      .map((t) => {
-        try {
-          const rec = twoline2satrec(t.l1, t.l2);
-          const satnum = (rec as any).satnum as number | undefined;
-          const id =
-            t.name ?? satnum?.toString() ?? Math.random().toString(36).slice(2);
-          return { id, rec, satnum };
-        } catch {
-          return null;
-        }
-      })
-      .filter(Boolean) as Array<{ id: string; rec: any; satnum?: number }>;
-  }, [tles]);
+  const [pool, setPool] = useState<PropagationPool | null>(null);
+  const [codes, setCodes] = useState<Uint8Array | null>(null);
+  // basemap the map's current style was built for
+  const basemapRef = useRef(basemap);
+  const getTimeRef = useRef(getTime);
+  getTimeRef.current = getTime;
+  const onSelectRef = useRef(onSelect);
+  onSelectRef.current = onSelect;
+  const onCategoriesRef = useRef(onCategories);
+  onCategoriesRef.current = onCategories;
+  const onCoverageRef = useRef(onCoverage);
+  onCoverageRef.current = onCoverage;
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+  const pickLocationRef = useRef({ active: pickLocation, onLocation });
+  pickLocationRef.current = { active: pickLocation, onLocation };
 
   useEffect(() => {
     if (!divRef.current) return;
     const map = new maplibregl.Map({
       container: divRef.current,
-      style: STYLE_RASTER_GLOBE,
+      style: basemapStyle(basemap),
       center: [140, 35],
       zoom: 1.6,
     });
@@ -130,14 +160,19 @@ export const MapLibreGlobe: React.FC<{
       const overlay = new MapboxOverlay({
         interleaved: true,
         layers: [],
-      }) as any;
+        onClick: (info) => {
+          if (pickLocationRef.current.active) return;
+          onSelectRef.current?.(info.picked && info.layer?.id === "sats" ? info.index : null);
+        },
+      });
       map.addControl(overlay);
       overlayRef.current = overlay;
-      try {
-        overlayRef.current?.setProps({ clearCanvas: false });
-      } catch {}
       setReady(true);
     });
+    map.on("click", (e) => {
+      const { active, onLocation } = pickLocationRef.current;
+      if (active) onLocation?.({ latDeg: e.lngLat.lat, lonDeg: e.lngLat.lng });
+    });
     mapRef.current = map;
     return () => {
       map.remove();
@@ -145,149 +180,204 @@ export const MapLibreGlobe: React.FC<{
     };
   }, []);
 
+  // Style switches keep the camera; the deck overlay re-adds itself on styledata
+  useEffect(() => {
+    if (!mapRef.current || basemapRef.current === basemap) return;
+    basemapRef.current = basemap;
+    mapRef.current.setStyle(basemapStyle(basemap));
+  }, [basemap]);
+
+  // Day/night overlay, redrawn when the sim clock has moved or the style was reloaded
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!ready || !map) return;
+    let drawnAt = NaN;
+    const update = () => {
+      const source = map.getSource<GeoJSONSource>(TERMINATOR_SOURCE);
+      if (!source) return;
+      const time = getTimeRef.current();
+      if (Math.abs(time - drawnAt) < TERMINATOR_REDRAW_MS) return;
+      drawnAt = time;
+      source.setData(terminator ? nightPolygon(time) : { type: "FeatureCollection", features: [] });
+    };
+    const reset = () => {
+      drawnAt = NaN;
+    };
+    map.on("style.load", reset);
+    update();
+    const t = setInterval(update, 1000);
+    return () => {
+      clearInterval(t);
+      map.off("style.load", reset);
+    };
+  }, [ready, terminator]);
+
+  // One pool per catalog; categories are static per object
   useEffect(() => {
-    if (!ready || !overlayRef.current) return;
+    const p = createPropagationPool(
+      tles.map((t) => ({
+        name: t.name,
+        l1: t.l1,
+        l2: t.l2,
+        category: t.category ? categoryCode(t.category) : undefined,
+      })),
+      { onFailure: (e) => onErrorRef.current?.(e.message) }
+    );
     let alive = true;
-    let summaryTick = 0;
-    // Piecewise altitude scaling: place LEO/MEO/GEO at controllable shell fractions
-    const ATMOSPHERE_TOP_M = 120_000; // ~120 km from surface
-    const SHELL_THICKNESS_M = 300_000; // ~300 km visual shell
-    // Physical anchors (m)
-    const LEO_MAX_M = 2_000_000; // ~2,000 km
-    const MEO_MAX_M = 20_200_000; // ~20,200 km (GNSS)
-    const GEO_ALT_M = 35_786_000; // ~35,786 km (GEO)
-    // Visual anchors (fraction of shell)
-    const LEO_FRAC = 0.25; // 0..25% of shell for LEO
-    const MEO_FRAC = 0.6; // up to 60% for MEO
-    // Per-band gamma: <1 expands, >1 compresses
-    const GAMMA_LEO = 0.7;
-    const GAMMA_MEO = 0.9;
-    const GAMMA_GEO = 1.2;
-    const scaleAltitudeLog = (altM: number) => {
-      const a = Math.max(0, Math.min(altM, GEO_ALT_M));
-      let f = 0;
-      if (a <= LEO_MAX_M) {
-        const t = a / LEO_MAX_M;
-        f = Math.pow(t, GAMMA_LEO) * LEO_FRAC;
-      } else if (a <= MEO_MAX_M) {
-        const t = (a - LEO_MAX_M) / (MEO_MAX_M - LEO_MAX_M);
-        f = LEO_FRAC + Math.pow(t, GAMMA_MEO) * (MEO_FRAC - LEO_FRAC);
-      } else {
-        const t = (a - MEO_MAX_M) / (GEO_ALT_M - MEO_MAX_M);
-        f = MEO_FRAC + Math.pow(t, GAMMA_GEO) * (1 - MEO_FRAC);
-      }
-      return ATMOSPHERE_TOP_M + f * SHELL_THICKNESS_M;
+    p.categories
+      .then((c) => {
+        if (!alive) return;
+        setCodes(c);
+        setPool(p);
+        onCategoriesRef.current?.(c);
+      })
+      // a worker that never started is reported through onFailure; disposal needs nothing
+      .catch(() => {});
+    return () => {
+      alive = false;
+      p.dispose();
+      setPool(null);
+      setCodes(null);
     };
-    const tick = () => {
-      const now = new Date();
-      const gmst = gstime(now);
-      const counts = {
-        NAV: 0,
-        GEO: 0,
-        PAYLOAD: 0,
-        ROCKET: 0,
-        DEBRIS: 0,
-        OTHER: 0,
-      };
-      const rawTypeCounts: Record<string, number> = {};
-      const otherTypeCounts: Record<string, number> = {};
-      let otherEmptyType = 0;
-      const data = satrecs
-        .map((s) => {
-          const pv = propagate(s.rec, now);
-          const pos = pv?.position;
-          if (!pos) return null;
-          const gd = eciToGeodetic(pos, gmst);
-          const lat = degreesLat(gd.latitude);
-          const lon = degreesLong(gd.longitude);
-          const altM = Math.max(0, (gd.height ?? 0) * 1000);
-          const altScaledM = scaleAltitudeLog(altM);
-          const typ = (s.satnum && typesBySatnum[s.satnum]) || "";
-          const normTyp = (typ || "").toString().trim().toUpperCase();
-          if (normTyp)
-            rawTypeCounts[normTyp] = (rawTypeCounts[normTyp] || 0) + 1;
-          const cat = pickCategory(normTyp, s.id, gd.height ?? 0);
-          counts[cat]++;
-          if (cat === "OTHER") {
-            if (normTyp)
-              otherTypeCounts[normTyp] = (otherTypeCounts[normTyp] || 0) + 1;
-            else otherEmptyType++;
-          }
-          const color = pickColorByType(typ, s.id, gd.height ?? 0);
-          return { position: [lon, lat, altScaledM], color };
-        })
-        .filter(Boolean) as Array<{
-        position: [number, number, number];
-        color: [number, number, number, number];
-      }>;
-
-      // Debug: count + sample (kept lightweight)
-      try {
-        if ((data.length ?? 0) % 60 === 0) {
-          // eslint-disable-next-line no-console
-          console.debug(
-            `[MapLibreGlobe] sats=`,
-            data.length,
-            `sample=`,
-            data[0]?.position
-          );
+  }, [tles]);
+
+  // SP3 tracks for the GNSS satellites the file covers, linked to catalog objects by position;
+  // outside the file's span the workers fall back to SGP4
+  useEffect(() => {
+    if (!pool) return;
+    const tracks = new Map<number, PreciseTrack>();
+    if (sp3) {
+      for (const [satId, index] of linkSp3ToCatalog(sp3, tles)) {
+        const track = preciseTrack(sp3, satId);
+        if (track) tracks.set(index, track);
+      }
+    }
+    pool.setPrecise(tracks);
+  }, [pool, sp3, tles]);
+
+  const colors = useMemo(() => {
+    if (!codes) return null;
+    const rgba = new Uint8Array(codes.length * 4);
+    codes.forEach((code, i) => {
+      rgba.set(palette[categoryFromCode(code)], i * 4);
+      rgba[i * 4 + 3] = 255;
+    });
+    return rgba;
+  }, [codes, palette]);
+
+  // Default sensor of every object, by name and category
+  const sensorModels = useMemo(
+    () => (codes ? tles.map((t, i) => sensorModelFor(t.name ?? "", categoryFromCode(codes[i]))) : null),
+    [tles, codes]
+  );
+
+  // The coverage window is stepped through the same worker pool as the live ticks
+  const [coverageGrid, setCoverageGrid] = useState<CoverageGrid | null>(null);
+  useEffect(() => {
+    setCoverageGrid(null);
+    if (!coverage || !pool || !sensorModels) return;
+    let alive = true;
+    const grid = createCoverageGrid(coverage);
+    const stamp = new Uint32Array(grid.counts.length);
+    (async () => {
+      const step = (k: number) => pool.propagateAt(coverage.start + k * coverage.stepSec * 1000);
+      for (let k = 0; k < grid.steps; k++) {
+        // a step lost to a crashed worker is retried once on its replacement
+        const { positions, altKm } = await step(k).catch(() => step(k));
+        if (!alive) return;
+        accumulateStep(grid, footprintsAt(coverage, sensorModels, positions, altKm), stamp);
+        if (grid.done === grid.steps || grid.done % COVERAGE_REDRAW_STEPS === 0) {
+          // a copy per redraw, so the heatmap and the progress re-render
+          const snapshot = { ...grid, counts: grid.counts.slice() };
+          setCoverageGrid(snapshot);
+          onCoverageRef.current?.(snapshot);
         }
-      } catch {}
+      }
+    })().catch(() => {
+      // the pool reports a worker that keeps failing through onError
+    });
+    return () => {
+      alive = false;
+    };
+  }, [coverage, pool, sensorModels]);
+  const cells = useMemo(() => (coverageGrid ? coverageCells(coverageGrid) : null), [coverageGrid]);
+
+  const selectedRec = useMemo(() => {
+    const t = selected === null ? undefined : tles[selected];
+    if (!t) return null;
+    try {
+      return twoline2satrec(t.l1, t.l2);
+    } catch {
+      return null;
+    }
+  }, [tles, selected]);
 
-      // Category summary every 5 ticks + OTHER breakdown (top 6)
+  useEffect(() => {
+    if (!ready || !overlayRef.current || !pool || !colors) return;
+    let alive = true;
+    let busy = false;
+    const tick = async () => {
+      if (busy) return;
+      busy = true;
       try {
-        summaryTick++;
-        if (summaryTick % 5 === 0) {
-          const total = Object.values(counts).reduce(
-            (a, b) => a + (b as number),
-            0
-          );
-          const parts = Object.entries(counts)
-            .filter(([, v]) => (v as number) > 0)
-            .map(([k, v]) => `${k}:${v}`)
-            .join(" ");
-          const topOther = Object.entries(otherTypeCounts)
-            .sort((a, b) => (b[1] as number) - (a[1] as number))
-            .slice(0, 6)
-            .map(([k, v]) => `${k}:${v}`)
-            .join(" ");
-          const otherSuffix =
-            topOther || otherEmptyType
-              ? ` | OTHER breakdown: ${topOther}${
-                  otherEmptyType ? ` EMPTY:${otherEmptyType}` : ""
-                }`
-              : "";
-          // eslint-disable-next-line no-console
-          console.debug(
-            `[MapLibreGlobe] categories: ${parts} total:${total}${otherSuffix}`
-          );
+        const time = getTimeRef.current();
+        const { positions, altKm } = await pool.propagateAt(time);
+        if (!alive) return;
+        const footprintData =
+          footprints && sensorModels ? footprintsAt(footprints, sensorModels, positions, altKm) : null;
+        const selectedPos = selected === null ? null : positions.slice(selected * 3, selected * 3 + 3);
+        const aoiPos = aoi ? aoiPositions(aoi, positions) : null;
+        const pairPos = pairs?.length ? pairPositions(pairs, positions) : null;
+        const reentryPos = reentries?.length ? reentryPositions(reentries, positions) : null;
+        if (visible) {
+          // NaN positions are dropped by the GPU and by picking
+          for (let i = 0; i < visible.length; i++) {
+            if (!visible[i]) positions[i * 3] = positions[i * 3 + 1] = positions[i * 3 + 2] = NaN;
+          }
+        }
+        const layers: LayersList = [];
+        if (cells) layers.push(coverageLayer(cells));
+        if (footprintData) layers.push(...footprintLayers(footprintData));
+        layers.push(
+          new ScatterplotLayer({
+            id: "sats",
+            data: {
+              length: pool.size,
+              attributes: {
+                getPosition: { value: positions, size: 3 },
+                getFillColor: { value: colors, size: 4, normalized: true },
+              },
+            },
+            coordinateSystem: COORDINATE_SYSTEM.LNGLAT,
+            radiusUnits: "pixels",
+            getRadius: 2.5,
+            radiusMinPixels: 1.5,
+            billboard: true,
+            pickable: true,
+            parameters: { depthTest: true },
+          })
+        );
+        if (observer) layers.push(observerLayer(observer));
+        if (aoi && aoiPos) layers.push(...aoiLayers(aoi, aoiPos));
+        if (pairPos) layers.push(...pairLayers(pairPos));
+        if (reentries && reentryPos) layers.push(...reentryLayers(reentries, reentryPos, time));
+        if (selectedRec && selectedPos) {
+          layers.push(...selectionLayers(selectedRec, time, selectedPos));
         }
-      } catch {}
-
-      // True sphere satellites via SimpleMeshLayer
-      const layers: any[] = [
-        new SimpleMeshLayer({
-          id: "sats-mesh",
-          data,
-          mesh: sphere,
-          coordinateSystem: COORDINATE_SYSTEM.LNGLAT,
-          getPosition: (d: any) => d.position, // [lng, lat, altitude(m)]
-          getColor: (d: any) => d.color, // RGBA (0-255)
-          getScale: () => [8000, 8000, 8000], // ~8km radius sphere
-          pickable: true,
-          parameters: { depthTest: true },
-          material: { ambient: 0.2, diffuse: 0.8, shininess: 32 },
-        }),
-      ];
-      overlayRef.current?.setProps({ layers, clearCanvas: false });
+        overlayRef.current?.setProps({ layers });
+      } catch {
+        // a crashed worker rejects its tick; the next one runs on its replacement
+      } finally {
+        busy = false;
+      }
     };
     tick();
-    const t = setInterval(() => alive && tick(), 1000);
+    const t = setInterval(() => alive && tick(), updateIntervalMs);
     return () => {
       alive = false;
       clearInterval(t);
     };
-  }, [ready, satrecs, typesBySatnum, sphere]);
+  }, [ready, pool, colors, visible, updateIntervalMs, selectedRec, selected, observer, aoi, pairs, reentries, footprints, sensorModels, cells]);
 
   return (
     <div
@@ -296,3 +386,283 @@ export const MapLibreGlobe: React.FC<{
     />
   );
 };
+
+type Path = { path: PathPoint[] };
+
+// ±1 orbit ground track (past dimmed), the current orbit ring at drawn altitude, and a marker
+function selectionLayers(rec: ReturnType<typeof twoline2satrec>, time: number, position: Float32Array) {
+  const track = groundTrack(rec, time);
+  const ring = orbitRing(rec, time);
+  const paths = (id: string, data: PathPoint[][], color: [number, number, number, number], width: number) =>
+    new PathLayer<Path>({
+      id,
+      data: data.map((path) => ({ path })),
+      getPath: (d) => d.path,
+      getColor: color,
+      getWidth: width,
+      widthUnits: "pixels",
+      coordinateSystem: COORDINATE_SYSTEM.LNGLAT,
+    });
+  return [
+    paths("track-past", track.past, [120, 200, 255, 120], 1.5),
+    paths("track-future", track.future, [120, 200, 255, 230], 2),
+    paths("orbit-ring", ring, [255, 255, 255, 200], 1.5),
+    new ScatterplotLayer({
+      id: "selected",
+      data: [Array.from(position)],
+      getPosition: (d: number[]) => d as [number, number, number],
+      getFillColor: [0, 0, 0, 0],
+      getLineColor: [255, 255, 255, 255],
+      stroked: true,
+      filled: false,
+      lineWidthUnits: "pixels",
+      getLineWidth: 2,
+      radiusUnits: "pixels",
+      getRadius: 7,
+      billboard: true,
+      coordinateSystem: COORDINATE_SYSTEM.LNGLAT,
+    }),
+  ];
+}
+
+function observerLayer(observer: Observer) {
+  return new ScatterplotLayer({
+    id: "observer",
+    data: [observer],
+    getPosition: (d: Observer) => [d.lonDeg, d.latDeg, 0],
+    getFillColor: [0, 200, 255, 255],
+    getLineColor: [255, 255, 255, 255],
+    stroked: true,
+    lineWidthUnits: "pixels",
+    getLineWidth: 1.5,
+    radiusUnits: "pixels",
+    getRadius: 5,
+    coordinateSystem: COORDINATE_SYSTEM.LNGLAT,
+  });
+}
+
+// Current positions of the satellites crossing the area, taken before filtering hides any
+function aoiPositions(aoi: AoiOverlay, positions: Float32Array) {
+  const indices = [...new Set(aoi.overflights.map((o) => o.index).filter((i) => i >= 0))];
+  const out = new Float32Array(indices.length * 3);
+  indices.forEach((idx, k) => out.set(positions.subarray(idx * 3, idx * 3 + 3), k * 3));
+  return out;
+}
+
+function aoiLayers(aoi: AoiOverlay, positions: Float32Array) {
+  return [
+    new GeoJsonLayer({
+      id: "aoi-area",
+      data: { type: "Feature", geometry: aoi.geometry, properties: {} } satisfies Feature,
+      filled: true,
+      stroked: true,
+      getFillColor: [255, 60, 160, 50],
+      getLineColor: [255, 60, 160, 255],
+      getLineWidth: 2,
+      lineWidthUnits: "pixels",
+    }),
+    new PathLayer<{ path: Array<[number, number]> }>({
+      id: "aoi-tracks",
+      data: aoi.overflights.map((o) => ({ path: o.track })),
+      getPath: (d) => d.path,
+      getColor: [255, 60, 160, 255],
+      getWidth: 4,
+      widthUnits: "pixels",
+      coordinateSystem: COORDINATE_SYSTEM.LNGLAT,
+    }),
+    new ScatterplotLayer({
+      id: "aoi-sats",
+      data: { length: positions.length / 3, attributes: { getPosition: { value: positions, size: 3 } } },
+      getFillColor: [0, 0, 0, 0],
+      getLineColor: [255, 60, 160, 255],
+      stroked: true,
+      filled: false,
+      lineWidthUnits: "pixels",
+      getLineWidth: 2,
+      radiusUnits: "pixels",
+      getRadius: 6,
+      coordinateSystem: COORDINATE_SYSTEM.LNGLAT,
+    }),
+  ];
+}
+
+// Both ends of each pair, [x1, y1, z1, x2, y2, z2] per pair, taken before filtering
+function pairPositions(pairs: Array<[number, number]>, positions: Float32Array) {
+  const out = new Float32Array(pairs.length * 6);
+  pairs.forEach(([a, b], k) => {
+    out.set(positions.subarray(a * 3, a * 3 + 3), k * 6);
+    out.set(positions.subarray(b * 3, b * 3 + 3), k * 6 + 3);
+  });
+  return out;
+}
+
+function pairLayers(positions: Float32Array) {
+  const count = positions.length / 6;
+  return [
+    new LineLayer({
+      id: "conjunction-lines",
+      data: {
+        length: count,
+        attributes: {
+          getSourcePosition: { value: positions, size: 3, stride: 24, offset: 0 },
+          getTargetPosition: { value: positions, size: 3, stride: 24, offset: 12 },
+        },
+      },
+      getColor: [255, 80, 80, 255],
+      getWidth: 2,
+      widthUnits: "pixels",
+      coordinateSystem: COORDINATE_SYSTEM.LNGLAT,
+    }),
+    new ScatterplotLayer({
+      id: "conjunction-sats",
+      data: { length: count * 2, attributes: { getPosition: { value: positions, size: 3 } } },
+      getFillColor: [0, 0, 0, 0],
+      getLineColor: [255, 80, 80, 255],
+      stroked: true,
+      filled: false,
+      lineWidthUnits: "pixels",
+      getLineWidth: 2,
+      radiusUnits: "pixels",
+      getRadius: 6,
+      coordinateSystem: COORDINATE_SYSTEM.LNGLAT,
+    }),
+  ];
+}
+
+function reentryPositions(markers: ReentryMarker[], positions: Float32Array) {
+  const out = new Float32Array(markers.length * 3);
+  markers.forEach((m, k) => out.set(positions.subarray(m.index * 3, m.index * 3 + 3), k * 3));
+  return out;
+}
+
+const DAY_MS = 86400000;
+
+// Red once the window has opened, orange within a week of it, yellow further out, grey after it
+function reentryColor(m: ReentryMarker, time: number): [number, number, number, number] {
+  if (time > m.windowEnd) return [160, 160, 160, 255];
+  if (time >= m.windowStart) return [255, 60, 60, 255];
+  return m.windowStart - time < 7 * DAY_MS ? [255, 150, 40, 255] : [255, 220, 60, 255];
+}
+
+// "3.2d (2.4-4.1)": days from the sim time to the nominal re-entry and to the window edges
+function reentryLabel(m: ReentryMarker, time: number) {
+  const d = (t: number) => ((t - time) / DAY_MS).toFixed(1);
+  return time > m.windowEnd ? "past" : `${d(m.nominal)}d (${d(m.windowStart)}-${d(m.windowEnd)})`;
+}
+
+function reentryLayers(markers: ReentryMarker[], positions: Float32Array, time: number) {
+  const data = markers.map((m, k) => ({ marker: m, position: Array.from(positions.subarray(k * 3, k * 3 + 3)) }));
+  type D = (typeof data)[number];
+  return [
+    new ScatterplotLayer<D>({
+      id: "reentry-sats",
+      data,
+      getPosition: (d) => d.position as [number, number, number],
+      getFillColor: [0, 0, 0, 0],
+      getLineColor: (d) => reentryColor(d.marker, time),
+      stroked: true,
+      filled: false,
+      lineWidthUnits: "pixels",
+      getLineWidth: 2,
+      radiusUnits: "pixels",
+      getRadius: 8,
+      coordinateSystem: COORDINATE_SYSTEM.LNGLAT,
+    }),
+    new TextLayer<D>({
+      id: "reentry-labels",
+      data,
+      getPosition: (d) => d.position as [number, number, number],
+      getText: (d) => reentryLabel(d.marker, time),
+      getColor: (d) => reentryColor(d.marker, time),
+      getSize: 11,
+      getPixelOffset: [0, -16],
+      fontWeight: "bold",
+      outlineWidth: 2,
+      outlineColor: [0, 0, 0, 255],
+      fontSettings: { sdf: true },
+      coordinateSystem: COORDINATE_SYSTEM.LNGLAT,
+    }),
+  ];
+}
+
+type Footprint = { lonDeg: number; latDeg: number; altKm: number; model: SensorModel };
+
+// Sub-satellite points and sensors of the requested objects; objects without a sensor or a
+// position are skipped
+function footprintsAt(
+  request: { indices: number[]; model: SensorModel | null },
+  models: Array<SensorModel | null>,
+  positions: Float32Array,
+  altKm: Float32Array
+): Footprint[] {
+  const out: Footprint[] = [];
+  for (const i of request.indices) {
+    const model = request.model ?? models[i];
+    const lonDeg = positions[i * 3];
+    if (!model || !Number.isFinite(lonDeg)) continue;
+    out.push({ lonDeg, latDeg: positions[i * 3 + 1], altKm: altKm[i], model });
+  }
+  return out;
+}
+
+// Flat triangles of a wide polygon cut under the curved globe surface, so only footprints
+// smaller than this are filled; all of them are outlined
+const MAX_FILLED_RADIUS_DEG = 30;
+
+function footprintLayers(footprints: Footprint[]) {
+  const rings = footprints.map((f) => {
+    const radius = footprintRadiusDeg(f.model, f.altKm);
+    return { ring: footprintRing(f.lonDeg, f.latDeg, radius), filled: radius < MAX_FILLED_RADIUS_DEG && !footprintCoversPole(f.latDeg, radius) };
+  });
+  return [
+    new SolidPolygonLayer<(typeof rings)[number]>({
+      id: "footprint-fill",
+      data: rings.filter((r) => r.filled),
+      getPolygon: (d) => d.ring,
+      getFillColor: [80, 220, 255, 50],
+      coordinateSystem: COORDINATE_SYSTEM.LNGLAT,
+    }),
+    new PathLayer<(typeof rings)[number]>({
+      id: "footprint-outline",
+      data: rings,
+      getPath: (d) => d.ring,
+      getColor: [80, 220, 255, 200],
+      getWidth: 1,
+      widthUnits: "pixels",
+      coordinateSystem: COORDINATE_SYSTEM.LNGLAT,
+    }),
+  ];
+}
+
+// Dark blue (rarely covered) through green to yellow (always covered)
+const COVERAGE_RAMP: Array<[number, number, number]> = [
+  [40, 30, 120],
+  [30, 110, 200],
+  [40, 180, 120],
+  [200, 220, 40],
+  [255, 240, 80],
+];
+
+function coverageColor(fraction: number): [number, number, number, number] {
+  const x = Math.min(1, Math.max(0, fraction)) * (COVERAGE_RAMP.length - 1);
+  const i = Math.min(COVERAGE_RAMP.length - 2, Math.floor(x));
+  const t = x - i;
+  const [a, b] = [COVERAGE_RAMP[i], COVERAGE_RAMP[i + 1]];
+  return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t, a[2] + (b[2] - a[2]) * t, 150];
+}
+
+function coverageLayer(cells: CoverageCell[]) {
+  const d = COVERAGE_CELL_DEG;
+  return new SolidPolygonLayer<CoverageCell>({
+    id: "coverage",
+    data: cells,
+    getPolygon: (c) => [
+      [c.lon, c.lat],
+      [c.lon + d, c.lat],
+      [c.lon + d, c.lat + d],
+      [c.lon, c.lat + d],
+    ],
+    getFillColor: (c) => coverageColor(c.fraction),
+    coordinateSystem: COORDINATE_SYSTEM.LNGLAT,
+  });
+}
@@ -0,0 +1,194 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { twoline2satrec } from "satellite.js";
+import { formatJstShort } from "../lib/format";
+import type { CatalogTle } from "../lib/snapshots";
+import { Observer, Pass, predictPasses } from "../shared/passes";
+import { tleNoradId } from "../shared/tle";
+import type { PassesRequest, PassesResult } from "../workers/passes.worker";
+
+const WINDOW_HOURS = [6, 12, 24, 48];
+const MIN_ELEVATIONS = [0, 5, 10, 20, 30];
+// Catalog-wide prediction runs in a worker; beyond this many objects it takes minutes
+const MAX_BATCH = 2000;
+const MAX_ROWS = 200;
+
+const deg = (v: number) => (Number.isFinite(v) ? `${v.toFixed(0)}°` : "—");
+const time = (ms: number, inWindow: boolean) => (inWindow ? formatJstShort(ms) : "(窓外)");
+
+// Observer point (typed in or picked on the globe) and the passes over it,
+// for the selected satellite or for every object currently shown
+export const PassPanel: React.FC<{
+  tles: CatalogTle[];
+  visible: Uint8Array | null;
+  selected: number | null;
+  observer: Observer | null;
+  onObserver: (o: Observer | null) => void;
+  picking: boolean;
+  onPicking: (p: boolean) => void;
+  onSelect: (index: number) => void;
+  getTime: () => number;
+}> = ({ tles, visible, selected, observer, onObserver, picking, onPicking, onSelect, getTime }) => {
+  const [hours, setHours] = useState(24);
+  const [minEl, setMinEl] = useState(10);
+  const [batch, setBatch] = useState<PassesResult["passes"] | null>(null);
+  const [running, setRunning] = useState(false);
+  const workerRef = useRef<Worker | null>(null);
+  useEffect(() => () => workerRef.current?.terminate(), []);
+  // window start is taken from the sim clock when an input changes, not on every tick
+  const [start, setStart] = useState(getTime());
+  useEffect(() => setStart(getTime()), [observer, hours, minEl, selected, getTime]);
+  useEffect(() => setBatch(null), [observer, hours, minEl, tles]);
+
+  const options = { start, end: start + hours * 3600000, minElevationDeg: minEl };
+
+  const selectedPasses = useMemo(() => {
+    const t = selected === null ? undefined : tles[selected];
+    if (!t || !observer) return null;
+    try {
+      return predictPasses(twoline2satrec(t.l1, t.l2), observer, options);
+    } catch {
+      return [];
+    }
+  }, [tles, selected, observer, start, hours, minEl]);
+
+  const shownIndices = useMemo(() => {
+    const out: number[] = [];
+    for (let i = 0; i < tles.length; i++) if (!visible || visible[i]) out.push(i);
+    return out;
+  }, [tles, visible]);
+
+  const runBatch = () => {
+    if (!observer) return;
+    setRunning(true);
+    workerRef.current?.terminate();
+    const worker = new Worker(new URL("../workers/passes.worker.ts", import.meta.url), { type: "module" });
+    workerRef.current = worker;
+    worker.onmessage = (e: MessageEvent<PassesResult>) => {
+      setBatch(e.data.passes);
+      setRunning(false);
+      worker.terminate();
+      workerRef.current = null;
+    };
+    const req: PassesRequest = {
+      type: "passes",
+      tles: shownIndices.map((i) => ({ l1: tles[i].l1, l2: tles[i].l2 })),
+      indices: shownIndices,
+      observer,
+      options,
+    };
+    worker.postMessage(req);
+  };
+
+  const setCoord = (key: "latDeg" | "lonDeg", v: string) => {
+    const n = Number(v);
+    if (!Number.isFinite(n)) return;
+    onObserver({ latDeg: 0, lonDeg: 0, ...observer, [key]: n });
+  };
+
+  return (
+    <div style={{ marginTop: 12, fontSize: 13 }}>
+      <b>上空通過予測</b>
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginTop: 4 }}>
+        <label>
+          緯度 <input type="number" step="0.01" value={observer?.latDeg ?? ""} onChange={(e) => setCoord("latDeg", e.target.value)} style={{ width: 80 }} />
+        </label>
+        <label>
+          経度 <input type="number" step="0.01" value={observer?.lonDeg ?? ""} onChange={(e) => setCoord("lonDeg", e.target.value)} style={{ width: 80 }} />
+        </label>
+        <button onClick={() => onPicking(!picking)}>{picking ? "地図をクリック…" : "地図で地点を選択"}</button>
+        <label>
+          最低仰角{" "}
+          <select value={minEl} onChange={(e) => setMinEl(Number(e.target.value))}>
+            {MIN_ELEVATIONS.map((v) => (
+              <option key={v} value={v}>
+                {v}°
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          期間{" "}
+          <select value={hours} onChange={(e) => setHours(Number(e.target.value))}>
+            {WINDOW_HOURS.map((h) => (
+              <option key={h} value={h}>
+                {h} 時間
+              </option>
+            ))}
+          </select>
+        </label>
+        {observer && (
+          <button onClick={() => onObserver(null)} aria-label="地点を解除">
+            ×
+          </button>
+        )}
+      </div>
+      {!observer && <p>地点を入力するか、地図上で選択してください。</p>}
+      {observer && selectedPasses && (
+        <PassTable
+          title={`選択中: ${tles[selected!].name ?? tleNoradId(tles[selected!].l1)}`}
+          rows={selectedPasses.map((p) => ({ ...p, index: selected! }))}
+          tles={tles}
+        />
+      )}
+      {observer && (
+        <div style={{ marginTop: 8 }}>
+          <button onClick={runBatch} disabled={running || shownIndices.length > MAX_BATCH}>
+            表示中の衛星すべて（{shownIndices.length} 件）
+          </button>
+          {shownIndices.length > MAX_BATCH && <span> 絞り込みで {MAX_BATCH} 件以下にしてください</span>}
+          {running && <span> 計算中…</span>}
+        </div>
+      )}
+      {batch && <PassTable title={`${batch.length} パス`} rows={batch.slice(0, MAX_ROWS)} tles={tles} onSelect={onSelect} />}
+    </div>
+  );
+};
+
+const PassTable: React.FC<{
+  title: string;
+  rows: Array<Pass & { index: number }>;
+  tles: CatalogTle[];
+  onSelect?: (index: number) => void;
+}> = ({ title, rows, tles, onSelect }) => (
+  <div style={{ marginTop: 8 }}>
+    <div>{title}</div>
+    {rows.length === 0 ? (
+      <div>期間内の通過はありません</div>
+    ) : (
+      <div style={{ maxHeight: 240, overflowY: "auto" }}>
+        <table style={{ borderCollapse: "collapse" }}>
+          <thead>
+            <tr>
+              {onSelect && <th>衛星</th>}
+              <th>AOS (JST)</th>
+              <th>TCA</th>
+              <th>LOS</th>
+              <th>最大仰角</th>
+              <th>方位 (AOS/TCA/LOS)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((p) => (
+              <tr key={`${p.index}-${p.aos}`}>
+                {onSelect && (
+                  <td>
+                    <a href="#" onClick={(e) => (e.preventDefault(), onSelect(p.index))}>
+                      {tles[p.index]?.name ?? tleNoradId(tles[p.index].l1)}
+                    </a>
+                  </td>
+                )}
+                <td>{time(p.aos, p.aosInWindow)}</td>
+                <td>{formatJstShort(p.tca)}</td>
+                <td>{time(p.los, p.losInWindow)}</td>
+                <td>{p.maxElevationDeg.toFixed(1)}°</td>
+                <td>
+                  {deg(p.aosAzimuthDeg)} / {deg(p.tcaAzimuthDeg)} / {deg(p.losAzimuthDeg)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    )}
+  </div>
+);
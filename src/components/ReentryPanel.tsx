@@ -0,0 +1,93 @@
+import React, { useMemo } from "react";
+import { formatJstShort } from "../lib/format";
+import { ReentrySet, ReentryView, nominalShift } from "../lib/reentries";
+
+const BAR_WIDTH = 120;
+const BAR_HEIGHT = 10;
+
+const formatShift = (ms: number) => {
+  const h = ms / 3600000;
+  return `${h > 0 ? "+" : ""}${Math.abs(h) < 48 ? `${h.toFixed(1)} h` : `${(h / 24).toFixed(1)} 日`}`;
+};
+
+// Uncertainty window on the axis shared by all rows, nominal as a tick and the sim time as a line
+const WindowBar: React.FC<{ c: ReentryView; t0: number; t1: number; now: number }> = ({ c, t0, t1, now }) => {
+  const x = (t: number) => Math.min(BAR_WIDTH, Math.max(0, ((t - t0) / (t1 - t0)) * BAR_WIDTH));
+  return (
+    <svg width={BAR_WIDTH} height={BAR_HEIGHT}>
+      <rect x={x(c.windowStart)} y={2} width={Math.max(1, x(c.windowEnd) - x(c.windowStart))} height={6} fill="rgba(255,150,40,0.6)" />
+      <rect x={x(c.nominal) - 1} y={0} width={2} height={BAR_HEIGHT} fill="#ff5050" />
+      {now >= t0 && now <= t1 && <rect x={x(now)} y={0} width={1} height={BAR_HEIGHT} fill="#fff" />}
+    </svg>
+  );
+};
+
+// Predicted re-entries of objects below the perigee threshold (reentries.json). Clicking a row
+// selects the object; the globe rings the candidates with the days left to their window.
+export const ReentryPanel: React.FC<{
+  reentries: ReentrySet | null;
+  show: boolean;
+  onShow: (v: boolean) => void;
+  onSelect: (noradId: number) => void;
+  getTime: () => number;
+}> = ({ reentries, show, onShow, onSelect, getTime }) => {
+  const axis = useMemo(() => {
+    const list = reentries?.candidates ?? [];
+    if (!list.length) return null;
+    return { t0: Math.min(...list.map((c) => c.windowStart)), t1: Math.max(...list.map((c) => c.windowEnd)) };
+  }, [reentries]);
+
+  if (!reentries) {
+    return <div style={{ marginTop: 12, fontSize: 13, color: "#888" }}>再突入予測（reentries.json）はこのスナップショットにありません</div>;
+  }
+  const now = getTime();
+  return (
+    <div style={{ marginTop: 12, fontSize: 13 }}>
+      <b>再突入予測</b>
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginTop: 4 }}>
+        <span>
+          近地点 {reentries.perigeeThresholdKm} km 未満 {reentries.candidates.length} 件
+        </span>
+        <label>
+          <input type="checkbox" checked={show} onChange={(e) => onShow(e.target.checked)} /> 地球儀に表示
+        </label>
+      </div>
+      <div style={{ maxHeight: 240, overflowY: "auto", marginTop: 4 }}>
+        <table style={{ borderCollapse: "collapse" }}>
+          <thead>
+            <tr>
+              <th>名称</th>
+              <th>近地点</th>
+              <th>予測 (JST)</th>
+              <th>予測幅</th>
+              <th />
+              <th>前回比</th>
+            </tr>
+          </thead>
+          <tbody>
+            {reentries.candidates.map((c) => {
+              const shift = nominalShift(c);
+              return (
+                <tr
+                  key={c.noradId}
+                  style={{ cursor: "pointer", color: now > c.windowEnd ? "#888" : undefined }}
+                  title={`エポック ${formatJstShort(Date.parse(c.epoch))} / ${c.method === "bstar" ? "B*" : "平均運動変化率"}から推定`}
+                  onClick={() => onSelect(c.noradId)}
+                >
+                  <td>{c.name || c.noradId}</td>
+                  <td>{c.perigeeKm.toFixed(0)} km</td>
+                  <td>{formatJstShort(c.nominal)}</td>
+                  <td>
+                    {formatJstShort(c.windowStart)} 〜 {formatJstShort(c.windowEnd)}
+                  </td>
+                  <td>{axis && <WindowBar c={c} t0={axis.t0} t1={axis.t1} now={now} />}</td>
+                  <td>{shift === null ? "" : formatShift(shift)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { twoline2satrec } from "satellite.js";
+import { orbitSummary } from "../lib/orbit";
+import type { CatalogTle } from "../lib/snapshots";
+import type { SatObject } from "../shared/schema";
+import { tleNoradId } from "../shared/tle";
+
+const fmt = (v: number, digits = 1) => (Number.isFinite(v) ? v.toFixed(digits) : "—");
+
+// Epoch age at the simulation time, e.g. "+1.25 日" (negative = epoch is in the future)
+const formatAge = (ms: number) => `${ms >= 0 ? "+" : "−"}${(Math.abs(ms) / 86400000).toFixed(2)} 日`;
+
+// Orbit values come from the satrec; catalog fields from the objects.json join when available
+export const SatelliteDetails: React.FC<{
+  tle: CatalogTle;
+  // undefined = still loading, null = snapshot has no objects.json or no record
+  object: SatObject | null | undefined;
+  getTime: () => number;
+  onClose: () => void;
+}> = ({ tle, object, getTime, onClose }) => {
+  const summary = useMemo(() => {
+    try {
+      return orbitSummary(twoline2satrec(tle.l1, tle.l2));
+    } catch {
+      return null;
+    }
+  }, [tle]);
+  const [now, setNow] = useState(getTime());
+  useEffect(() => {
+    const t = setInterval(() => setNow(getTime()), 1000);
+    return () => clearInterval(t);
+  }, [getTime]);
+
+  const rows: Array<[string, React.ReactNode]> = [
+    ["NORAD ID", tleNoradId(tle.l1)],
+    ["COSPAR ID", object?.cosparId ?? "—"],
+    ["種別", object ? object.objectType : object === undefined ? "…" : "—"],
+    ["カテゴリ", tle.category ?? "—"],
+    ["所有国", object?.owner ?? "—"],
+    ["打上げ日", object?.launchDate ?? "—"],
+  ];
+  if (summary) {
+    rows.push(
+      ["エポック", new Date(summary.epochMs).toISOString()],
+      ["エポック経過", formatAge(now - summary.epochMs)],
+      ["近地点 / 遠地点", `${fmt(summary.perigeeKm)} / ${fmt(summary.apogeeKm)} km`],
+      ["軌道傾斜角", `${fmt(summary.inclinationDeg, 2)}°`],
+      ["周期", `${fmt(summary.periodMin, 2)} 分`],
+      ["離心率", fmt(summary.eccentricity, 5)]
+    );
+  }
+
+  return (
+    <div
+      style={{
+        position: "absolute",
+        top: 12,
+        left: 12,
+        minWidth: 260,
+        padding: 12,
+        borderRadius: 8,
+        background: "rgba(0, 0, 0, 0.75)",
+        color: "#fff",
+        fontSize: 13,
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 8 }}>
+        <b>{object?.name || tle.name || "(名称なし)"}</b>
+        <button onClick={onClose} aria-label="閉じる">
+          ×
+        </button>
+      </div>
+      <table>
+        <tbody>
+          {rows.map(([k, v]) => (
+            <tr key={k}>
+              <td style={{ paddingRight: 12, opacity: 0.7 }}>{k}</td>
+              <td>{v}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
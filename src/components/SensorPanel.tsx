@@ -0,0 +1,154 @@
+import React, { useEffect, useMemo, useState } from "react";
+import type { CatalogTle } from "../lib/snapshots";
+import { CoverageGrid, CoverageRequest, coveredAreaFraction } from "../lib/coverage";
+import type { FootprintRequest } from "./MapLibreGlobe";
+import { SensorModel, describeSensor } from "../shared/sensors";
+
+type ModelChoice = "default" | SensorModel["kind"];
+
+const MODEL_CHOICES: Array<{ id: ModelChoice; label: string; unit: string; initial: number }> = [
+  { id: "default", label: "衛星ごとの既定値", unit: "", initial: 0 },
+  { id: "cone", label: "円錐（半頂角）", unit: "°", initial: 30 },
+  { id: "swath", label: "観測幅", unit: "km", initial: 100 },
+  { id: "horizon", label: "地平線（最低仰角）", unit: "°", initial: 10 },
+];
+
+const WINDOW_HOURS = [1, 3, 6, 24];
+const STEPS_SEC = [30, 60, 120, 300];
+// Footprints are redrawn on every tick; past this many the globe stutters
+const MAX_FOOTPRINTS = 2000;
+
+function customModel(choice: ModelChoice, value: number): SensorModel | null {
+  if (choice === "cone") return { kind: "cone", halfAngleDeg: value };
+  if (choice === "swath") return { kind: "swath", widthKm: value };
+  if (choice === "horizon") return { kind: "horizon", minElevationDeg: value };
+  return null;
+}
+
+// Sensor footprints of the selected satellite or of the objects shown, and their coverage
+// accumulated over a window from the sim time. A constellation is chosen with the filters.
+export const SensorPanel: React.FC<{
+  tles: CatalogTle[];
+  visible: Uint8Array | null;
+  selected: number | null;
+  onFootprints: (request: FootprintRequest | null) => void;
+  coverage: CoverageRequest | null;
+  onCoverage: (request: CoverageRequest | null) => void;
+  grid: CoverageGrid | null;
+  getTime: () => number;
+}> = ({ tles, visible, selected, onFootprints, coverage, onCoverage, grid, getTime }) => {
+  const [scope, setScope] = useState<"selected" | "shown">("shown");
+  const [choice, setChoice] = useState<ModelChoice>("default");
+  const [value, setValue] = useState(0);
+  const [showFootprints, setShowFootprints] = useState(false);
+  const [hours, setHours] = useState(6);
+  const [stepSec, setStepSec] = useState(60);
+
+  const indices = useMemo(() => {
+    if (scope === "selected") return selected === null ? [] : [selected];
+    const out: number[] = [];
+    for (let i = 0; i < tles.length; i++) if (!visible || visible[i]) out.push(i);
+    return out;
+  }, [scope, selected, tles, visible]);
+  const model = useMemo(() => customModel(choice, value), [choice, value]);
+  const valid = choice === "default" || value > 0 || (choice === "horizon" && value === 0);
+
+  useEffect(() => {
+    onFootprints(showFootprints && valid && indices.length ? { indices: indices.slice(0, MAX_FOOTPRINTS), model } : null);
+  }, [showFootprints, valid, indices, model, onFootprints]);
+
+  const run = () => {
+    const start = getTime();
+    onCoverage({ indices, model, start, end: start + hours * 3600000, stepSec });
+  };
+  const covered = useMemo(() => (grid ? coveredAreaFraction(grid) : null), [grid]);
+  const unit = MODEL_CHOICES.find((c) => c.id === choice)!.unit;
+
+  return (
+    <div style={{ marginTop: 12, fontSize: 13 }}>
+      <b>センサー視野とカバレッジ</b>
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginTop: 4 }}>
+        <label>
+          対象:{" "}
+          <select value={scope} onChange={(e) => setScope(e.target.value as "selected" | "shown")}>
+            <option value="selected">選択中の衛星</option>
+            <option value="shown">表示中の衛星すべて</option>
+          </select>
+        </label>
+        <label>
+          センサー:{" "}
+          <select
+            value={choice}
+            onChange={(e) => {
+              const c = MODEL_CHOICES.find((m) => m.id === e.target.value)!;
+              setChoice(c.id);
+              setValue(c.initial);
+            }}
+          >
+            {MODEL_CHOICES.map((c) => (
+              <option key={c.id} value={c.id}>
+                {c.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        {choice !== "default" && (
+          <label>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={value}
+              onChange={(e) => setValue(Number(e.target.value))}
+              style={{ width: 70 }}
+            />{" "}
+            {unit}
+          </label>
+        )}
+        <label>
+          <input type="checkbox" checked={showFootprints} onChange={(e) => setShowFootprints(e.target.checked)} />{" "}
+          視野を表示
+        </label>
+      </div>
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginTop: 4 }}>
+        <label>
+          期間:{" "}
+          <select value={hours} onChange={(e) => setHours(Number(e.target.value))}>
+            {WINDOW_HOURS.map((h) => (
+              <option key={h} value={h}>
+                {h} 時間
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          間隔:{" "}
+          <select value={stepSec} onChange={(e) => setStepSec(Number(e.target.value))}>
+            {STEPS_SEC.map((s) => (
+              <option key={s} value={s}>
+                {s} 秒
+              </option>
+            ))}
+          </select>
+        </label>
+        <button onClick={run} disabled={!indices.length || !valid}>
+          カバレッジ計算（{indices.length} 件）
+        </button>
+        <button onClick={() => onCoverage(null)} disabled={!coverage}>
+          消去
+        </button>
+      </div>
+      <div style={{ color: "#888" }}>
+        {model ? `全対象に ${describeSensor(model)} を適用します。` : "センサーの既定値がない物体（デブリ等）は除かれます。"}
+        {showFootprints && indices.length > MAX_FOOTPRINTS && ` 視野の表示は先頭 ${MAX_FOOTPRINTS} 件までです。`}
+        {" "}コンステレーションはフィルタで絞り込んでください。
+      </div>
+      {coverage && grid && (
+        <div>
+          {grid.done < grid.steps ? `計算中 ${grid.done} / ${grid.steps} ステップ` : `${grid.steps} ステップ完了`}
+          {covered !== null && ` ・ 一度でも覆われた面積: ${(covered * 100).toFixed(1)}%`}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+import React, { useEffect, useState } from "react";
+import { formatJst } from "../lib/format";
+import type { SimClock } from "../lib/useSimClock";
+
+const SPEEDS = [1, 10, 60, 300, 1800, 3600];
+const SCRUB_STEP_MS = 60 * 1000;
+
+// Play/pause, speed multiplier and a scrub bar over [minTime, maxTime].
+// Keeps its own display refresh so the globe does not re-render with the clock.
+export const TimeControls: React.FC<{
+  clock: SimClock;
+  minTime: number;
+  maxTime: number;
+}> = ({ clock, minTime, maxTime }) => {
+  const [now, setNow] = useState(clock.getTime());
+
+  useEffect(() => {
+    const t = setInterval(() => setNow(clock.getTime()), 250);
+    return () => clearInterval(t);
+  }, [clock.getTime]);
+
+  const seek = (ms: number) => {
+    clock.seek(ms);
+    setNow(ms);
+  };
+
+  return (
+    <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginBottom: 8 }}>
+      <button onClick={() => clock.setPlaying(!clock.playing)}>
+        {clock.playing ? "一時停止" : "再生"}
+      </button>
+      <label>
+        速度:{" "}
+        <select value={clock.speed} onChange={(e) => clock.setSpeed(Number(e.target.value))}>
+          {SPEEDS.map((s) => (
+            <option key={s} value={s}>
+              ×{s}
+            </option>
+          ))}
+        </select>
+      </label>
+      <input
+        type="range"
+        min={minTime}
+        max={maxTime}
+        step={SCRUB_STEP_MS}
+        value={Math.min(maxTime, Math.max(minTime, now))}
+        onChange={(e) => seek(Number(e.target.value))}
+        style={{ flex: 1, minWidth: 200 }}
+      />
+      <button
+        onClick={() => {
+          seek(Date.now());
+          clock.setSpeed(1);
+        }}
+      >
+        現在時刻
+      </button>
+      <code>{formatJst(now)}</code>
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+import { geometryFromGeoJson } from "../shared/overflight";
+import type { AoiGeometry, AoiReport } from "../shared/schema";
+import { tleNoradId } from "../shared/tle";
+import type { AoiRequest, AoiResult } from "../workers/aoi.worker";
+import type { CatalogTle } from "./snapshots";
+
+// Area-of-interest overlay: either an `npm run aoi` report or a bare GeoJSON polygon
+// computed in a worker against the loaded catalog.
+
+export type AoiOverflightView = {
+  // index into the loaded catalog, -1 when the object is not in it
+  index: number;
+  noradId: number;
+  name: string;
+  kind: string | null;
+  entry: number;
+  exit: number;
+  sunElevationDeg: number;
+  sunlit: boolean;
+  track: Array<[number, number]>;
+};
+
+export type AoiOverlay = {
+  name: string;
+  geometry: AoiGeometry;
+  overflights: AoiOverflightView[];
+  window: { start: number; end: number };
+};
+
+export const AOI_WINDOW_HOURS = 24;
+
+function indexByNorad(tles: CatalogTle[]) {
+  const m = new Map<number, number>();
+  tles.forEach((t, i) => m.set(tleNoradId(t.l1), i));
+  return m;
+}
+
+export function overlayFromReport(report: AoiReport, tles: CatalogTle[]): AoiOverlay {
+  const byId = indexByNorad(tles);
+  return {
+    name: report.area.name,
+    geometry: report.area.geometry,
+    window: { start: Date.parse(report.window.start), end: Date.parse(report.window.end) },
+    overflights: report.records.map((r) => ({
+      ...r,
+      index: byId.get(r.noradId) ?? -1,
+      entry: Date.parse(r.entry),
+      exit: Date.parse(r.exit),
+    })),
+  };
+}
+
+// Catalog indices after switching snapshots
+export function reindexOverlay(aoi: AoiOverlay, tles: CatalogTle[]): AoiOverlay {
+  const byId = indexByNorad(tles);
+  return { ...aoi, overflights: aoi.overflights.map((o) => ({ ...o, index: byId.get(o.noradId) ?? -1 })) };
+}
+
+export function computeOverlay(
+  name: string,
+  geometry: AoiGeometry,
+  tles: CatalogTle[],
+  start: number
+): { promise: Promise<AoiOverlay>; cancel: () => void } {
+  const end = start + AOI_WINDOW_HOURS * 3600000;
+  const worker = new Worker(new URL("../workers/aoi.worker.ts", import.meta.url), { type: "module" });
+  const promise = new Promise<AoiOverlay>((resolve) => {
+    worker.onmessage = (e: MessageEvent<AoiResult>) => {
+      worker.terminate();
+      resolve({
+        name,
+        geometry,
+        window: { start, end },
+        overflights: e.data.crossings.map((c) => ({
+          ...c,
+          noradId: tleNoradId(tles[c.index].l1),
+          name: tles[c.index].name ?? "",
+        })),
+      });
+    };
+  });
+  const req: AoiRequest = { type: "aoi", tles: tles.map(({ name, l1, l2 }) => ({ name, l1, l2 })), geometry, start, end };
+  worker.postMessage(req);
+  return { promise, cancel: () => worker.terminate() };
+}
+
+// A report carries its own results; anything else must contain a polygon
+export function readAoiFile(text: string): { report: AoiReport } | { geometry: AoiGeometry } {
+  const json = JSON.parse(text);
+  if (json?.schema === "aoi_overflights") return { report: json as AoiReport };
+  return { geometry: geometryFromGeoJson(json) };
+}
@@ -0,0 +1,61 @@
+import type { StyleSpecification } from "maplibre-gl";
+
+// Globe styles. The Natural Earth layers (public/basemap/, npm run basemap) are bundled with the
+// site, so the offline style needs no network at all; the imagery style draws EOX tiles over the
+// same layers, which stay visible wherever tiles fail to load.
+
+export type BasemapId = "imagery" | "offline";
+
+export const BASEMAPS: Array<{ id: BasemapId; label: string }> = [
+  { id: "imagery", label: "衛星画像 (EOX s2cloudless)" },
+  { id: "offline", label: "オフライン地図 (Natural Earth)" },
+];
+
+export const isBasemapId = (v: unknown): v is BasemapId => BASEMAPS.some((b) => b.id === v);
+
+// GeoJSON sources load in a worker, which cannot resolve paths against the page
+const siteUrl = (file: string) => new URL(file, document.baseURI).href;
+
+// Source and layer of the day/night overlay, filled from the sim clock (see terminator.ts)
+export const TERMINATOR_SOURCE = "terminator";
+export const TERMINATOR_LAYER = "night";
+
+export function basemapStyle(id: BasemapId): StyleSpecification {
+  const imagery = id === "imagery";
+  return {
+    version: 8,
+    projection: { type: "globe" },
+    sources: {
+      land: { type: "geojson", data: siteUrl("basemap/land.geojson") },
+      borders: { type: "geojson", data: siteUrl("basemap/borders.geojson") },
+      ...(imagery && {
+        satellite: {
+          type: "raster",
+          tiles: ["https://tiles.maps.eox.at/wmts/1.0.0/s2cloudless-2020_3857/default/g/{z}/{y}/{x}.jpg"],
+          tileSize: 256,
+        },
+      }),
+      [TERMINATOR_SOURCE]: { type: "geojson", data: { type: "FeatureCollection", features: [] } },
+    },
+    layers: [
+      { id: "ocean", type: "background", paint: { "background-color": "#0b2a45" } },
+      { id: "land", type: "fill", source: "land", paint: { "fill-color": "#2d3b2f" } },
+      { id: "coastline", type: "line", source: "land", paint: { "line-color": "#8fb3c9", "line-width": 0.8 } },
+      ...(imagery ? [{ id: "Satellite", type: "raster" as const, source: "satellite" }] : []),
+      {
+        id: "borders",
+        type: "line",
+        source: "borders",
+        paint: { "line-color": "#d8d8d8", "line-width": 0.6, "line-opacity": imagery ? 0.5 : 0.8 },
+      },
+      { id: TERMINATOR_LAYER, type: "fill", source: TERMINATOR_SOURCE, paint: { "fill-color": "#000010", "fill-opacity": 0.4 } },
+    ],
+    sky: {
+      "atmosphere-blend": ["interpolate", ["linear"], ["zoom"], 0, 1, 5, 1, 7, 0],
+    },
+    light: {
+      anchor: "map",
+      position: [1.5, 90, 80],
+    },
+  };
+}
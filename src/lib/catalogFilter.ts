@@ -0,0 +1,128 @@
+import {
+  CATEGORIES,
+  Category,
+  ORBIT_REGIMES,
+  OrbitRegime,
+  categoryFromCode,
+  orbitRegime,
+} from "../shared/categories";
+import { classifyConstellation } from "../shared/constellations";
+import type { SatObject } from "../shared/schema";
+import { tleCosparId, tleNoradId } from "../shared/tle";
+import type { CatalogTle } from "./snapshots";
+
+// Per-object search/filter keys, built once per catalog (and again when objects.json arrives).
+
+export type CatalogIndex = {
+  noradId: Uint32Array;
+  regime: Uint8Array;
+  // lower-cased, for substring search
+  names: string[];
+  cosparIds: string[];
+  owners: Array<string | null>;
+  constellations: Array<string | null>;
+};
+
+export type CatalogFilter = {
+  query: string;
+  hiddenCategories: Set<Category>;
+  hiddenRegimes: Set<OrbitRegime>;
+  // empty = no restriction
+  owners: Set<string>;
+  constellations: Set<string>;
+};
+
+export const EMPTY_FILTER: CatalogFilter = {
+  query: "",
+  hiddenCategories: new Set(),
+  hiddenRegimes: new Set(),
+  owners: new Set(),
+  constellations: new Set(),
+};
+
+const MU_KM3_S2 = 398600.4418;
+const EARTH_RADIUS_KM = 6378.137;
+
+// Mean altitude above the equatorial radius from the TLE mean motion
+const meanAltitudeKm = (meanMotionRevPerDay: number) => {
+  const n = (meanMotionRevPerDay * 2 * Math.PI) / 86400;
+  return Math.cbrt(MU_KM3_S2 / (n * n)) - EARTH_RADIUS_KM;
+};
+
+export function buildCatalogIndex(
+  tles: CatalogTle[],
+  objects: Map<number, SatObject> | null
+): CatalogIndex {
+  const n = tles.length;
+  const noradId = new Uint32Array(n);
+  const regime = new Uint8Array(n);
+  const names: string[] = new Array(n);
+  const cosparIds: string[] = new Array(n);
+  const owners: Array<string | null> = new Array(n);
+  const constellations: Array<string | null> = new Array(n);
+  for (let i = 0; i < n; i++) {
+    const { l1, l2, name } = tles[i];
+    const id = tleNoradId(l1);
+    const obj = objects?.get(id);
+    noradId[i] = id;
+    const meanMotion = Number(l2.slice(52, 63));
+    regime[i] = ORBIT_REGIMES.indexOf(orbitRegime(meanMotion, Number(`0.${l2.slice(26, 33).trim()}`)));
+    const displayName = obj?.name || name || "";
+    const cosparId = obj?.cosparId ?? tleCosparId(l1);
+    names[i] = displayName.toLowerCase();
+    cosparIds[i] = (cosparId ?? "").toLowerCase();
+    owners[i] = obj?.owner ?? null;
+    // same rules as the collector's constellations.json
+    constellations[i] =
+      classifyConstellation({
+        name: displayName,
+        cosparId,
+        owner: obj?.owner,
+        objectType: obj?.objectType,
+        altKm: meanAltitudeKm(meanMotion),
+        inclinationDeg: Number(l2.slice(8, 16)),
+      })?.name ?? null;
+  }
+  return { noradId, regime, names, cosparIds, owners, constellations };
+}
+
+// Digits match NORAD IDs by prefix, "1998-067" style matches COSPAR IDs, anything else the name
+function queryMatcher(query: string) {
+  const q = query.trim().toLowerCase();
+  if (!q) return null;
+  if (/^\d+$/.test(q)) return (ix: CatalogIndex, i: number) => String(ix.noradId[i]).startsWith(q) || ix.names[i].includes(q);
+  if (/^\d{4}-\d{0,3}[a-z]*$/.test(q)) return (ix: CatalogIndex, i: number) => ix.cosparIds[i].startsWith(q);
+  return (ix: CatalogIndex, i: number) => ix.names[i].includes(q);
+}
+
+// 1 = visible. Category counts ignore the category checkboxes, so the legend
+// still shows how many objects a hidden category would add back.
+export function applyFilter(ix: CatalogIndex, categories: Uint8Array, filter: CatalogFilter) {
+  const n = categories.length;
+  const mask = new Uint8Array(n);
+  const counts = Object.fromEntries(CATEGORIES.map((c) => [c, 0])) as Record<Category, number>;
+  const regimeCounts = Object.fromEntries(ORBIT_REGIMES.map((r) => [r, 0])) as Record<OrbitRegime, number>;
+  const match = queryMatcher(filter.query);
+  let visible = 0;
+  for (let i = 0; i < n; i++) {
+    if (match && !match(ix, i)) continue;
+    if (filter.owners.size && !filter.owners.has(ix.owners[i] ?? "")) continue;
+    if (filter.constellations.size && !filter.constellations.has(ix.constellations[i] ?? "")) continue;
+    const regime = ORBIT_REGIMES[ix.regime[i]];
+    regimeCounts[regime]++;
+    if (filter.hiddenRegimes.has(regime)) continue;
+    const cat = categoryFromCode(categories[i]);
+    counts[cat]++;
+    if (filter.hiddenCategories.has(cat)) continue;
+    mask[i] = 1;
+    visible++;
+  }
+  return { mask, visible, counts, regimeCounts };
+}
+
+// Distinct values with their object counts, most common first
+export function facetCounts(values: Array<string | null>) {
+  const m = new Map<string, number>();
+  for (const v of values) if (v) m.set(v, (m.get(v) ?? 0) + 1);
+  return [...m.entries()].sort((a, b) => b[1] - a[1]);
+}
@@ -0,0 +1,37 @@
+import type { Conjunction, ConjunctionReport } from "../shared/schema";
+import { tleNoradId } from "../shared/tle";
+import type { CatalogTle } from "./snapshots";
+
+// conjunctions.json joined to the loaded catalog, for the panel and the globe highlight
+
+export type ConjunctionView = Omit<Conjunction, "tca"> & {
+  // indices into the loaded catalog, -1 when the object is not in it
+  index1: number;
+  index2: number;
+  tca: number;
+};
+
+export type ConjunctionSet = {
+  thresholdKm: number;
+  window: { start: number; end: number };
+  events: ConjunctionView[];
+};
+
+export function conjunctionSet(report: ConjunctionReport, tles: CatalogTle[]): ConjunctionSet {
+  const byId = new Map<number, number>();
+  tles.forEach((t, i) => byId.set(tleNoradId(t.l1), i));
+  return {
+    thresholdKm: report.thresholdKm,
+    window: { start: Date.parse(report.window.start), end: Date.parse(report.window.end) },
+    events: report.records.map((r) => ({
+      ...r,
+      index1: byId.get(r.noradId1) ?? -1,
+      index2: byId.get(r.noradId2) ?? -1,
+      tca: Date.parse(r.tca),
+    })),
+  };
+}
+
+// Catalog index pairs to highlight; events with an object outside the catalog are skipped
+export const conjunctionPairs = (events: ConjunctionView[]): Array<[number, number]> =>
+  events.filter((e) => e.index1 >= 0 && e.index2 >= 0).map((e) => [e.index1, e.index2]);
@@ -0,0 +1,104 @@
+import { SensorModel, footprintRadiusDeg } from "../shared/sensors";
+
+// Accumulated footprint coverage on a 1-degree latitude/longitude grid: for each cell, the
+// number of time steps in which at least one footprint covered its centre.
+
+const DEG2RAD = Math.PI / 180;
+export const COVERAGE_CELL_DEG = 1;
+const ROWS = 180 / COVERAGE_CELL_DEG;
+const COLS = 360 / COVERAGE_CELL_DEG;
+
+export type CoverageRequest = {
+  // indices into the catalog
+  indices: number[];
+  // null = each object's default sensor
+  model: SensorModel | null;
+  start: number;
+  end: number;
+  stepSec: number;
+};
+
+export type CoverageGrid = {
+  request: CoverageRequest;
+  // steps in which each cell (row-major from -90 lat, -180 lon) was covered
+  counts: Uint16Array;
+  steps: number;
+  // steps accumulated so far, equal to steps once complete
+  done: number;
+};
+
+export const coverageSteps = (r: CoverageRequest) => Math.floor((r.end - r.start) / (r.stepSec * 1000)) + 1;
+
+export function createCoverageGrid(request: CoverageRequest): CoverageGrid {
+  return { request, counts: new Uint16Array(ROWS * COLS), steps: coverageSteps(request), done: 0 };
+}
+
+const rowLat = (row: number) => -90 + (row + 0.5) * COVERAGE_CELL_DEG;
+
+// Marks the cells under one time step's footprints. `stamp` (one entry per cell) keeps
+// overlapping footprints of the same step from counting twice.
+export function accumulateStep(
+  grid: CoverageGrid,
+  footprints: Array<{ lonDeg: number; latDeg: number; altKm: number; model: SensorModel }>,
+  stamp: Uint32Array
+) {
+  const step = ++grid.done;
+  for (const f of footprints) {
+    const radius = footprintRadiusDeg(f.model, f.altKm);
+    if (!(radius > 0)) continue;
+    const lat0 = f.latDeg * DEG2RAD;
+    const cosR = Math.cos(radius * DEG2RAD);
+    const rowLo = Math.max(0, Math.floor((f.latDeg - radius + 90) / COVERAGE_CELL_DEG));
+    const rowHi = Math.min(ROWS - 1, Math.floor((f.latDeg + radius + 90) / COVERAGE_CELL_DEG));
+    for (let row = rowLo; row <= rowHi; row++) {
+      const lat = rowLat(row) * DEG2RAD;
+      // cells whose centre lies within the footprint's central angle: cos(dLon) >= c
+      const c = (cosR - Math.sin(lat) * Math.sin(lat0)) / (Math.cos(lat) * Math.cos(lat0));
+      if (c > 1) continue;
+      const half = c <= -1 ? 180 : Math.acos(c) / DEG2RAD;
+      const colLo = Math.ceil((f.lonDeg - half + 180) / COVERAGE_CELL_DEG - 0.5);
+      const colHi = Math.floor((f.lonDeg + half + 180) / COVERAGE_CELL_DEG - 0.5);
+      const span = Math.min(colHi - colLo + 1, COLS);
+      for (let k = 0; k < span; k++) {
+        const col = (((colLo + k) % COLS) + COLS) % COLS;
+        const cell = row * COLS + col;
+        if (stamp[cell] === step) continue;
+        stamp[cell] = step;
+        grid.counts[cell]++;
+      }
+    }
+  }
+}
+
+export type CoverageCell = { lon: number; lat: number; fraction: number };
+
+// Covered cells with the fraction of steps they were covered in, for drawing
+export function coverageCells(grid: CoverageGrid): CoverageCell[] {
+  const out: CoverageCell[] = [];
+  if (!grid.done) return out;
+  for (let cell = 0; cell < grid.counts.length; cell++) {
+    const n = grid.counts[cell];
+    if (!n) continue;
+    const row = Math.floor(cell / COLS);
+    out.push({
+      lon: -180 + (cell % COLS) * COVERAGE_CELL_DEG,
+      lat: -90 + row * COVERAGE_CELL_DEG,
+      fraction: n / grid.done,
+    });
+  }
+  return out;
+}
+
+// Fraction of the Earth's surface covered at least once, area-weighted
+export function coveredAreaFraction(grid: CoverageGrid) {
+  let covered = 0;
+  let total = 0;
+  for (let row = 0; row < ROWS; row++) {
+    const w = Math.cos(rowLat(row) * DEG2RAD);
+    for (let col = 0; col < COLS; col++) {
+      total += w;
+      if (grid.counts[row * COLS + col]) covered += w;
+    }
+  }
+  return covered / total;
+}
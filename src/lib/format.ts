@@ -0,0 +1,16 @@
+// Display formatting shared by the viewer panels.
+
+export const formatJst = (ms: number) =>
+  new Date(ms).toLocaleString("ja-JP", { timeZone: "Asia/Tokyo", hour12: false }) + " JST";
+
+// "9/27 11:52:32", for tables
+export const formatJstShort = (ms: number) =>
+  new Date(ms).toLocaleString("ja-JP", {
+    timeZone: "Asia/Tokyo",
+    hour12: false,
+    month: "numeric",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
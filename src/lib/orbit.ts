@@ -0,0 +1,96 @@
+import {
+  SatRec,
+  propagate,
+  eciToGeodetic,
+  degreesLat,
+  degreesLong,
+  gstime,
+} from "satellite.js";
+import { scaleAltitudeLog } from "./altitude";
+
+// Single-satellite helpers for the selection overlay; the catalog itself is propagated in workers.
+
+const MU_KM3_S2 = 398600.4418;
+const EARTH_RADIUS_KM = 6378.137;
+const RAD2DEG = 180 / Math.PI;
+
+export type PathPoint = [number, number, number];
+
+export type OrbitSummary = {
+  epochMs: number;
+  inclinationDeg: number;
+  eccentricity: number;
+  periodMin: number;
+  perigeeKm: number;
+  apogeeKm: number;
+};
+
+// SGP4 mean elements (satrec.no is the Brouwer mean motion in rad/min)
+export function orbitSummary(rec: SatRec): OrbitSummary {
+  const nRadS = rec.no / 60;
+  const a = Math.cbrt(MU_KM3_S2 / (nRadS * nRadS));
+  return {
+    epochMs: (rec.jdsatepoch - 2440587.5) * 86400000,
+    inclinationDeg: rec.inclo * RAD2DEG,
+    eccentricity: rec.ecco,
+    periodMin: (2 * Math.PI) / rec.no,
+    perigeeKm: a * (1 - rec.ecco) - EARTH_RADIUS_KM,
+    apogeeKm: a * (1 + rec.ecco) - EARTH_RADIUS_KM,
+  };
+}
+
+const periodMs = (rec: SatRec) => ((2 * Math.PI) / rec.no) * 60000;
+
+// Long paths are split where they cross the antimeridian so they are not drawn the long way round
+function splitAtAntimeridian(points: PathPoint[]): PathPoint[][] {
+  const out: PathPoint[][] = [];
+  let cur: PathPoint[] = [];
+  for (const p of points) {
+    const prev = cur[cur.length - 1];
+    if (prev && Math.abs(p[0] - prev[0]) > 180) {
+      if (cur.length > 1) out.push(cur);
+      cur = [];
+    }
+    cur.push(p);
+  }
+  if (cur.length > 1) out.push(cur);
+  return out;
+}
+
+// Sub-satellite points from `time - orbits * period` to `time + orbits * period`
+export function groundTrack(rec: SatRec, time: number, opts: { orbits?: number; steps?: number } = {}) {
+  const span = periodMs(rec) * (opts.orbits ?? 1);
+  const steps = opts.steps ?? 360;
+  const past: PathPoint[] = [];
+  const future: PathPoint[] = [];
+  for (let i = -steps; i <= steps; i++) {
+    const t = time + (span * i) / steps;
+    const date = new Date(t);
+    const pos = propagate(rec, date)?.position;
+    if (!pos || typeof pos !== "object") continue;
+    const gd = eciToGeodetic(pos, gstime(date));
+    const p: PathPoint = [degreesLong(gd.longitude), degreesLat(gd.latitude), 0];
+    if (i <= 0) past.push(p);
+    if (i >= 0) future.push(p);
+  }
+  return { past: splitAtAntimeridian(past), future: splitAtAntimeridian(future) };
+}
+
+// One revolution in the inertial frame, rotated into Earth-fixed coordinates at `time`,
+// at the same scaled altitude the points are drawn at
+export function orbitRing(rec: SatRec, time: number, steps = 180) {
+  const span = periodMs(rec);
+  const gmst = gstime(new Date(time));
+  const points: PathPoint[] = [];
+  for (let i = 0; i <= steps; i++) {
+    const pos = propagate(rec, new Date(time + (span * i) / steps))?.position;
+    if (!pos || typeof pos !== "object") continue;
+    const gd = eciToGeodetic(pos, gmst);
+    points.push([
+      degreesLong(gd.longitude),
+      degreesLat(gd.latitude),
+      scaleAltitudeLog(Math.max(0, gd.height * 1000)),
+    ]);
+  }
+  return splitAtAntimeridian(points);
+}
@@ -0,0 +1,154 @@
+import type { PreciseTrack } from "../shared/sp3";
+import type { WorkerInit, WorkerPositions, WorkerPrecise, WorkerReady } from "../workers/propagate.worker";
+
+export type PoolTle = WorkerInit["tles"][number];
+
+// A worker that crashes is replaced, up to this many times per slice
+const MAX_RESPAWNS = 3;
+
+type Job = { resolve: (m: WorkerPositions) => void; reject: (e: Error) => void };
+
+// Splits the catalog across a few workers; each tick resolves with one merged
+// Float32Array of [lng, lat, scaledAltitudeM] per object, in input order, and the
+// matching true altitudes in km. A worker error rejects the ticks it had in hand and
+// respawns the worker; `onFailure` hears about a slice whose worker keeps failing, and
+// `categories` then rejects if that worker never started. `dispose` rejects pending ticks.
+export function createPropagationPool(
+  tles: PoolTle[],
+  opts: { workers?: number; time?: number; onFailure?: (e: Error) => void } = {}
+) {
+  const size = Math.max(
+    1,
+    Math.min(
+      opts.workers ?? Math.max(1, (navigator.hardwareConcurrency || 2) - 1),
+      4,
+      tles.length
+    )
+  );
+  const chunk = Math.ceil(tles.length / size);
+  const time = opts.time ?? Date.now();
+  let nextId = 0;
+  let disposed = false;
+  const disposedError = () => new Error("propagation pool disposed");
+
+  const slices = Array.from({ length: size }, (_, i) => {
+    const start = i * chunk;
+    const part = tles.slice(start, start + chunk);
+    const init: WorkerInit = { type: "init", tles: part, time };
+    const jobs = new Map<number, Job>();
+    // last tracks sent, replayed to a respawned worker
+    let precise: WorkerPrecise | null = null;
+    let respawns = 0;
+    let failed: Error | null = null;
+    let onReady: (categories: Uint8Array) => void = () => {};
+    let onReadyFailed: (e: Error) => void = () => {};
+    const ready = new Promise<Uint8Array>((resolve, reject) => {
+      onReady = resolve;
+      onReadyFailed = reject;
+    });
+
+    function spawn() {
+      const w = new Worker(
+        new URL("../workers/propagate.worker.ts", import.meta.url),
+        { type: "module" }
+      );
+      w.onmessage = (e: MessageEvent<WorkerReady | WorkerPositions>) => {
+        if (e.data.type === "ready") return onReady(e.data.categories);
+        const job = jobs.get(e.data.id);
+        jobs.delete(e.data.id);
+        job?.resolve(e.data);
+      };
+      w.onerror = (e) => {
+        e.preventDefault();
+        fail(new Error(`propagation worker failed: ${e.message || "unknown error"}`));
+      };
+      w.onmessageerror = () => fail(new Error("propagation worker sent an unreadable message"));
+      w.postMessage(init);
+      if (precise) w.postMessage(precise);
+      return w;
+    }
+
+    function rejectJobs(err: Error) {
+      for (const job of jobs.values()) job.reject(err);
+      jobs.clear();
+    }
+
+    function fail(err: Error) {
+      worker.terminate();
+      rejectJobs(err);
+      if (disposed || failed) return;
+      if (respawns++ < MAX_RESPAWNS) {
+        worker = spawn();
+      } else {
+        failed = err;
+        // no-op once the worker had reported ready
+        onReadyFailed(err);
+        opts.onFailure?.(err);
+      }
+    }
+
+    let worker = spawn();
+    return {
+      start,
+      count: part.length,
+      ready,
+      tick: (t: number) =>
+        new Promise<WorkerPositions>((resolve, reject) => {
+          if (failed) return reject(failed);
+          if (disposed) return reject(disposedError());
+          const id = nextId++;
+          jobs.set(id, { resolve, reject });
+          worker.postMessage({ type: "tick", id, time: t });
+        }),
+      setPrecise: (msg: WorkerPrecise) => {
+        precise = msg;
+        worker.postMessage(msg);
+      },
+      dispose: () => {
+        worker.terminate();
+        const err = disposedError();
+        rejectJobs(err);
+        onReadyFailed(err);
+      },
+    };
+  });
+
+  // Per-object category codes, once every worker has parsed its slice
+  const categories = Promise.all(slices.map((s) => s.ready)).then((parts) => {
+    const out = new Uint8Array(tles.length);
+    parts.forEach((p, i) => out.set(p, slices[i].start));
+    return out;
+  });
+
+  const propagateAt = async (t: number) => {
+    await categories;
+    const parts = await Promise.all(slices.map((s) => s.tick(t)));
+    const positions = new Float32Array(tles.length * 3);
+    const altKm = new Float32Array(tles.length);
+    parts.forEach((p, i) => {
+      positions.set(p.positions, slices[i].start * 3);
+      altKm.set(p.altKm, slices[i].start);
+    });
+    return { positions, altKm };
+  };
+
+  // Precise tracks by catalog index, handed to the worker owning each object
+  const setPrecise = (tracks: Map<number, PreciseTrack>) => {
+    for (const s of slices) {
+      const msg: WorkerPrecise = { type: "precise", tracks: [] };
+      for (const [index, track] of tracks) {
+        if (index >= s.start && index < s.start + s.count) msg.tracks.push({ ...track, index: index - s.start });
+      }
+      s.setPrecise(msg);
+    }
+  };
+
+  const dispose = () => {
+    disposed = true;
+    for (const s of slices) s.dispose();
+  };
+
+  return { size: tles.length, categories, propagateAt, setPrecise, dispose };
+}
+
+export type PropagationPool = ReturnType<typeof createPropagationPool>;
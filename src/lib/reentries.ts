@@ -0,0 +1,48 @@
+import type { ReentryCandidate, ReentryReport } from "../shared/schema";
+import { tleNoradId } from "../shared/tle";
+import type { CatalogTle } from "./snapshots";
+
+// reentries.json joined to the loaded catalog, for the panel and the globe layer
+
+export type ReentryView = Omit<ReentryCandidate, "nominal" | "windowStart" | "windowEnd" | "previous"> & {
+  // index into the loaded catalog, -1 when the object is not in it
+  index: number;
+  nominal: number;
+  windowStart: number;
+  windowEnd: number;
+  // earlier nominal estimates, oldest first
+  previous: Array<{ epoch: number; nominal: number }>;
+};
+
+export type ReentrySet = {
+  perigeeThresholdKm: number;
+  candidates: ReentryView[];
+};
+
+export function reentrySet(report: ReentryReport, tles: CatalogTle[]): ReentrySet {
+  const byId = new Map<number, number>();
+  tles.forEach((t, i) => byId.set(tleNoradId(t.l1), i));
+  return {
+    perigeeThresholdKm: report.perigeeThresholdKm,
+    candidates: report.records.map((r) => ({
+      ...r,
+      index: byId.get(r.noradId) ?? -1,
+      nominal: Date.parse(r.nominal),
+      windowStart: Date.parse(r.windowStart),
+      windowEnd: Date.parse(r.windowEnd),
+      previous: r.previous.map((p) => ({ epoch: Date.parse(p.epoch), nominal: Date.parse(p.nominal) })),
+    })),
+  };
+}
+
+// Shift of the nominal time since the previous element set, ms (positive = later)
+export const nominalShift = (c: ReentryView) =>
+  c.previous.length ? c.nominal - c.previous[c.previous.length - 1].nominal : null;
+
+export type ReentryMarker = { index: number; windowStart: number; windowEnd: number; nominal: number };
+
+// Candidates in the catalog, for the globe
+export const reentryMarkers = (candidates: ReentryView[]): ReentryMarker[] =>
+  candidates
+    .filter((c) => c.index >= 0)
+    .map(({ index, windowStart, windowEnd, nominal }) => ({ index, windowStart, windowEnd, nominal }));
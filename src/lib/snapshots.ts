@@ -0,0 +1,184 @@
+import { Category, categoryFromCode } from "../shared/categories";
+import { ColumnarSnapshot, decodeColumnar } from "../shared/columnar";
+import type {
+  ChangesReport,
+  ConjunctionReport,
+  ConstellationReport,
+  HistoryElement,
+  NormalizedFile,
+  ReentryReport,
+  SatObject,
+  SnapshotManifest,
+  Sp3Ephemeris,
+} from "../shared/schema";
+import { LineDelta, STORE_MANIFEST, StoreManifest, applyLineDelta, blobPath } from "../shared/store";
+import { TleLines, formatTle, parseTleText } from "../shared/tle";
+
+// Loading of committed snapshots: data/latest/ or one data/YYYY/MM/DD/HH/ directory.
+
+export type CatalogTle = TleLines & { category?: Category };
+
+export type SnapshotHour = SnapshotManifest["hours"][number];
+
+export const snapshotBase = (hourPath: string | null) =>
+  hourPath ? `data/${hourPath}` : "data/latest";
+
+// Missing data file -> null. The Vite dev server answers unknown paths with
+// index.html (HTTP 200), so an HTML body counts as missing too.
+async function fetchData(url: string): Promise<Response | null> {
+  const res = await fetch(url);
+  if (!res.ok || (res.headers.get("content-type") ?? "").includes("text/html")) return null;
+  return res;
+}
+
+// store.json of compacted hours, fetched once per directory
+const storeManifests = new Map<string, Promise<StoreManifest | null>>();
+
+function fetchStoreManifest(base: string) {
+  let p = storeManifests.get(base);
+  if (!p) {
+    p = fetchData(`${base}/${STORE_MANIFEST}`)
+      .then((res) => (res ? (res.json() as Promise<StoreManifest>) : null))
+      .catch((e) => {
+        // retry on the next request rather than caching a network error
+        storeManifests.delete(base);
+        throw e;
+      });
+    storeManifests.set(base, p);
+  }
+  return p;
+}
+
+async function fetchBlob(hash: string): Promise<Response> {
+  const res = await fetchData(`data/${blobPath(hash)}`);
+  if (!res) throw new Error(`blob ${hash} not found`);
+  return res;
+}
+
+// A file of one snapshot directory: as is, or rebuilt from the content-addressed store
+// (keyframe plus line deltas) once the hour has been compacted by `npm run compact`
+async function fetchSnapshotFile(base: string, name: string): Promise<Response | null> {
+  const res = await fetchData(`${base}/${name}`);
+  if (res) return res;
+  const entry = (await fetchStoreManifest(base))?.files[name];
+  if (!entry) return null;
+  if (!entry.deltas?.length) return fetchBlob(entry.blob);
+  const [keyframe, ...deltas] = await Promise.all(
+    [entry.blob, ...entry.deltas].map((h) => fetchBlob(h).then((r) => r.text()))
+  );
+  const text = deltas.reduce((acc, d) => applyLineDelta(acc, JSON.parse(d) as LineDelta), keyframe);
+  return new Response(text);
+}
+
+export async function fetchManifest(): Promise<SnapshotManifest | null> {
+  const res = await fetchData("data/manifest.json");
+  if (!res) return null;
+  return (await res.json()) as SnapshotManifest;
+}
+
+// Hours that can actually be drawn (older snapshots may only hold SATCAT)
+export const loadableHours = (manifest: SnapshotManifest) =>
+  manifest.hours.filter(
+    (h) => h.files.includes("gp_elements.bin") || h.files.includes("gp_active.tle")
+  );
+
+// Snapshot whose collection time is closest to timeMs
+export function nearestHour(hours: SnapshotHour[], timeMs: number): SnapshotHour | null {
+  let best: SnapshotHour | null = null;
+  let bestDt = Infinity;
+  for (const h of hours) {
+    const dt = Math.abs(Date.parse(h.generatedAt) - timeMs);
+    if (dt < bestDt) {
+      best = h;
+      bestDt = dt;
+    }
+  }
+  return best;
+}
+
+// Prefer the columnar snapshot (one ArrayBuffer); fall back to 3LE text for snapshots without it
+export async function loadCatalog(base: string): Promise<CatalogTle[]> {
+  const binRes = await fetchSnapshotFile(base, "gp_elements.bin");
+  if (binRes) return tlesFromColumnar(decodeColumnar(await binRes.arrayBuffer()));
+  const tleRes = await fetchSnapshotFile(base, "gp_active.tle");
+  if (!tleRes) throw new Error(`${base}/gp_active.tle not found`);
+  return parseTleText(await tleRes.text());
+}
+
+// SATCAT/OMM catalog join; snapshots collected before normalization have none
+export async function loadObjects(base: string): Promise<Map<number, SatObject> | null> {
+  const res = await fetchSnapshotFile(base, "objects.json");
+  if (!res) return null;
+  const file = (await res.json()) as NormalizedFile<SatObject>;
+  return new Map(file.records.map((o) => [o.noradId, o]));
+}
+
+// Close-approach screening of the snapshot; absent when the collector skipped it
+export async function loadConjunctions(base: string): Promise<ConjunctionReport | null> {
+  const res = await fetchSnapshotFile(base, "conjunctions.json");
+  if (!res) return null;
+  return (await res.json()) as ConjunctionReport;
+}
+
+// Differences from the previous collection; absent for the first snapshot and older ones
+export async function loadChanges(base: string): Promise<ChangesReport | null> {
+  const res = await fetchSnapshotFile(base, "changes.json");
+  if (!res) return null;
+  return (await res.json()) as ChangesReport;
+}
+
+// Re-entry predictions for low-perigee objects; absent when the collector skipped them
+export async function loadReentries(base: string): Promise<ReentryReport | null> {
+  const res = await fetchSnapshotFile(base, "reentries.json");
+  if (!res) return null;
+  return (await res.json()) as ReentryReport;
+}
+
+// IGS precise orbits; collected only when the collector has CDDIS (or a mirror) configured
+export async function loadSp3(base: string): Promise<Sp3Ephemeris | null> {
+  const res = await fetchSnapshotFile(base, "sp3_ephemeris.json");
+  if (!res) return null;
+  return (await res.json()) as Sp3Ephemeris;
+}
+
+// Per-constellation statistics; absent in snapshots from before the collector wrote them
+export async function loadConstellations(base: string): Promise<ConstellationReport | null> {
+  const res = await fetchSnapshotFile(base, "constellations.json");
+  if (!res) return null;
+  return (await res.json()) as ConstellationReport;
+}
+
+// Element-set history of one object across all collections (data/history/, not per snapshot)
+export async function loadHistory(noradId: number): Promise<HistoryElement[] | null> {
+  const res = await fetchData(`data/history/${noradId}.jsonl`);
+  if (!res) return null;
+  const text = await res.text();
+  return text
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as HistoryElement);
+}
+
+function tlesFromColumnar(s: ColumnarSnapshot): CatalogTle[] {
+  const out: CatalogTle[] = new Array(s.count);
+  for (let i = 0; i < s.count; i++) {
+    const { l1, l2 } = formatTle({
+      noradId: s.noradId[i],
+      cosparId: s.strings.cosparId[i],
+      epochMs: s.epochMs[i],
+      meanMotionDot: s.meanMotionDot[i],
+      meanMotionDdot: s.meanMotionDdot[i],
+      bstar: s.bstar[i],
+      elementSetNo: s.elementSetNo[i],
+      inclinationDeg: s.inclinationDeg[i],
+      raanDeg: s.raanDeg[i],
+      eccentricity: s.eccentricity[i],
+      argPerigeeDeg: s.argPerigeeDeg[i],
+      meanAnomalyDeg: s.meanAnomalyDeg[i],
+      meanMotionRevPerDay: s.meanMotionRevPerDay[i],
+      revAtEpoch: s.revAtEpoch[i],
+    });
+    out[i] = { name: s.strings.name[i] || undefined, l1, l2, category: categoryFromCode(s.category[i]) };
+  }
+  return out;
+}
@@ -0,0 +1,27 @@
+import { subsolarPoint } from "../shared/sun";
+
+// Night side of the Earth as a GeoJSON polygon, bounded by the terminator (solar elevation 0
+// at the surface) and the pole in darkness
+
+const DEG2RAD = Math.PI / 180;
+const STEP_DEG = 2;
+// At the equinoxes the terminator runs through the poles; keep tan(dec) away from zero
+const MIN_DECLINATION_DEG = 0.01;
+
+export function nightPolygon(time: number) {
+  const sun = subsolarPoint(time);
+  const dec =
+    Math.abs(sun.latDeg) < MIN_DECLINATION_DEG ? (sun.latDeg < 0 ? -1 : 1) * MIN_DECLINATION_DEG : sun.latDeg;
+  const line: Array<[number, number]> = [];
+  for (let lon = -180; lon <= 180; lon += STEP_DEG) {
+    const h = (lon - sun.lonDeg) * DEG2RAD;
+    line.push([lon, Math.atan(-Math.cos(h) / Math.tan(dec * DEG2RAD)) / DEG2RAD]);
+  }
+  // with the sun north of the equator the south pole is dark
+  const pole = dec > 0 ? -90 : 90;
+  return {
+    type: "Feature" as const,
+    properties: {},
+    geometry: { type: "Polygon" as const, coordinates: [[[-180, pole], ...line, [180, pole], [-180, pole]]] },
+  };
+}
@@ -0,0 +1,38 @@
+import { useCallback, useRef, useState } from "react";
+
+// Simulation clock for playback. Time is kept as an anchor pair (sim, wall) so
+// getTime() stays cheap and stable for the render loop; only control changes re-render.
+export function useSimClock(initial: { time?: number; speed?: number } = {}) {
+  const anchor = useRef({ sim: initial.time ?? Date.now(), wall: Date.now() });
+  const [playing, setPlayingState] = useState(true);
+  const [speed, setSpeedState] = useState(initial.speed ?? 1);
+  const state = useRef({ playing, speed });
+  state.current = { playing, speed };
+
+  const getTime = useCallback(() => {
+    const { sim, wall } = anchor.current;
+    const { playing, speed } = state.current;
+    return playing ? sim + (Date.now() - wall) * speed : sim;
+  }, []);
+
+  // Re-anchor at the current sim time before changing rate, so time never jumps
+  const reanchor = (sim = getTime()) => {
+    anchor.current = { sim, wall: Date.now() };
+  };
+
+  const seek = useCallback((time: number) => reanchor(time), []);
+  const setPlaying = useCallback((p: boolean) => {
+    reanchor();
+    state.current.playing = p;
+    setPlayingState(p);
+  }, []);
+  const setSpeed = useCallback((s: number) => {
+    reanchor();
+    state.current.speed = s;
+    setSpeedState(s);
+  }, []);
+
+  return { getTime, seek, playing, setPlaying, speed, setSpeed };
+}
+
+export type SimClock = ReturnType<typeof useSimClock>;
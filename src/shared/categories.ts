@@ -0,0 +1,44 @@
+// Display categories shared by the collector (binary snapshot codes) and the globe.
+import type { Constellation } from './constellations'
+
+export const CATEGORIES = ['OTHER', 'PAYLOAD', 'ROCKET', 'DEBRIS', 'NAV', 'GEO'] as const
+
+export type Category = (typeof CATEGORIES)[number]
+
+// Stable numeric codes for binary snapshots: index into CATEGORIES
+export const categoryCode = (c: Category) => CATEGORIES.indexOf(c)
+
+export const categoryFromCode = (code: number): Category => CATEGORIES[code] ?? 'OTHER'
+
+// Navigation payloads by constellation where the caller has classified the object (GLONASS
+// satellites are named COSMOS), by name otherwise
+export function pickCategory(objectType: string, name: string, altKm: number, constellation?: Constellation | null): Category {
+  const t = (objectType || '').toUpperCase()
+  const isNav = constellation?.kind === 'navigation' || /(GPS|NAVSTAR|GLONASS|GALILEO|BEIDOU|BDS|IRNSS|QZSS)/i.test(name)
+  const isGEO = altKm > 30000
+  if (isNav) return 'NAV'
+  if (isGEO) return 'GEO'
+  if (t.includes('PAYLOAD')) return 'PAYLOAD'
+  if (t.includes('ROCKET')) return 'ROCKET'
+  if (t.includes('DEBRIS')) return 'DEBRIS'
+  return 'OTHER'
+}
+
+// Orbit regimes for filtering, from mean motion and eccentricity
+export const ORBIT_REGIMES = ['LEO', 'MEO', 'GEO', 'HEO'] as const
+
+export type OrbitRegime = (typeof ORBIT_REGIMES)[number]
+
+const MU_KM3_S2 = 398600.4418
+const EARTH_RADIUS_KM = 6378.137
+
+export function orbitRegime(meanMotionRevPerDay: number, eccentricity: number): OrbitRegime {
+  // Molniya, GTO and other strongly elliptical orbits first
+  if (eccentricity >= 0.25) return 'HEO'
+  const periodMin = 1440 / meanMotionRevPerDay
+  // geosynchronous, inclined or not
+  if (periodMin > 1300 && periodMin < 1600) return 'GEO'
+  const n = (meanMotionRevPerDay * 2 * Math.PI) / 86400
+  const apogeeKm = Math.cbrt(MU_KM3_S2 / (n * n)) * (1 + eccentricity) - EARTH_RADIUS_KM
+  return apogeeKm < 2000 ? 'LEO' : 'MEO'
+}
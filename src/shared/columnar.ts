@@ -0,0 +1,157 @@
+// Columnar binary snapshot of mean elements (gp_elements.bin).
+//
+// Layout, little-endian:
+//   0  "CWGP" magic
+//   4  u16 version
+//   6  u16 column count
+//   8  u32 record count
+//   12 u32 string table bytes
+//   16 columns in COLUMNS order, each 8-byte aligned
+//   .. string table (UTF-8), addressed by the *Offsets columns (n + 1 entries each)
+// The client reads it with one fetch and views the columns in place.
+
+export const COLUMNAR_MAGIC = 'CWGP'
+export const COLUMNAR_VERSION = 1
+
+type ArrayKind = 'u8' | 'u16' | 'u32' | 'f32' | 'f64'
+
+const ARRAY_CTORS = {
+  u8: Uint8Array,
+  u16: Uint16Array,
+  u32: Uint32Array,
+  f32: Float32Array,
+  f64: Float64Array,
+} as const
+
+// Mean motion and epoch need double precision for SGP4; the rest fit in float32
+export const COLUMNS = [
+  ['noradId', 'u32'],
+  ['category', 'u8'],
+  ['epochMs', 'f64'],
+  ['meanMotionRevPerDay', 'f64'],
+  ['eccentricity', 'f32'],
+  ['inclinationDeg', 'f32'],
+  ['raanDeg', 'f32'],
+  ['argPerigeeDeg', 'f32'],
+  ['meanAnomalyDeg', 'f32'],
+  ['bstar', 'f32'],
+  ['meanMotionDot', 'f32'],
+  ['meanMotionDdot', 'f32'],
+  ['revAtEpoch', 'u32'],
+  ['elementSetNo', 'u16'],
+] as const satisfies ReadonlyArray<readonly [string, ArrayKind]>
+
+export const STRING_COLUMNS = ['name', 'cosparId'] as const
+
+type ColumnName = (typeof COLUMNS)[number][0]
+type StringColumnName = (typeof STRING_COLUMNS)[number]
+type ArrayFor<K extends ArrayKind> = InstanceType<(typeof ARRAY_CTORS)[K]>
+
+type Columns = { [C in (typeof COLUMNS)[number] as C[0]]: ArrayFor<C[1]> }
+
+export type ColumnarSnapshot = { count: number } & Columns & { strings: Record<StringColumnName, string[]> }
+
+export type ColumnarRow = { [K in ColumnName]: number } & { [K in StringColumnName]: string }
+
+const HEADER_BYTES = 16
+const align8 = (n: number) => (n + 7) & ~7
+
+export function encodeColumnar(rows: ColumnarRow[]): ArrayBuffer {
+  const n = rows.length
+  const enc = new TextEncoder()
+  const stringBytes: Record<string, Uint8Array[]> = {}
+  let stringTotal = 0
+  for (const col of STRING_COLUMNS) {
+    stringBytes[col] = rows.map((r) => enc.encode(r[col] ?? ''))
+    stringTotal += stringBytes[col].reduce((a, b) => a + b.length, 0)
+  }
+
+  let size = HEADER_BYTES
+  for (const [, kind] of COLUMNS) size = align8(size + n * ARRAY_CTORS[kind].BYTES_PER_ELEMENT)
+  for (const _ of STRING_COLUMNS) size = align8(size + (n + 1) * 4)
+  const stringsAt = size
+  size = align8(size + stringTotal)
+
+  const buf = new ArrayBuffer(size)
+  const view = new DataView(buf)
+  for (let i = 0; i < 4; i++) view.setUint8(i, COLUMNAR_MAGIC.charCodeAt(i))
+  view.setUint16(4, COLUMNAR_VERSION, true)
+  view.setUint16(6, COLUMNS.length, true)
+  view.setUint32(8, n, true)
+  view.setUint32(12, stringTotal, true)
+
+  let off = HEADER_BYTES
+  for (const [name, kind] of COLUMNS) {
+    const arr = new ARRAY_CTORS[kind](buf, off, n)
+    for (let i = 0; i < n; i++) arr[i] = rows[i][name]
+    off = align8(off + n * ARRAY_CTORS[kind].BYTES_PER_ELEMENT)
+  }
+  const bytes = new Uint8Array(buf)
+  let strOff = 0
+  for (const col of STRING_COLUMNS) {
+    const offsets = new Uint32Array(buf, off, n + 1)
+    for (let i = 0; i < n; i++) {
+      offsets[i] = strOff
+      bytes.set(stringBytes[col][i], stringsAt + strOff)
+      strOff += stringBytes[col][i].length
+    }
+    offsets[n] = strOff
+    off = align8(off + (n + 1) * 4)
+  }
+  return buf
+}
+
+export function decodeColumnar(buf: ArrayBuffer): ColumnarSnapshot {
+  const view = new DataView(buf)
+  const magic = String.fromCharCode(view.getUint8(0), view.getUint8(1), view.getUint8(2), view.getUint8(3))
+  if (magic !== COLUMNAR_MAGIC) throw new Error('not a columnar GP snapshot')
+  const version = view.getUint16(4, true)
+  if (version !== COLUMNAR_VERSION) throw new Error(`unsupported columnar snapshot version ${version}`)
+  const n = view.getUint32(8, true)
+
+  // byte offsets by column, in file order
+  const at: Record<string, number> = {}
+  let off = HEADER_BYTES
+  for (const [name, kind] of COLUMNS) {
+    at[name] = off
+    off = align8(off + n * ARRAY_CTORS[kind].BYTES_PER_ELEMENT)
+  }
+  for (const col of STRING_COLUMNS) {
+    at[col] = off
+    off = align8(off + (n + 1) * 4)
+  }
+  const stringsAt = off
+
+  // Views typed per column: a view that disagrees with COLUMNS does not compile
+  const u8 = (c: ColumnName) => new Uint8Array(buf, at[c], n)
+  const u16 = (c: ColumnName) => new Uint16Array(buf, at[c], n)
+  const u32 = (c: ColumnName) => new Uint32Array(buf, at[c], n)
+  const f32 = (c: ColumnName) => new Float32Array(buf, at[c], n)
+  const f64 = (c: ColumnName) => new Float64Array(buf, at[c], n)
+  const columns: Columns = {
+    noradId: u32('noradId'),
+    category: u8('category'),
+    epochMs: f64('epochMs'),
+    meanMotionRevPerDay: f64('meanMotionRevPerDay'),
+    eccentricity: f32('eccentricity'),
+    inclinationDeg: f32('inclinationDeg'),
+    raanDeg: f32('raanDeg'),
+    argPerigeeDeg: f32('argPerigeeDeg'),
+    meanAnomalyDeg: f32('meanAnomalyDeg'),
+    bstar: f32('bstar'),
+    meanMotionDot: f32('meanMotionDot'),
+    meanMotionDdot: f32('meanMotionDdot'),
+    revAtEpoch: u32('revAtEpoch'),
+    elementSetNo: u16('elementSetNo'),
+  }
+
+  const dec = new TextDecoder()
+  const bytes = new Uint8Array(buf, stringsAt)
+  const strings = (c: StringColumnName) => {
+    const o = new Uint32Array(buf, at[c], n + 1)
+    const list: string[] = new Array(n)
+    for (let i = 0; i < n; i++) list[i] = dec.decode(bytes.subarray(o[i], o[i + 1]))
+    return list
+  }
+  return { count: n, ...columns, strings: { name: strings('name'), cosparId: strings('cosparId') } }
+}
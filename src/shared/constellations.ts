@@ -0,0 +1,72 @@
+// Constellation membership from the rules in constellations.json, shared by the collector
+// (constellations.json per snapshot, categories) and the viewer's filters.
+// A constellation matches when any of its rules does; a rule matches when every criterion it
+// names does. Constellations are tried in file order and the first match wins, so narrower
+// entries (Iridium NEXT by launch) go before broader ones.
+import RULES from './constellations.json'
+
+export type ConstellationKind = 'communications' | 'navigation' | 'earth_observation'
+
+export type ConstellationRule = {
+  // regular expression on the upper-cased name
+  name?: string
+  // launch designators (the "YYYY-NNN" of the COSPAR ID), inclusive
+  cospar?: { from?: string; to?: string }
+  // SATCAT owner codes
+  owner?: string[]
+  // mean altitude above the equatorial radius, km, and inclination, degrees
+  shell?: { minAltKm?: number; maxAltKm?: number; minIncDeg?: number; maxIncDeg?: number }
+}
+
+export type Constellation = {
+  id: string
+  name: string
+  operator: string
+  kind: ConstellationKind
+  match: ConstellationRule[]
+}
+
+export type ConstellationInput = {
+  name: string
+  cosparId?: string | null
+  owner?: string | null
+  objectType?: string | null
+  altKm?: number
+  inclinationDeg?: number
+}
+
+export const CONSTELLATIONS = RULES.constellations as Constellation[]
+
+const compiled = CONSTELLATIONS.map((c) => ({
+  constellation: c,
+  rules: c.match.map((r) => ({ ...r, re: r.name ? new RegExp(r.name) : null })),
+}))
+
+// An unbounded range accepts anything, a bounded one needs a value inside it
+const within = (v: number | undefined, min?: number, max?: number) =>
+  (min === undefined && max === undefined) || (v !== undefined && v >= (min ?? -Infinity) && v <= (max ?? Infinity))
+
+// Criteria the input cannot answer (no owner, no orbit) do not match
+function ruleMatches(rule: (typeof compiled)[number]['rules'][number], input: ConstellationInput, name: string) {
+  if (rule.re && !rule.re.test(name)) return false
+  if (rule.cospar) {
+    const launch = input.cosparId?.slice(0, 8)
+    if (!launch || launch < (rule.cospar.from ?? '') || launch > (rule.cospar.to ?? '9999')) return false
+  }
+  if (rule.owner && !(input.owner && rule.owner.includes(input.owner))) return false
+  const s = rule.shell
+  if (s && !(within(input.altKm, s.minAltKm, s.maxAltKm) && within(input.inclinationDeg, s.minIncDeg, s.maxIncDeg))) return false
+  return true
+}
+
+// Constellation of one object; rocket bodies and debris named after their payloads are not members
+export function classifyConstellation(input: ConstellationInput): Constellation | null {
+  const type = (input.objectType ?? '').toUpperCase()
+  if (type.includes('ROCKET') || type.includes('DEBRIS')) return null
+  const name = input.name.toUpperCase().replace(/^0 /, '').trim()
+  if (/\b(DEB|R\/B)\b/.test(name)) return null
+  for (const { constellation, rules } of compiled) {
+    if (rules.some((r) => ruleMatches(r, input, name))) return constellation
+  }
+  return null
+}
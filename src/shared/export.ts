@@ -0,0 +1,225 @@
+// Ephemeris export of selected objects (CZML, KML, GeoJSON, CCSDS OEM), shared by the export
+// CLI and the viewer. Positions come from satellite.js SGP4 as on the globe: TEME for OEM,
+// Earth-fixed through GMST for the map formats.
+import { SatRec, degreesLat, degreesLong, eciToEcf, eciToGeodetic, gstime, propagate } from 'satellite.js'
+import type { Vec3 } from './schema'
+
+export type ExportFormat = 'czml' | 'kml' | 'geojson' | 'oem'
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  czml: { label: 'CZML (Cesium)', extension: 'czml', mimeType: 'application/json' },
+  kml: { label: 'KML (時刻付き軌跡)', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+  geojson: { label: 'GeoJSON (地表軌跡)', extension: 'geojson', mimeType: 'application/geo+json' },
+  oem: { label: 'CCSDS OEM', extension: 'oem', mimeType: 'text/plain' },
+}
+
+export const isExportFormat = (v: unknown): v is ExportFormat => typeof v === 'string' && v in EXPORT_FORMATS
+
+export type ExportTarget = {
+  noradId: number
+  name: string
+  cosparId?: string | null
+  rec: SatRec
+}
+
+export type ExportOptions = {
+  // ms since Unix epoch, UTC
+  start: number
+  end: number
+  stepSec: number
+  // CREATION_DATE of OEM files and the CZML document name; defaults to now
+  createdAt?: number
+}
+
+export type EphemerisSample = {
+  time: number
+  // TEME, km and km/s
+  position: Vec3
+  velocity: Vec3
+  // Earth-fixed, km
+  ecf: Vec3
+  lonDeg: number
+  latDeg: number
+  altKm: number
+}
+
+// Samples from start to end inclusive; times SGP4 cannot propagate to (decayed) are left out
+export function sampleEphemeris(rec: SatRec, opts: ExportOptions): EphemerisSample[] {
+  const out: EphemerisSample[] = []
+  const stepMs = opts.stepSec * 1000
+  for (let t = opts.start; t <= opts.end; t += stepMs) {
+    const date = new Date(t)
+    const pv = propagate(rec, date)
+    const p = pv?.position
+    const v = pv?.velocity
+    if (!p || typeof p !== 'object' || !v || typeof v !== 'object') continue
+    const gmst = gstime(date)
+    const ecf = eciToEcf(p, gmst)
+    const gd = eciToGeodetic(p, gmst)
+    out.push({
+      time: t,
+      position: [p.x, p.y, p.z],
+      velocity: [v.x, v.y, v.z],
+      ecf: [ecf.x, ecf.y, ecf.z],
+      lonDeg: degreesLong(gd.longitude),
+      latDeg: degreesLat(gd.latitude),
+      altKm: gd.height,
+    })
+  }
+  return out
+}
+
+const iso = (t: number) => new Date(t).toISOString()
+const fixed = (v: number, digits: number) => Number(v.toFixed(digits))
+const periodSec = (rec: SatRec) => ((2 * Math.PI) / rec.no) * 60
+
+const escapeXml = (s: string) =>
+  s.replace(/[<>&"']/g, (c) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' })[c]!)
+
+type Sampled = { target: ExportTarget; samples: EphemerisSample[] }
+
+// Cesium document: Earth-fixed positions in metres, interpolated, with one orbit of trail
+function toCzml(sampled: Sampled[], opts: ExportOptions) {
+  const interval = `${iso(opts.start)}/${iso(opts.end)}`
+  const packets: object[] = [
+    {
+      id: 'document',
+      name: `satellites ${iso(opts.createdAt ?? Date.now())}`,
+      version: '1.0',
+      clock: { interval, currentTime: iso(opts.start), multiplier: 60, range: 'LOOP_STOP', step: 'SYSTEM_CLOCK_MULTIPLIER' },
+    },
+  ]
+  for (const { target, samples } of sampled) {
+    if (!samples.length) continue
+    const cartesian: number[] = []
+    for (const s of samples) {
+      cartesian.push((s.time - opts.start) / 1000, ...s.ecf.map((km) => fixed(km * 1000, 1)))
+    }
+    const period = periodSec(target.rec)
+    packets.push({
+      id: String(target.noradId),
+      name: target.name,
+      description: `NORAD ${target.noradId}${target.cosparId ? ` / ${target.cosparId}` : ''}`,
+      availability: `${iso(samples[0].time)}/${iso(samples[samples.length - 1].time)}`,
+      position: {
+        epoch: iso(opts.start),
+        referenceFrame: 'FIXED',
+        interpolationAlgorithm: 'LAGRANGE',
+        interpolationDegree: 5,
+        cartesian,
+      },
+      point: { pixelSize: 6, color: { rgba: [255, 220, 0, 255] } },
+      label: {
+        text: target.name || String(target.noradId),
+        font: '11pt sans-serif',
+        horizontalOrigin: 'LEFT',
+        pixelOffset: { cartesian2: [8, 0] },
+      },
+      path: {
+        width: 1,
+        leadTime: 0,
+        trailTime: period,
+        resolution: opts.stepSec,
+        material: { solidColor: { color: { rgba: [255, 220, 0, 160] } } },
+      },
+    })
+  }
+  return JSON.stringify(packets)
+}
+
+// One gx:Track per object: all <when> first, then the matching <gx:coord> (lon lat alt-m)
+function toKml(sampled: Sampled[], opts: ExportOptions) {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">',
+    '<Document>',
+    `<name>satellites ${iso(opts.start)} - ${iso(opts.end)}</name>`,
+  ]
+  for (const { target, samples } of sampled) {
+    if (!samples.length) continue
+    lines.push(
+      '<Placemark>',
+      `<name>${escapeXml(target.name || String(target.noradId))}</name>`,
+      `<description>NORAD ${target.noradId}${target.cosparId ? ` / ${escapeXml(target.cosparId)}` : ''}</description>`,
+      '<gx:Track>',
+      '<altitudeMode>absolute</altitudeMode>',
+      ...samples.map((s) => `<when>${iso(s.time)}</when>`),
+      ...samples.map((s) => `<gx:coord>${fixed(s.lonDeg, 5)} ${fixed(s.latDeg, 5)} ${fixed(s.altKm * 1000, 0)}</gx:coord>`),
+      '</gx:Track>',
+      '</Placemark>'
+    )
+  }
+  lines.push('</Document>', '</kml>')
+  return lines.join('\n') + '\n'
+}
+
+// Ground tracks as LineStrings, split where they cross the antimeridian; properties.times
+// holds the time of each vertex
+function toGeoJson(sampled: Sampled[]) {
+  const features: object[] = []
+  for (const { target, samples } of sampled) {
+    let run: EphemerisSample[] = []
+    const flush = () => {
+      if (run.length > 1) {
+        features.push({
+          type: 'Feature',
+          properties: {
+            noradId: target.noradId,
+            name: target.name,
+            cosparId: target.cosparId ?? null,
+            start: iso(run[0].time),
+            end: iso(run[run.length - 1].time),
+            times: run.map((s) => iso(s.time)),
+          },
+          geometry: { type: 'LineString', coordinates: run.map((s) => [fixed(s.lonDeg, 5), fixed(s.latDeg, 5)]) },
+        })
+      }
+      run = []
+    }
+    for (const s of samples) {
+      const prev = run[run.length - 1]
+      if (prev && Math.abs(s.lonDeg - prev.lonDeg) > 180) flush()
+      run.push(s)
+    }
+    flush()
+  }
+  return JSON.stringify({ type: 'FeatureCollection', features })
+}
+
+// CCSDS 502.0-B-3 epochs: UTC without a zone designator
+const oemTime = (t: number) => iso(t).slice(0, -1)
+
+// CCSDS OEM 2.0 (KVN), one segment per object, TEME position/velocity in km and km/s
+function toOem(sampled: Sampled[], opts: ExportOptions) {
+  const lines = ['CCSDS_OEM_VERS = 2.0', `CREATION_DATE = ${oemTime(opts.createdAt ?? Date.now())}`, 'ORIGINATOR = crisis-watcher-satellite']
+  for (const { target, samples } of sampled) {
+    if (!samples.length) continue
+    const epochMs = (target.rec.jdsatepoch - 2440587.5) * 86400000
+    lines.push(
+      '',
+      'META_START',
+      `OBJECT_NAME = ${target.name || target.noradId}`,
+      `OBJECT_ID = ${target.cosparId || target.noradId}`,
+      'CENTER_NAME = EARTH',
+      'REF_FRAME = TEME',
+      'TIME_SYSTEM = UTC',
+      `START_TIME = ${oemTime(samples[0].time)}`,
+      `STOP_TIME = ${oemTime(samples[samples.length - 1].time)}`,
+      'META_STOP',
+      `COMMENT SGP4 propagation of NORAD ${target.noradId} element set, epoch ${oemTime(epochMs)}`,
+      ...samples.map((s) =>
+        [oemTime(s.time), ...s.position.map((v) => v.toFixed(6)), ...s.velocity.map((v) => v.toFixed(9))].join(' ')
+      )
+    )
+  }
+  return lines.join('\n') + '\n'
+}
+
+export function exportEphemeris(format: ExportFormat, targets: ExportTarget[], opts: ExportOptions): string {
+  if (!(opts.end >= opts.start) || !(opts.stepSec > 0)) throw new Error('export: empty time span or step')
+  const sampled = targets.map((target) => ({ target, samples: sampleEphemeris(target.rec, opts) }))
+  if (format === 'czml') return toCzml(sampled, opts)
+  if (format === 'kml') return toKml(sampled, opts)
+  if (format === 'geojson') return toGeoJson(sampled)
+  return toOem(sampled, opts)
+}
@@ -0,0 +1,18 @@
+// Earth-observation mission kinds by object name, for crisis-area reports.
+// Ordered: the first matching rule wins (e.g. SENTINEL-1 is SAR before SENTINEL-* imaging).
+
+export const EO_KINDS = ['sar', 'imaging', 'weather'] as const
+
+export type EoKind = (typeof EO_KINDS)[number]
+
+const EO_RULES: Array<[EoKind, RegExp]> = [
+  ['sar', /^(SENTINEL-1|ICEYE|CAPELLA|UMBRA|RADARSAT|RCM-|TERRASAR|TANDEM-X|PAZ|COSMO-SKYMED|CSG-|SAOCOM|ALOS-2|ALOS-4|RISAT|NISAR|STRIX|QPS-SAR|KOMPSAT-5|KOMPSAT-6|GAOFEN-3|HAIYANG-1|NOVASAR|SAR-LUPE|SARAH|IGS-R|XR-?1|EOS-04)/],
+  ['weather', /^(NOAA|METOP|GOES|HIMAWARI|FENGYUN|FY-|METEOR-M|METEOSAT|MTG-|JPSS|SUOMI NPP|NPP|DMSP|GCOM|ELEKTRO|ARKTIKA-M|INSAT-3D|GK-2A|GEO-KOMPSAT-2A|COMS|TROPICS|GPM|CLOUDSAT|CALIPSO|EARTHCARE|AEOLUS|SMAP)/],
+  ['imaging', /^(SENTINEL-2|SENTINEL-3|LANDSAT|WORLDVIEW|GEOEYE|PLEIADES|PNEO|SPOT|FLOCK|DOVE|SKYSAT|SUPERDOVE|GAOFEN|JILIN|SUPERVIEW|KOMPSAT|CARTOSAT|RESOURCESAT|ALOS|TERRA|AQUA|LEGION|BLACKSKY|KANOPUS|RESURS|DEIMOS|KHALIFASAT|FORMOSAT|THEOS|ZIYUAN|ZY-|HJ-|HUANJING|GOKTURK|PERUSAT|EROS|OFEQ|DMC|VRSS|ASNARO|GRUS|HODOYOSHI|SATELLOGIC|NUSAT|PROBA|CBERS|AMAZONIA|EOS-0[1-9]|OCEANSAT)/],
+]
+
+export function eoKind(name: string): EoKind | null {
+  const n = name.toUpperCase().replace(/^0 /, '').trim()
+  for (const [kind, re] of EO_RULES) if (re.test(n)) return kind
+  return null
+}
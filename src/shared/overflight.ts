@@ -0,0 +1,209 @@
+// Ground-track crossings of an area of interest (GeoJSON polygon), shared by the
+// aoi CLI and the viewer.
+import { SatRec, degreesLat, degreesLong, eciToGeodetic, gstime, propagate } from 'satellite.js'
+import type { AoiGeometry, Vec3 } from './schema'
+import { isSunlit, solarElevationDeg } from './sun'
+
+export type { AoiGeometry }
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v)
+
+const isPosition = (p: unknown) => Array.isArray(p) && p.length >= 2 && Number.isFinite(p[0]) && Number.isFinite(p[1])
+
+// Linear rings of [lon, lat] positions, the outer one first
+function polygonCoordinates(c: unknown, what: string): number[][][] {
+  if (!Array.isArray(c) || !c.length || !c.every((ring) => Array.isArray(ring) && ring.length >= 4 && ring.every(isPosition))) {
+    throw new Error(`GeoJSON ${what}: coordinates must be rings of at least 4 [lon, lat] positions`)
+  }
+  return c
+}
+
+// Polygon / MultiPolygon geometry, Feature or FeatureCollection -> one (Multi)Polygon
+export function geometryFromGeoJson(json: unknown): AoiGeometry {
+  const polygons: number[][][][] = []
+  const visit = (g: unknown) => {
+    if (!isObject(g)) return
+    if (g.type === 'FeatureCollection') {
+      if (!Array.isArray(g.features)) throw new Error('GeoJSON FeatureCollection without a features array')
+      g.features.forEach(visit)
+    } else if (g.type === 'Feature') visit(g.geometry)
+    else if (g.type === 'GeometryCollection') {
+      if (!Array.isArray(g.geometries)) throw new Error('GeoJSON GeometryCollection without a geometries array')
+      g.geometries.forEach(visit)
+    } else if (g.type === 'Polygon') polygons.push(polygonCoordinates(g.coordinates, 'Polygon'))
+    else if (g.type === 'MultiPolygon') {
+      if (!Array.isArray(g.coordinates)) throw new Error('GeoJSON MultiPolygon: coordinates must be a list of polygons')
+      polygons.push(...g.coordinates.map((c: unknown) => polygonCoordinates(c, 'MultiPolygon')))
+    }
+  }
+  visit(json)
+  if (!polygons.length) throw new Error('GeoJSON contains no Polygon or MultiPolygon')
+  return polygons.length === 1
+    ? { type: 'Polygon', coordinates: polygons[0] }
+    : { type: 'MultiPolygon', coordinates: polygons }
+}
+
+const polygonsOf = (g: AoiGeometry) => (g.type === 'Polygon' ? [g.coordinates] : g.coordinates)
+
+// Longitudes made continuous along the ring, starting near `ref`: an edge never jumps more
+// than 180 deg, so a ring drawn across the antimeridian (170 -> -170) runs on past 180
+// instead of around the globe
+function unwrapRing(ring: number[][], ref: number) {
+  let prev = ref
+  return ring.map(([lon, lat]) => {
+    const l = lon + 360 * Math.round((prev - lon) / 360)
+    prev = l
+    return [l, lat]
+  })
+}
+
+// Holes are unwrapped next to their outer ring
+function unwrapPolygons(g: AoiGeometry) {
+  return polygonsOf(g).map((poly) => {
+    const ref = poly[0]?.[0]?.[0] ?? 0
+    return poly.map((ring) => unwrapRing(ring, ref))
+  })
+}
+
+type Bbox = [number, number, number, number]
+
+function bboxOf(polygons: number[][][][]): Bbox {
+  const b: Bbox = [Infinity, Infinity, -Infinity, -Infinity]
+  for (const poly of polygons) {
+    for (const [lon, lat] of poly[0]) {
+      b[0] = Math.min(b[0], lon)
+      b[1] = Math.min(b[1], lat)
+      b[2] = Math.max(b[2], lon)
+      b[3] = Math.max(b[3], lat)
+    }
+  }
+  return b
+}
+
+// [minLon, minLat, maxLon, maxLat]; longitudes run past +-180 for an area across the antimeridian
+export function geometryBbox(g: AoiGeometry): Bbox {
+  return bboxOf(unwrapPolygons(g))
+}
+
+function inRing(lon: number, lat: number, ring: number[][]) {
+  let inside = false
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i]
+    const [xj, yj] = ring[j]
+    if (yi > lat !== yj > lat && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) inside = !inside
+  }
+  return inside
+}
+
+// Unwrapped rings may extend past +-180, so the point is also tried one turn east and west
+function inPolygons(lon: number, lat: number, polygons: number[][][][], bbox: Bbox) {
+  if (lat < bbox[1] || lat > bbox[3]) return false
+  for (const l of [lon, lon - 360, lon + 360]) {
+    if (l < bbox[0] || l > bbox[2]) continue
+    if (polygons.some((poly) => inRing(l, lat, poly[0]) && !poly.slice(1).some((hole) => inRing(l, lat, hole)))) return true
+  }
+  return false
+}
+
+// Planar ray casting in lon/lat; first ring is the outer boundary, the rest are holes
+export function pointInGeometry(lon: number, lat: number, g: AoiGeometry) {
+  const polygons = unwrapPolygons(g)
+  return inPolygons(lon, lat, polygons, bboxOf(polygons))
+}
+
+export type Crossing = {
+  // ms since Unix epoch, UTC
+  entry: number
+  exit: number
+  // sub-satellite points while inside, [lon, lat]
+  track: Array<[number, number]>
+  // at the middle of the crossing
+  sunElevationDeg: number
+  sunlit: boolean
+}
+
+type SubPoint = { lon: number; lat: number; eci: Vec3 } | null
+
+function subPoint(rec: SatRec, time: number): SubPoint {
+  const date = new Date(time)
+  const pos = propagate(rec, date)?.position
+  if (!pos || typeof pos !== 'object') return null
+  const gd = eciToGeodetic(pos, gstime(date))
+  return { lon: degreesLong(gd.longitude), lat: degreesLat(gd.latitude), eci: [pos.x, pos.y, pos.z] }
+}
+
+// Boundary crossing between an outside and an inside sample, to ~1 s
+function bisect(inside: (t: number) => boolean, outT: number, inT: number) {
+  while (Math.abs(inT - outT) > 1000) {
+    const mid = (outT + inT) / 2
+    if (inside(mid)) inT = mid
+    else outT = mid
+  }
+  return inT
+}
+
+// Satellites whose inclination keeps the ground track out of the bbox's latitude band
+function canReach(rec: SatRec, bbox: Bbox) {
+  const incl = (rec.inclo * 180) / Math.PI
+  const reach = (incl <= 90 ? incl : 180 - incl) + 1
+  const minAbsLat = bbox[1] <= 0 && bbox[3] >= 0 ? 0 : Math.min(Math.abs(bbox[1]), Math.abs(bbox[3]))
+  return minAbsLat <= reach
+}
+
+// LEO ground speed is ~7 km/s; sample at least twice across the narrowest bbox side
+export function defaultStepSec(geometry: AoiGeometry) {
+  const [minLon, minLat, maxLon, maxLat] = geometryBbox(geometry)
+  const kmPerDeg = 111.32
+  const widthKm = (maxLon - minLon) * kmPerDeg * Math.cos((((minLat + maxLat) / 2) * Math.PI) / 180)
+  const heightKm = (maxLat - minLat) * kmPerDeg
+  return Math.max(1, Math.min(10, Math.min(widthKm, heightKm) / 14))
+}
+
+// Ground-track crossings of the area in [start, end], sampled every stepSec
+export function findCrossings(
+  rec: SatRec,
+  geometry: AoiGeometry,
+  opts: { start: number; end: number; stepSec?: number }
+): Crossing[] {
+  const polygons = unwrapPolygons(geometry)
+  const bbox = bboxOf(polygons)
+  if (!canReach(rec, bbox)) return []
+  const step = (opts.stepSec ?? defaultStepSec(geometry)) * 1000
+  const contains = (p: SubPoint): p is NonNullable<SubPoint> => !!p && inPolygons(p.lon, p.lat, polygons, bbox)
+  const inside = (t: number) => contains(subPoint(rec, t))
+  const lonLat = (t: number): [number, number] | null => {
+    const p = subPoint(rec, t)
+    return p && [p.lon, p.lat]
+  }
+  const out: Crossing[] = []
+  let entry: number | null = null
+  let track: Array<[number, number]> = []
+  let prevT = opts.start
+  for (let t = opts.start; t <= opts.end; t += step) {
+    const p = subPoint(rec, t)
+    const isIn = contains(p)
+    if (isIn && entry === null) {
+      entry = t === opts.start ? t : bisect(inside, prevT, t)
+      const e = lonLat(entry)
+      track = e && entry !== t ? [e] : []
+    }
+    if (isIn) track.push([p.lon, p.lat])
+    if (entry !== null && (!isIn || t + step > opts.end)) {
+      const exit = isIn ? t : bisect(inside, t, prevT)
+      const x = lonLat(exit)
+      if (x && exit !== prevT && !isIn) track.push(x)
+      const mid = (entry + exit) / 2
+      const mp = subPoint(rec, mid)
+      out.push({
+        entry,
+        exit,
+        track,
+        sunElevationDeg: mp ? solarElevationDeg(mp.lat, mp.lon, mid) : NaN,
+        sunlit: mp ? isSunlit(mp.eci, mid) : false,
+      })
+      entry = null
+    }
+    prevT = t
+  }
+  return out
+}
@@ -0,0 +1,137 @@
+// Pass prediction over a ground observer, usable from both the collector scripts and the viewer.
+import { SatRec, degreesToRadians, ecfToLookAngles, eciToEcf, gstime, propagate } from 'satellite.js'
+
+export type Observer = {
+  latDeg: number
+  lonDeg: number
+  // height above the ellipsoid
+  altKm?: number
+}
+
+export type Pass = {
+  // ms since Unix epoch, UTC
+  aos: number
+  tca: number
+  los: number
+  maxElevationDeg: number
+  aosAzimuthDeg: number
+  tcaAzimuthDeg: number
+  losAzimuthDeg: number
+  // false when the window starts/ends with the satellite already above the mask
+  aosInWindow: boolean
+  losInWindow: boolean
+}
+
+export type PassOptions = {
+  start: number
+  end: number
+  minElevationDeg?: number
+  // coarse scan step; defaults to 1/60 of the orbital period, capped at 60 s
+  stepSec?: number
+}
+
+const RAD2DEG = 180 / Math.PI
+
+export type LookAngles = { elevationDeg: number; azimuthDeg: number; rangeKm: number }
+
+export function lookAngles(rec: SatRec, observer: Observer, time: number): LookAngles | null {
+  const date = new Date(time)
+  const pos = propagate(rec, date)?.position
+  if (!pos || typeof pos !== 'object') return null
+  const la = ecfToLookAngles(
+    {
+      latitude: degreesToRadians(observer.latDeg),
+      longitude: degreesToRadians(observer.lonDeg),
+      height: observer.altKm ?? 0,
+    },
+    eciToEcf(pos, gstime(date))
+  )
+  return { elevationDeg: la.elevation * RAD2DEG, azimuthDeg: la.azimuth * RAD2DEG, rangeKm: la.rangeSat }
+}
+
+const elevationAt = (rec: SatRec, observer: Observer, t: number) => lookAngles(rec, observer, t)?.elevationDeg ?? -90
+
+// Crossing of the elevation mask between lo (below) and hi (above), or the reverse, to ~1 s
+function bisectCrossing(f: (t: number) => number, lo: number, hi: number) {
+  const rising = f(lo) < f(hi)
+  while (hi - lo > 1000) {
+    const mid = (lo + hi) / 2
+    if (f(mid) < 0 === rising) lo = mid
+    else hi = mid
+  }
+  return (lo + hi) / 2
+}
+
+// Golden-section search for the elevation maximum in [a, b]
+function maximize(f: (t: number) => number, a: number, b: number) {
+  const g = (Math.sqrt(5) - 1) / 2
+  let c = b - g * (b - a)
+  let d = a + g * (b - a)
+  let fc = f(c)
+  let fd = f(d)
+  while (b - a > 1000) {
+    if (fc > fd) {
+      b = d
+      d = c
+      fd = fc
+      c = b - g * (b - a)
+      fc = f(c)
+    } else {
+      a = c
+      c = d
+      fc = fd
+      d = a + g * (b - a)
+      fd = f(d)
+    }
+  }
+  return (a + b) / 2
+}
+
+// Passes with AOS/TCA/LOS, the maximum elevation and azimuths, in [start, end]
+export function predictPasses(rec: SatRec, observer: Observer, opts: PassOptions): Pass[] {
+  const minEl = opts.minElevationDeg ?? 10
+  const periodSec = ((2 * Math.PI) / rec.no) * 60
+  const step = (opts.stepSec ?? Math.min(60, periodSec / 60)) * 1000
+  const above = (t: number) => elevationAt(rec, observer, t) - minEl
+  const az = (t: number) => lookAngles(rec, observer, t)?.azimuthDeg ?? NaN
+  const passes: Pass[] = []
+
+  let prevT = opts.start
+  const first = above(prevT)
+  let aos: number | null = first >= 0 ? opts.start : null
+  // highest coarse sample of the current pass, to seed the TCA search
+  let peakT = prevT
+  let peak = first
+  for (let t = opts.start + step; prevT < opts.end; t += step) {
+    const tt = Math.min(t, opts.end)
+    const cur = above(tt)
+    if (aos === null && cur >= 0) {
+      aos = bisectCrossing(above, prevT, tt)
+      peakT = tt
+      peak = cur
+    } else if (aos !== null && cur > peak) {
+      peakT = tt
+      peak = cur
+    }
+    const ended = aos !== null && (cur < 0 || tt >= opts.end)
+    if (ended) {
+      const los = cur < 0 ? bisectCrossing(above, prevT, tt) : tt
+      const tca = maximize(above, Math.max(aos!, peakT - step), Math.min(los, peakT + step))
+      passes.push({
+        aos: aos!,
+        tca,
+        los,
+        maxElevationDeg: above(tca) + minEl,
+        aosAzimuthDeg: az(aos!),
+        tcaAzimuthDeg: az(tca),
+        losAzimuthDeg: az(los),
+        aosInWindow: aos! > opts.start,
+        losInWindow: cur < 0,
+      })
+      aos = null
+      peak = -Infinity
+    }
+    prevT = tt
+  }
+  return passes
+}
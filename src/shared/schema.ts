@@ -0,0 +1,311 @@
+// Types shared by the collector (scripts/) and the viewer (src/).
+// Everything here must stay free of Node and DOM APIs.
+
+export type Vec3 = [number, number, number]
+
+// ---- index.json ----
+
+export type SourceStatus = {
+  status: 'ok' | 'invalid' | 'unavailable'
+  required: boolean
+  error?: string
+  quarantine?: string
+}
+
+export type SnapshotIndex = {
+  generatedAt: string
+  timeZone: string
+  hourPath: string
+  // source key -> URL
+  sources: Record<string, string>
+  status: Record<string, SourceStatus>
+  counts: Record<string, number>
+  // source or derived product key -> file name within the hour directory
+  files: Record<string, string>
+  cursors?: Record<string, string>
+  schemaVersion?: number
+}
+
+// ---- manifest.json ----
+
+// Every hour directory under public/data, oldest first
+export type SnapshotManifest = {
+  generatedAt: string
+  timeZone: string
+  hours: Array<{
+    hourPath: string
+    // UTC collection time from that hour's index.json
+    generatedAt: string
+    files: string[]
+  }>
+}
+
+// ---- normalized records ----
+
+// Bump when a record shape changes incompatibly
+export const SCHEMA_VERSION = 1
+
+export type SchemaName = 'objects' | 'gp_elements' | 'sp3_ephemeris' | 'aoi_overflights' | 'conjunctions' | 'changes' | 'history_index' | 'reentries' | 'constellations' | 'alerts' | 'day_rollup'
+
+export type NormalizedFile<T> = {
+  schema: SchemaName
+  version: number
+  generatedAt: string
+  records: T[]
+}
+
+export type ObjectType = 'PAYLOAD' | 'ROCKET BODY' | 'DEBRIS' | 'UNKNOWN'
+
+// objects.json: one record per NORAD catalog number
+export type SatObject = {
+  noradId: number
+  // COSPAR international designator, e.g. "1998-067A"
+  cosparId: string | null
+  name: string
+  objectType: ObjectType
+  owner: string | null
+  launchDate: string | null
+  launchSite: string | null
+  decayDate: string | null
+  // radar cross section, m^2 (SATCAT) and/or size class (Space-Track)
+  rcsM2: number | null
+  rcsSize: 'SMALL' | 'MEDIUM' | 'LARGE' | null
+  opsStatus: string | null
+  // source keys that contributed to this record
+  sources: string[]
+}
+
+// gp_elements.json: mean elements, one set per object (newest epoch wins)
+export type GpElement = {
+  noradId: number
+  // UTC ISO 8601
+  epoch: string
+  classification: string
+  meanMotionRevPerDay: number
+  eccentricity: number
+  inclinationDeg: number
+  raanDeg: number
+  argPerigeeDeg: number
+  meanAnomalyDeg: number
+  bstar: number
+  // rev/day^2 and rev/day^3, already halved/sixthed as in the TLE
+  meanMotionDot: number
+  meanMotionDdot: number
+  elementSetNo: number
+  revAtEpoch: number
+  // derived
+  semiMajorAxisKm: number
+  periodMin: number
+  apogeeKm: number
+  perigeeKm: number
+  from: 'omm' | 'tle'
+  source: string
+}
+
+// sp3_ephemeris.json: precise orbits sampled at fixed epochs
+export type Sp3Ephemeris = {
+  version: 1
+  product: string
+  source: string
+  coordinateSystem: string
+  frame: 'ECEF'
+  // epochs converted to UTC ISO strings, shared by every satellite
+  epochs: string[]
+  intervalSec: number
+  satellites: Record<
+    string,
+    {
+      position_km: Array<Vec3 | null>
+      clock_us: Array<number | null>
+      velocity_km_s?: Array<Vec3 | null>
+    }
+  >
+}
+
+// GeoJSON area of interest
+export type AoiGeometry =
+  | { type: 'Polygon'; coordinates: number[][][] }
+  | { type: 'MultiPolygon'; coordinates: number[][][][] }
+
+// aoi/<name>.json: ground-track crossings of an area of interest (npm run aoi)
+export type AoiOverflight = {
+  noradId: number
+  name: string
+  // 'sar' | 'imaging' | 'weather', or null when the report includes all objects
+  kind: string | null
+  entry: string
+  exit: string
+  durationSec: number
+  // solar elevation at the sub-satellite point mid-crossing (negative = night)
+  sunElevationDeg: number
+  // satellite outside Earth's shadow mid-crossing
+  sunlit: boolean
+  // sub-satellite points inside the area, [lon, lat]
+  track: Array<[number, number]>
+}
+
+export type AoiReport = NormalizedFile<AoiOverflight> & {
+  area: { name: string; geometry: AoiGeometry }
+  window: { start: string; end: string }
+  // hour directory of the element sets used
+  snapshot: string
+}
+
+// conjunctions.json: close approaches between catalog objects, screened after each collection
+export type Conjunction = {
+  // noradId1 < noradId2
+  noradId1: number
+  noradId2: number
+  name1: string
+  name2: string
+  // time of closest approach, UTC ISO 8601
+  tca: string
+  missKm: number
+  relativeVelocityKmS: number
+}
+
+export type ConjunctionReport = NormalizedFile<Conjunction> & {
+  window: { start: string; end: string }
+  thresholdKm: number
+}
+
+// changes.json: differences from the previous snapshot
+export type SnapshotChange = {
+  kind: 'appeared' | 'disappeared' | 'maneuver'
+  noradId: number
+  name: string
+  cosparId: string | null
+  objectType: ObjectType | null
+  launchDate: string | null
+  decayDate: string | null
+  // element set epochs compared (previous only for disappeared, current only for appeared)
+  previousEpoch: string | null
+  epoch: string | null
+  // maneuver: current minus previous
+  deltaSemiMajorAxisKm: number | null
+  deltaInclinationDeg: number | null
+  deltaEccentricity: number | null
+  // appeared: 'recent_launch'; disappeared: 'decayed';
+  // maneuver: the elements that jumped ('semi_major_axis' | 'inclination' | 'eccentricity')
+  reasons: string[]
+}
+
+export type ChangesReport = NormalizedFile<SnapshotChange> & {
+  // hour directory compared against, and its collection time
+  previous: { hourPath: string; generatedAt: string }
+}
+
+// YYYY/MM/DD/rollup.json: what the hours removed by `npm run compact` leave behind — their
+// changes.json records, tagged with the hour that produced them, and their counts
+export type DayRollup = NormalizedFile<SnapshotChange & { hourPath: string }> & {
+  // YYYY/MM/DD
+  day: string
+  hours: Array<{ hourPath: string; generatedAt: string; counts: Record<string, number> }>
+}
+
+// reentries.json: predicted re-entries of low-perigee objects
+export type ReentryEstimate = {
+  // last collection that produced this estimate, and the element set it came from
+  generatedAt: string
+  epoch: string
+  // UTC ISO 8601
+  nominal: string
+  windowStart: string
+  windowEnd: string
+}
+
+export type ReentryCandidate = Omit<ReentryEstimate, 'generatedAt'> & {
+  noradId: number
+  name: string
+  cosparId: string | null
+  objectType: ObjectType | null
+  perigeeKm: number
+  apogeeKm: number
+  bstar: number
+  meanMotionDot: number
+  // drag term the estimate rests on: the observed mean-motion derivative, or B* without one
+  method: 'mean_motion_dot' | 'bstar'
+  // Cd * A / m, m^2/kg
+  ballisticM2Kg: number
+  // estimates from earlier element sets, oldest first
+  previous: ReentryEstimate[]
+}
+
+export type ReentryReport = NormalizedFile<ReentryCandidate> & {
+  perigeeThresholdKm: number
+  horizonDays: number
+}
+
+// constellations.json: members of each known constellation and the health of their element sets
+export type ConstellationPlane = {
+  // circular mean of the members' RAAN, degrees
+  raanDeg: number
+  count: number
+}
+
+export type ConstellationShell = {
+  // mean altitude bin centre, km, and inclination rounded to a degree
+  altitudeKm: number
+  inclinationDeg: number
+  count: number
+  // clusters of RAAN within the shell; empty for near-equatorial shells
+  planes: ConstellationPlane[]
+}
+
+export type ConstellationStats = {
+  id: string
+  name: string
+  operator: string
+  kind: 'communications' | 'navigation' | 'earth_observation'
+  count: number
+  // sum over shells
+  planeCount: number
+  // most populated first
+  shells: ConstellationShell[]
+  // element sets whose epoch is older than the report's staleDays, oldest first
+  staleCount: number
+  staleIds: number[]
+  medianEpochAgeDays: number
+  oldestEpoch: string
+}
+
+export type ConstellationReport = NormalizedFile<ConstellationStats> & {
+  staleDays: number
+  // objects with elements that no rule matched
+  unclassified: number
+}
+
+// alerts.json (data root): alerts raised by the rules file after each collection, newest first
+export type AlertKind = 'maneuver' | 'stale' | 'pass' | 'new_object'
+
+export type Alert = {
+  // stable while the condition is the same one, so it is raised once
+  id: string
+  // rule id from the rules file
+  rule: string
+  kind: AlertKind
+  noradId: number
+  name: string
+  // the event: element set epoch (maneuver, stale), entry into the area (pass), collection time (new_object)
+  time: string
+  // pass: exit from the area
+  until?: string
+  // collection that first raised it
+  raisedAt: string
+  title: string
+  detail: string
+}
+
+export type AlertsFile = NormalizedFile<Alert>
+
+// history/<noradId>.jsonl: every distinct element set of one object, one JSON object per line,
+// appended in collection order with strictly increasing epochs
+export type HistoryElement = Omit<GpElement, 'noradId'>
+
+// history/index.json
+export type HistoryEntry = {
+  noradId: number
+  count: number
+  firstEpoch: string
+  lastEpoch: string
+}
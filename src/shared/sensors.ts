@@ -0,0 +1,102 @@
+// Sensor models and their instantaneous ground footprints, as circles on a spherical Earth
+// around the sub-satellite point. Imaging and SAR swaths are modelled as nadir circles of the
+// swath width, which sweep a strip of that width along the ground track.
+import type { Category } from './categories'
+import { EoKind, eoKind } from './missions'
+
+export type SensorModel =
+  // nadir-pointing cone
+  | { kind: 'cone'; halfAngleDeg: number }
+  // cross-track swath of an imager or SAR
+  | { kind: 'swath'; widthKm: number }
+  // everything above a minimum elevation, for comms and navigation
+  | { kind: 'horizon'; minElevationDeg: number }
+
+const EARTH_RADIUS_KM = 6378.137
+const DEG2RAD = Math.PI / 180
+
+// Per-mission values where the name identifies the instrument; the first match wins
+const SENSOR_RULES: Array<[RegExp, SensorModel]> = [
+  [/^STARLINK/, { kind: 'horizon', minElevationDeg: 25 }],
+  [/^ONEWEB/, { kind: 'horizon', minElevationDeg: 30 }],
+  [/^IRIDIUM/, { kind: 'horizon', minElevationDeg: 8.2 }],
+  [/^ORBCOMM/, { kind: 'horizon', minElevationDeg: 5 }],
+  [/^GLOBALSTAR/, { kind: 'horizon', minElevationDeg: 10 }],
+  [/^SENTINEL-1/, { kind: 'swath', widthKm: 250 }],
+  [/^SENTINEL-2/, { kind: 'swath', widthKm: 290 }],
+  [/^SENTINEL-3/, { kind: 'swath', widthKm: 1270 }],
+  [/^LANDSAT/, { kind: 'swath', widthKm: 185 }],
+  [/^(FLOCK|DOVE|SUPERDOVE)/, { kind: 'swath', widthKm: 24 }],
+  [/^SKYSAT/, { kind: 'swath', widthKm: 6 }],
+  [/^(WORLDVIEW|GEOEYE|LEGION)/, { kind: 'swath', widthKm: 13 }],
+  [/^(PLEIADES|PNEO)/, { kind: 'swath', widthKm: 20 }],
+  [/^(TERRA|AQUA)$/, { kind: 'swath', widthKm: 2330 }],
+  [/^(NOAA|METOP|JPSS|SUOMI NPP|NPP|FENGYUN-3|FY-3|METEOR-M)/, { kind: 'swath', widthKm: 2900 }],
+  [/^(GOES|HIMAWARI|METEOSAT|MTG-|GK-2A|GEO-KOMPSAT-2A|ELEKTRO|FENGYUN-4|FY-4|INSAT-3D)/, { kind: 'horizon', minElevationDeg: 0 }],
+]
+
+// Fallbacks when no rule names the mission
+const EO_DEFAULTS: Record<EoKind, SensorModel> = {
+  imaging: { kind: 'swath', widthKm: 20 },
+  sar: { kind: 'swath', widthKm: 100 },
+  weather: { kind: 'swath', widthKm: 2800 },
+}
+
+const CATEGORY_DEFAULTS: Partial<Record<Category, SensorModel>> = {
+  NAV: { kind: 'horizon', minElevationDeg: 5 },
+  GEO: { kind: 'horizon', minElevationDeg: 5 },
+}
+
+// Default sensor of an object; null for objects without one (debris, rocket bodies, ...)
+export function sensorModelFor(name: string, category: Category): SensorModel | null {
+  const n = name.toUpperCase().replace(/^0 /, '').trim()
+  for (const [re, model] of SENSOR_RULES) if (re.test(n)) return model
+  const kind = eoKind(n)
+  if (kind) return EO_DEFAULTS[kind]
+  return CATEGORY_DEFAULTS[category] ?? null
+}
+
+export function describeSensor(model: SensorModel) {
+  if (model.kind === 'cone') return `半頂角 ${model.halfAngleDeg}°`
+  if (model.kind === 'swath') return `観測幅 ${model.widthKm} km`
+  return `最低仰角 ${model.minElevationDeg}°`
+}
+
+// Earth central angle from the sub-satellite point to the footprint edge, degrees
+export function footprintRadiusDeg(model: SensorModel, altKm: number): number {
+  if (!(altKm > 0)) return 0
+  const r = EARTH_RADIUS_KM + altKm
+  const horizon = (minElevationDeg: number) => {
+    const e = minElevationDeg * DEG2RAD
+    return (Math.acos((EARTH_RADIUS_KM * Math.cos(e)) / r) - e) / DEG2RAD
+  }
+  if (model.kind === 'horizon') return Math.max(0, horizon(model.minElevationDeg))
+  if (model.kind === 'swath') return Math.min((model.widthKm / 2 / EARTH_RADIUS_KM) / DEG2RAD, horizon(0))
+  // a cone wider than the Earth's limb sees the whole horizon
+  const eta = model.halfAngleDeg * DEG2RAD
+  const s = (Math.sin(eta) * r) / EARTH_RADIUS_KM
+  if (s >= 1) return horizon(0)
+  return 90 - model.halfAngleDeg - Math.acos(s) / DEG2RAD
+}
+
+// Footprint outline, [lon, lat] degrees. Longitudes are kept continuous from one vertex to the
+// next (they may leave -180..180), so a ring across the antimeridian does not wrap the long way
+// and one around a pole spans 360 degrees.
+export function footprintRing(lonDeg: number, latDeg: number, radiusDeg: number, steps = 48): Array<[number, number]> {
+  const lat0 = latDeg * DEG2RAD
+  const d = radiusDeg * DEG2RAD
+  const out: Array<[number, number]> = []
+  for (let k = 0; k <= steps; k++) {
+    const bearing = (2 * Math.PI * k) / steps
+    const lat = Math.asin(Math.sin(lat0) * Math.cos(d) + Math.cos(lat0) * Math.sin(d) * Math.cos(bearing))
+    const dLon = Math.atan2(Math.sin(bearing) * Math.sin(d) * Math.cos(lat0), Math.cos(d) - Math.sin(lat0) * Math.sin(lat))
+    let lon = lonDeg + dLon / DEG2RAD
+    const prev = out[out.length - 1]
+    if (prev) lon += 360 * Math.round((prev[0] - lon) / 360)
+    out.push([lon, lat / DEG2RAD])
+  }
+  return out
+}
+
+// A footprint that reaches over a pole is not a simple polygon in longitude/latitude
+export const footprintCoversPole = (latDeg: number, radiusDeg: number) => Math.abs(latDeg) + radiusDeg >= 90
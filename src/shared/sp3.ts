@@ -0,0 +1,140 @@
+// Precise orbits from sp3_ephemeris.json: Lagrange interpolation of the sampled
+// Earth-fixed positions, shared by the collector and the viewer's propagation workers,
+// and the link from SP3 satellite ids (G01, E11, ...) to catalog objects.
+import { gstime, propagate, twoline2satrec } from 'satellite.js'
+import type { Sp3Ephemeris, Vec3 } from './schema'
+
+export type StateVector = { position: Vec3; velocity: Vec3 }
+
+// One satellite's samples in flat arrays, cheap to post to a worker
+export type PreciseTrack = {
+  // UTC, ms
+  epochsMs: Float64Array
+  // ECEF km, x/y/z per epoch; NaN where the SP3 file has no position
+  positions: Float64Array
+}
+
+export const DEFAULT_ORDER = 10
+
+export function preciseTrack(eph: Sp3Ephemeris, satId: string): PreciseTrack | null {
+  const sat = eph.satellites[satId]
+  if (!sat) return null
+  const positions = new Float64Array(eph.epochs.length * 3).fill(NaN)
+  sat.position_km.forEach((p, k) => p && positions.set(p, k * 3))
+  return { epochsMs: Float64Array.from(eph.epochs, (e) => Date.parse(e)), positions }
+}
+
+function lagrangeBasis(xs: number[], i: number, t: number) {
+  let p = 1
+  for (let j = 0; j < xs.length; j++) if (j !== i) p *= (t - xs[j]) / (xs[i] - xs[j])
+  return p
+}
+
+function lagrangeBasisDerivative(xs: number[], i: number, t: number) {
+  let sum = 0
+  for (let k = 0; k < xs.length; k++) {
+    if (k === i) continue
+    let p = 1 / (xs[i] - xs[k])
+    for (let j = 0; j < xs.length; j++) {
+      if (j !== i && j !== k) p *= (t - xs[j]) / (xs[i] - xs[j])
+    }
+    sum += p
+  }
+  return sum
+}
+
+// Lagrange interpolation over `order` samples centered on timeMs; Earth-fixed km and km/s.
+// Null outside the covered span or when a needed sample is missing.
+export function interpolateTrack(track: PreciseTrack, timeMs: number, order = DEFAULT_ORDER): StateVector | null {
+  const n = track.epochsMs.length
+  if (!n || timeMs < track.epochsMs[0] || timeMs > track.epochsMs[n - 1]) return null
+  const m = Math.min(Math.max(2, order), n)
+  let lo = 0
+  while (lo + 1 < n && track.epochsMs[lo + 1] <= timeMs) lo++
+  const start = Math.max(0, Math.min(n - m, lo - Math.floor((m - 1) / 2)))
+  // seconds relative to the first sample keep the products well conditioned
+  const xs = Array.from({ length: m }, (_, k) => (track.epochsMs[start + k] - track.epochsMs[start]) / 1000)
+  const t = (timeMs - track.epochsMs[start]) / 1000
+  const position: Vec3 = [0, 0, 0]
+  const velocity: Vec3 = [0, 0, 0]
+  for (let i = 0; i < m; i++) {
+    const li = lagrangeBasis(xs, i, t)
+    const dli = lagrangeBasisDerivative(xs, i, t)
+    for (let c = 0; c < 3; c++) {
+      const y = track.positions[(start + i) * 3 + c]
+      if (Number.isNaN(y)) return null
+      position[c] += y * li
+      velocity[c] += y * dli
+    }
+  }
+  return { position, velocity }
+}
+
+export function interpolateSp3(
+  eph: Sp3Ephemeris,
+  satId: string,
+  date: Date,
+  opts: { order?: number; frame?: 'ecef' | 'eci' } = {}
+): StateVector | null {
+  const track = preciseTrack(eph, satId)
+  const state = track && interpolateTrack(track, date.getTime(), opts.order)
+  if (!state) return null
+  return opts.frame === 'eci' ? ecefToEci(state, date) : state
+}
+
+const EARTH_ROTATION_RAD_S = 7.292115e-5
+
+// Earth-fixed -> pseudo-inertial by Earth rotation angle only (no precession/nutation/polar motion),
+// which is the same frame satellite.js returns for SGP4 and good enough for display.
+export function ecefToEci(state: StateVector, date: Date): StateVector {
+  const theta = gstime(date)
+  const c = Math.cos(theta)
+  const s = Math.sin(theta)
+  const [x, y, z] = state.position
+  const [vx, vy, vz] = state.velocity
+  const rot = (a: number, b: number): [number, number] => [c * a - s * b, s * a + c * b]
+  const [px, py] = rot(x, y)
+  // v_inertial = R (v_fixed + w x r)
+  const [qx, qy] = rot(vx - EARTH_ROTATION_RAD_S * y, vy + EARTH_ROTATION_RAD_S * x)
+  return { position: [px, py, z], velocity: [qx, qy, vz] }
+}
+
+// SGP4 of a GNSS element set is off by a few km; satellites sharing a plane are thousands apart
+const LINK_MAX_KM = 100
+// GNSS, IGSO and GEO: below ~5 rev/day
+const LINK_MAX_MEAN_MOTION = 5
+
+// Catalog index of each SP3 satellite: the object whose SGP4 position is nearest to the SP3
+// position at the middle epoch, within LINK_MAX_KM. SP3 files name satellites by PRN/slot,
+// which the catalog does not carry reliably.
+export function linkSp3ToCatalog(eph: Sp3Ephemeris, tles: Array<{ l1: string; l2: string }>): Map<string, number> {
+  const k = Math.floor(eph.epochs.length / 2)
+  const date = new Date(eph.epochs[k])
+  const candidates: Array<{ index: number; position: Vec3 }> = []
+  tles.forEach((t, index) => {
+    if (Number(t.l2.slice(52, 63)) > LINK_MAX_MEAN_MOTION) return
+    try {
+      const p = propagate(twoline2satrec(t.l1, t.l2), date)?.position
+      if (p && typeof p === 'object') candidates.push({ index, position: [p.x, p.y, p.z] })
+    } catch {
+      // unusable element set
+    }
+  })
+  const out = new Map<string, number>()
+  const taken = new Set<number>()
+  for (const satId of Object.keys(eph.satellites)) {
+    const p = eph.satellites[satId].position_km[k]
+    if (!p) continue
+    const { position } = ecefToEci({ position: p, velocity: [0, 0, 0] }, date)
+    let best: { index: number; d: number } | null = null
+    for (const c of candidates) {
+      const d = Math.hypot(c.position[0] - position[0], c.position[1] - position[1], c.position[2] - position[2])
+      if (d < LINK_MAX_KM && !taken.has(c.index) && (!best || d < best.d)) best = { index: c.index, d }
+    }
+    if (best) {
+      out.set(satId, best.index)
+      taken.add(best.index)
+    }
+  }
+  return out
+}
@@ -0,0 +1,55 @@
+// Content-addressed layout of compacted hour directories (npm run compact).
+// HH/store.json maps each file name to blobs under data/store/blobs/: the day's first copy of
+// the file (the keyframe) plus, for text files, the line deltas of each later hour that day.
+// Unchanged element sets are therefore stored once per day, and any hour decodes from at most
+// one day's blobs.
+
+export const STORE_DIR = 'store'
+export const STORE_MANIFEST = 'store.json'
+
+export type StoreEntry = {
+  // sha256 of the reconstructed file, and its size in bytes
+  sha256: string
+  size: number
+  // sha256 of the blob holding the whole file, or the keyframe the deltas apply to
+  blob: string
+  // line delta blobs (JSON LineDelta), applied in order
+  deltas?: string[]
+}
+
+export type StoreManifest = {
+  version: 1
+  files: Record<string, StoreEntry>
+}
+
+// Relative to the data root; two-character fan-out keeps directories small
+export const blobPath = (hash: string) => `${STORE_DIR}/blobs/${hash.slice(0, 2)}/${hash}`
+
+// Lines copied from the base as [start, count] runs, other lines verbatim
+export type LineDelta = Array<string | [number, number]>
+
+export function encodeLineDelta(base: string, text: string): LineDelta {
+  const firstIndex = new Map<string, number>()
+  base.split('\n').forEach((line, i) => {
+    if (!firstIndex.has(line)) firstIndex.set(line, i)
+  })
+  const out: LineDelta = []
+  for (const line of text.split('\n')) {
+    const i = firstIndex.get(line)
+    const last = out[out.length - 1]
+    if (i === undefined) out.push(line)
+    else if (Array.isArray(last) && last[0] + last[1] === i) last[1]++
+    else out.push([i, 1])
+  }
+  return out
+}
+
+export function applyLineDelta(base: string, delta: LineDelta): string {
+  const lines = base.split('\n')
+  const out: string[] = []
+  for (const d of delta) {
+    if (typeof d === 'string') out.push(d)
+    else for (let i = d[0]; i < d[0] + d[1]; i++) out.push(lines[i])
+  }
+  return out.join('\n')
+}
@@ -0,0 +1,63 @@
+// Low-precision solar position (Astronomical Almanac, ~0.01 deg 1950-2050), enough for
+// illumination and the day/night terminator.
+import { gstime } from 'satellite.js'
+import type { Vec3 } from './schema'
+
+const DEG2RAD = Math.PI / 180
+const AU_KM = 149597870.7
+const EARTH_RADIUS_KM = 6378.137
+
+function solarCoordinates(time: number) {
+  const n = time / 86400000 + 2440587.5 - 2451545.0
+  const L = 280.46 + 0.9856474 * n
+  const g = (357.528 + 0.9856003 * n) * DEG2RAD
+  const lambda = (L + 1.915 * Math.sin(g) + 0.02 * Math.sin(2 * g)) * DEG2RAD
+  const epsilon = (23.439 - 0.0000004 * n) * DEG2RAD
+  const rAu = 1.00014 - 0.01671 * Math.cos(g) - 0.00014 * Math.cos(2 * g)
+  return { lambda, epsilon, rAu }
+}
+
+// Sun position in the same quasi-inertial frame satellite.js propagates in, km
+export function sunPositionEci(time: number): Vec3 {
+  const { lambda, epsilon, rAu } = solarCoordinates(time)
+  const r = rAu * AU_KM
+  return [
+    r * Math.cos(lambda),
+    r * Math.cos(epsilon) * Math.sin(lambda),
+    r * Math.sin(epsilon) * Math.sin(lambda),
+  ]
+}
+
+// Point on the ground where the sun is at the zenith, degrees
+export function subsolarPoint(time: number) {
+  const { lambda, epsilon } = solarCoordinates(time)
+  const ra = Math.atan2(Math.cos(epsilon) * Math.sin(lambda), Math.cos(lambda))
+  const dec = Math.asin(Math.sin(epsilon) * Math.sin(lambda))
+  let lon = (ra - gstime(new Date(time))) / DEG2RAD
+  lon = ((((lon + 180) % 360) + 360) % 360) - 180
+  return { latDeg: dec / DEG2RAD, lonDeg: lon }
+}
+
+// Solar elevation above the horizon at a ground point (negative = night)
+export function solarElevationDeg(latDeg: number, lonDeg: number, time: number) {
+  const sub = subsolarPoint(time)
+  const phi = latDeg * DEG2RAD
+  const dec = sub.latDeg * DEG2RAD
+  const h = (lonDeg - sub.lonDeg) * DEG2RAD
+  return Math.asin(Math.sin(phi) * Math.sin(dec) + Math.cos(phi) * Math.cos(dec) * Math.cos(h)) / DEG2RAD
+}
+
+// Cylindrical Earth-shadow test for a satellite position (ECI, km)
+export function isSunlit(positionEci: Vec3, time: number) {
+  const s = sunPositionEci(time)
+  const norm = Math.hypot(s[0], s[1], s[2])
+  const u = [s[0] / norm, s[1] / norm, s[2] / norm]
+  const along = positionEci[0] * u[0] + positionEci[1] * u[1] + positionEci[2] * u[2]
+  if (along >= 0) return true
+  const perp = Math.hypot(
+    positionEci[0] - along * u[0],
+    positionEci[1] - along * u[1],
+    positionEci[2] - along * u[2]
+  )
+  return perp > EARTH_RADIUS_KM
+}
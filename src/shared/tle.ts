@@ -0,0 +1,134 @@
+// TLE line helpers usable from both Node and the browser.
+
+export type TleLines = { name?: string; l1: string; l2: string }
+
+export function tleChecksum(line: string) {
+  let sum = 0
+  for (const ch of line.slice(0, 68)) {
+    if (ch >= '0' && ch <= '9') sum += ch.charCodeAt(0) - 48
+    else if (ch === '-') sum += 1
+  }
+  return sum % 10
+}
+
+// 2LE or 3LE text -> line pairs, keeping the preceding name line when present
+export function parseTleText(text: string): TleLines[] {
+  const lines = text.split(/\r?\n/).map((l) => l.trimEnd())
+  const out: TleLines[] = []
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+    if (line.startsWith('1 ') && lines[i + 1]?.startsWith('2 ')) {
+      const prev = lines[i - 1]
+      const name = prev && !prev.startsWith('1 ') && !prev.startsWith('2 ') ? prev.trim() : undefined
+      out.push({ name, l1: line, l2: lines[i + 1] })
+      i++
+    }
+  }
+  return out
+}
+
+export type TleElements = {
+  noradId: number
+  classification?: string
+  cosparId?: string | null
+  // ms since Unix epoch, UTC
+  epochMs: number
+  meanMotionDot: number
+  meanMotionDdot: number
+  bstar: number
+  elementSetNo?: number
+  inclinationDeg: number
+  raanDeg: number
+  eccentricity: number
+  argPerigeeDeg: number
+  meanAnomalyDeg: number
+  meanMotionRevPerDay: number
+  revAtEpoch?: number
+}
+
+// Alpha-5 catalog numbers: 100000+ use a leading letter (I and O skipped)
+const ALPHA5_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ'
+
+function formatSatnum(id: number) {
+  if (id < 100000) return String(id).padStart(5, '0')
+  const head = Math.floor(id / 10000) - 10
+  return `${ALPHA5_LETTERS[head] ?? 'Z'}${String(id % 10000).padStart(4, '0')}`
+}
+
+// Catalog number from line 1, decoding Alpha-5 ("A0001" -> 100001)
+export function tleNoradId(l1: string) {
+  const f = l1.slice(2, 7).trim()
+  const head = ALPHA5_LETTERS.indexOf(f[0])
+  return head >= 0 ? (head + 10) * 10000 + Number(f.slice(1)) : Number(f)
+}
+
+// International designator columns "98067A  " -> "1998-067A"
+export function tleCosparId(l1: string) {
+  const d = l1.slice(9, 17).trim()
+  if (!/^\d{5}/.test(d)) return null
+  const yy = Number(d.slice(0, 2))
+  return `${yy < 57 ? 2000 + yy : 1900 + yy}-${d.slice(2)}`
+}
+
+// "1998-067A" -> "98067A  "
+function formatIntlDes(cospar?: string | null) {
+  const m = /^\d{2}(\d{2})-(\d{3})([A-Z]{0,3})$/.exec(cospar ?? '')
+  return (m ? `${m[1]}${m[2]}${m[3]}` : '').padEnd(8, ' ')
+}
+
+function formatEpoch(ms: number) {
+  const d = new Date(ms)
+  const year = d.getUTCFullYear()
+  const doy = (ms - Date.UTC(year, 0, 1)) / 86400000 + 1
+  return `${String(year % 100).padStart(2, '0')}${doy.toFixed(8).padStart(12, '0')}`
+}
+
+// " .00001080" / "-.00001080"
+function formatNdot(v: number) {
+  const s = Math.min(Math.abs(v), 0.99999999).toFixed(8).slice(1)
+  return `${v < 0 ? '-' : ' '}${s}`
+}
+
+// Assumed-decimal exponent field: 0.12345e-3 -> " 12345-3"
+function formatExp(v: number) {
+  if (!v || !Number.isFinite(v)) return ' 00000+0'
+  const a = Math.abs(v)
+  let exp = Math.floor(Math.log10(a)) + 1
+  let digits = Math.round((a / 10 ** exp) * 1e5)
+  if (digits >= 100000) {
+    digits = 10000
+    exp++
+  }
+  if (exp < -9) return ' 00000+0'
+  exp = Math.min(exp, 9)
+  return `${v < 0 ? '-' : ' '}${String(digits).padStart(5, '0')}${exp < 0 ? '-' : '+'}${Math.abs(exp)}`
+}
+
+const fixed = (v: number, width: number, digits: number) => (((v % 360) + 360) % 360).toFixed(digits).padStart(width, ' ')
+
+const withChecksum = (line: string) => `${line}${tleChecksum(line)}`
+
+// Mean elements -> TLE lines that satellite.js twoline2satrec() accepts
+export function formatTle(el: TleElements): { l1: string; l2: string } {
+  const satnum = formatSatnum(el.noradId)
+  const l1 = [
+    `1 ${satnum}${(el.classification || 'U').slice(0, 1)}`,
+    formatIntlDes(el.cosparId),
+    formatEpoch(el.epochMs),
+    formatNdot(el.meanMotionDot),
+    formatExp(el.meanMotionDdot),
+    formatExp(el.bstar),
+    '0',
+    String((el.elementSetNo ?? 999) % 10000).padStart(4, ' '),
+  ].join(' ')
+  const l2 = [
+    `2 ${satnum}`,
+    el.inclinationDeg.toFixed(4).padStart(8, ' '),
+    fixed(el.raanDeg, 8, 4),
+    Math.round(el.eccentricity * 1e7).toString().padStart(7, '0').slice(0, 7),
+    fixed(el.argPerigeeDeg, 8, 4),
+    fixed(el.meanAnomalyDeg, 8, 4),
+    `${el.meanMotionRevPerDay.toFixed(8).padStart(11, ' ')}${String((el.revAtEpoch ?? 0) % 100000).padStart(5, ' ')}`,
+  ].join(' ')
+  return { l1: withChecksum(l1), l2: withChecksum(l2) }
+}
@@ -0,0 +1,41 @@
+// Area-of-interest crossings for the viewer, same computation as `npm run aoi`.
+import { twoline2satrec } from "satellite.js";
+import { eoKind } from "../shared/missions";
+import { Crossing, findCrossings } from "../shared/overflight";
+import type { AoiGeometry } from "../shared/schema";
+
+export type AoiRequest = {
+  type: "aoi";
+  tles: Array<{ name?: string; l1: string; l2: string }>;
+  geometry: AoiGeometry;
+  start: number;
+  end: number;
+};
+export type AoiResult = {
+  type: "result";
+  // index into the request's tles
+  crossings: Array<Crossing & { index: number; kind: string }>;
+};
+
+const ctx = self as unknown as {
+  onmessage: ((e: MessageEvent<AoiRequest>) => void) | null;
+  postMessage: (msg: AoiResult) => void;
+};
+
+ctx.onmessage = (e) => {
+  const { tles, geometry, start, end } = e.data;
+  const crossings: AoiResult["crossings"] = [];
+  tles.forEach((t, index) => {
+    const kind = eoKind(t.name ?? "");
+    if (!kind) return;
+    let rec;
+    try {
+      rec = twoline2satrec(t.l1, t.l2);
+    } catch {
+      return;
+    }
+    for (const c of findCrossings(rec, geometry, { start, end })) crossings.push({ ...c, index, kind });
+  });
+  crossings.sort((a, b) => a.entry - b.entry);
+  ctx.postMessage({ type: "result", crossings });
+};
@@ -0,0 +1,34 @@
+// Pass prediction for many objects off the main thread; one request per worker lifetime.
+import { twoline2satrec } from "satellite.js";
+import { Observer, Pass, PassOptions, predictPasses } from "../shared/passes";
+
+export type PassesRequest = {
+  type: "passes";
+  tles: Array<{ l1: string; l2: string }>;
+  // position of each TLE in the caller's catalog
+  indices: number[];
+  observer: Observer;
+  options: PassOptions;
+};
+export type PassesResult = { type: "result"; passes: Array<Pass & { index: number }> };
+
+const ctx = self as unknown as {
+  onmessage: ((e: MessageEvent<PassesRequest>) => void) | null;
+  postMessage: (msg: PassesResult) => void;
+};
+
+ctx.onmessage = (e) => {
+  const { tles, indices, observer, options } = e.data;
+  const passes: PassesResult["passes"] = [];
+  tles.forEach((t, i) => {
+    let rec;
+    try {
+      rec = twoline2satrec(t.l1, t.l2);
+    } catch {
+      return;
+    }
+    for (const p of predictPasses(rec, observer, options)) passes.push({ ...p, index: indices[i] });
+  });
+  passes.sort((a, b) => a.aos - b.aos);
+  ctx.postMessage({ type: "result", passes });
+};
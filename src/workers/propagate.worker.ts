@@ -0,0 +1,87 @@
+// SGP4 propagation worker: owns one slice of the catalog and answers ticks with
+// a transferable Float32Array of [lng, lat, scaledAltitudeM] triples, plus the true
+// altitudes in km for footprints. Objects with a precise (SP3) track use it within its span.
+import {
+  twoline2satrec,
+  propagate,
+  eciToGeodetic,
+  degreesLat,
+  degreesLong,
+  gstime,
+} from "satellite.js";
+import { categoryCode, pickCategory } from "../shared/categories";
+import { scaleAltitudeLog } from "../lib/altitude";
+import { PreciseTrack, interpolateTrack } from "../shared/sp3";
+
+export type WorkerInit = {
+  type: "init";
+  tles: Array<{ name?: string; l1: string; l2: string; category?: number }>;
+  time: number;
+};
+export type WorkerTick = { type: "tick"; id: number; time: number };
+// index within the worker's slice; replaces the previous set
+export type WorkerPrecise = { type: "precise"; tracks: Array<PreciseTrack & { index: number }> };
+export type WorkerReady = { type: "ready"; categories: Uint8Array };
+export type WorkerPositions = { type: "positions"; id: number; positions: Float32Array; altKm: Float32Array };
+
+const ctx = self as unknown as {
+  onmessage: ((e: MessageEvent<WorkerInit | WorkerTick | WorkerPrecise>) => void) | null;
+  postMessage: (msg: WorkerReady | WorkerPositions, transfer: Transferable[]) => void;
+};
+
+let satrecs: Array<ReturnType<typeof twoline2satrec> | null> = [];
+let precise = new Map<number, PreciseTrack>();
+
+function propagateAll(time: number, out: Float32Array, altKm?: Float32Array) {
+  const date = new Date(time);
+  const gmst = gstime(date);
+  for (let i = 0; i < satrecs.length; i++) {
+    const track = precise.get(i);
+    const state = track && interpolateTrack(track, time);
+    const rec = satrecs[i];
+    // SP3 positions are Earth-fixed: geodetic at a sidereal angle of zero
+    const pos = state
+      ? { x: state.position[0], y: state.position[1], z: state.position[2] }
+      : rec
+        ? propagate(rec, date)?.position
+        : undefined;
+    if (!pos || typeof pos !== "object") {
+      // NaN positions are dropped by the GPU
+      out[i * 3] = out[i * 3 + 1] = out[i * 3 + 2] = NaN;
+      if (altKm) altKm[i] = NaN;
+      continue;
+    }
+    const gd = eciToGeodetic(pos, state ? 0 : gmst);
+    out[i * 3] = degreesLong(gd.longitude);
+    out[i * 3 + 1] = degreesLat(gd.latitude);
+    out[i * 3 + 2] = scaleAltitudeLog(Math.max(0, gd.height * 1000));
+    if (altKm) altKm[i] = gd.height;
+  }
+}
+
+ctx.onmessage = (e) => {
+  const msg = e.data;
+  if (msg.type === "init") {
+    satrecs = msg.tles.map((t) => {
+      try {
+        return twoline2satrec(t.l1, t.l2);
+      } catch {
+        return null;
+      }
+    });
+    // Objects without a precomputed category are classified by name and current altitude
+    const altKm = new Float32Array(satrecs.length);
+    propagateAll(msg.time, new Float32Array(satrecs.length * 3), altKm);
+    const categories = new Uint8Array(
+      msg.tles.map((t, i) => t.category ?? categoryCode(pickCategory("", t.name ?? "", altKm[i] || 0)))
+    );
+    ctx.postMessage({ type: "ready", categories }, [categories.buffer]);
+  } else if (msg.type === "precise") {
+    precise = new Map(msg.tracks.map(({ index, ...track }) => [index, track]));
+  } else if (msg.type === "tick") {
+    const positions = new Float32Array(satrecs.length * 3);
+    const altKm = new Float32Array(satrecs.length);
+    propagateAll(msg.time, positions, altKm);
+    ctx.postMessage({ type: "positions", id: msg.id, positions, altKm }, [positions.buffer, altKm.buffer]);
+  }
+};